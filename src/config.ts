@@ -118,6 +118,17 @@ function resolveScreenshotGeneration(): { enabled: boolean; source: string } {
 const developerModeConfig = resolveDeveloperMode();
 const screenshotConfig = resolveScreenshotGeneration();
 
+// Resolved once - the per-project data directories below are named after it
+const projectRoot = process.env.PROJECT_ROOT || '/var/home/viky/Code/applications/src/@egirl/egirl-platform';
+
+/**
+ * Per-project directory in the service data directory:
+ * <data-dir>/stream-workflow-data/<kind>/<project-name>
+ */
+function projectDataDir(kind: string): string {
+  return join(getMCPServiceDataDir('stream-workflow'), kind, basename(projectRoot));
+}
+
 export const config: Config = {
   // ============================================================================
   // File Processing
@@ -125,10 +136,8 @@ export const config: Config = {
 
   /**
    * Maximum file size for conflict resolution (bytes)
-   * Files larger than this will fail with error.
-   *
-   * To increase: Change value, rebuild, restart Claude Code
-   * Better solution: Implement chunked processing (see docs/EXTENDING.md)
+   * Larger conflicted files are reported hunk-by-hunk: prepare_merge shows
+   * the first hunk and an index, the agent pages with get_conflict_hunk.
    */
   MAX_FILE_SIZE: 100 * 1024, // 100KB
 
@@ -138,6 +147,31 @@ export const config: Config = {
    */
   MAX_CONFLICTS_PER_MERGE: 50,
 
+  /**
+   * Commits per side shown with each conflicted file
+   * Only commits since the merge base that touched the file are listed.
+   */
+  CONFLICT_HISTORY_MAX_COMMITS: 10,
+
+  /**
+   * Characters of per-commit diffs shown for each side of a conflicted file
+   * Older commits beyond the budget are listed without their diff.
+   */
+  CONFLICT_HISTORY_DIFF_BUDGET: 6000,
+
+  /**
+   * Characters of conflict report prepare_merge returns in total
+   * Once spent, remaining files are listed one line each (fetch their
+   * hunks with get_conflict_hunk).
+   */
+  CONFLICT_RESPONSE_BUDGET: 60000,
+
+  /**
+   * Characters shown per hunk in the conflict report
+   * Longer hunk sides are cut at a line boundary.
+   */
+  CONFLICT_HUNK_MAX_CHARS: 8000,
+
   // ============================================================================
   // Timeouts
   // ============================================================================
@@ -160,6 +194,12 @@ export const config: Config = {
    */
   VALIDATION_TIMEOUT: 120000, // 2 minutes
 
+  /**
+   * Timeout for regenerating a conflicted lockfile (milliseconds)
+   * Runs the package manager in lockfile-only mode inside the worktree
+   */
+  LOCKFILE_INSTALL_TIMEOUT: 180000, // 3 minutes
+
   // ============================================================================
   // AI Configuration
   // ============================================================================
@@ -191,9 +231,7 @@ export const config: Config = {
    * Absolute path to egirl-platform main directory
    * Can be overridden via PROJECT_ROOT environment variable
    */
-  PROJECT_ROOT:
-    process.env.PROJECT_ROOT ||
-    '/var/home/viky/Code/applications/src/@egirl/egirl-platform',
+  PROJECT_ROOT: projectRoot,
 
   /**
    * Absolute path to worktrees directory
@@ -218,11 +256,7 @@ export const config: Config = {
     }
 
     // Use OS-specific cache directory with project-specific subdirectory
-    const projectRoot = process.env.PROJECT_ROOT ||
-      '/var/home/viky/Code/applications/src/@egirl/egirl-platform';
-    const projectName = basename(projectRoot);
-
-    return join(getMCPServiceDataDir('stream-workflow'), 'worktrees', projectName);
+    return projectDataDir('worktrees');
   })(),
 
   /**
@@ -230,6 +264,64 @@ export const config: Config = {
    */
   STREAM_STATE_PATH: '.project/.stream-state.json',
 
+  /**
+   * Per-project conflict resolution prompt (relative to PROJECT_ROOT)
+   * Used instead of the bundled prompts/conflict-resolution.txt when present.
+   */
+  CONFLICT_PROMPT_PATH: '.project/prompts/conflict-resolution.txt',
+
+  /**
+   * Conflict analytics store (FEATURES.conflictAnalytics)
+   *
+   * Append-only JSONL in the service data directory, one file per project:
+   * <data-dir>/stream-workflow-data/analytics/<project-name>/conflicts.jsonl
+   *
+   * Can be overridden via CONFLICT_ANALYTICS_PATH environment variable
+   */
+  CONFLICT_ANALYTICS_PATH: (() => {
+    if (process.env.CONFLICT_ANALYTICS_PATH) {
+      return process.env.CONFLICT_ANALYTICS_PATH;
+    }
+
+    return join(projectDataDir('analytics'), 'conflicts.jsonl');
+  })(),
+
+  /**
+   * Per-project validator config (relative to PROJECT_ROOT)
+   * Declares the commands prepare_merge runs after the merge commit; the
+   * built-in typescript/build/lint validators are used when absent.
+   */
+  VALIDATOR_CONFIG_PATH: '.project/validators.json',
+
+  /**
+   * Diagnostics of origin/main per commit, for "no-regressions" validation
+   * <data-dir>/stream-workflow-data/baselines/<project-name>/<commit>/
+   *
+   * Can be overridden via VALIDATION_BASELINE_DIR environment variable
+   */
+  VALIDATION_BASELINE_DIR: (() => {
+    if (process.env.VALIDATION_BASELINE_DIR) {
+      return process.env.VALIDATION_BASELINE_DIR;
+    }
+
+    return projectDataDir('baselines');
+  })(),
+
+  /**
+   * Validator results per git tree, so prepare_merge re-runs on an unchanged
+   * tree return instantly (clear with prepare_merge clearValidationCache)
+   * <data-dir>/stream-workflow-data/validation-cache/<project-name>/<tree-hash>/
+   *
+   * Can be overridden via VALIDATION_CACHE_DIR environment variable
+   */
+  VALIDATION_CACHE_DIR: (() => {
+    if (process.env.VALIDATION_CACHE_DIR) {
+      return process.env.VALIDATION_CACHE_DIR;
+    }
+
+    return projectDataDir('validation-cache');
+  })(),
+
   // ============================================================================
   // Locking
   // ============================================================================
@@ -262,15 +354,27 @@ export const config: Config = {
   // ============================================================================
 
   /**
-   * Which validators to run after conflict resolution
-   * Set to false to disable specific validators
+   * Validator toggles, keyed by validator name
+   * Set to false to skip a validator; validators not listed here run.
+   * Built-in validators (used without VALIDATOR_CONFIG_PATH):
    */
   VALIDATORS: {
-    typescript: true, // npx tsc --noEmit
-    build: true, // pnpm build --dry-run
-    lint: true, // pnpm lint
+    typescript: true, // npx tsc --noEmit --pretty false (required)
+    build: true, // pnpm build (required; advisory when package.json has no build script)
+    lint: true, // pnpm lint (required; advisory, as npx eslint . --format json, without a lint script)
+    test: true, // Test suite of the packages the stream changed (required)
   },
 
+  /**
+   * Which tests the test validator runs
+   * - 'changed': workspace packages touched by the stream's diff against main
+   *   (full run when root config such as package.json or the lockfile changed)
+   * - 'all': the whole suite
+   *
+   * Can be overridden via TEST_VALIDATION_SCOPE environment variable
+   */
+  TEST_VALIDATION_SCOPE: process.env.TEST_VALIDATION_SCOPE === 'all' ? 'all' : 'changed',
+
   // ============================================================================
   // Feature Flags
   // ============================================================================
@@ -286,16 +390,35 @@ export const config: Config = {
     parallelConflictResolution: false,
 
     /**
-     * Support binary file conflicts (NOT IMPLEMENTED)
-     * Currently only text files supported
+     * Support binary file conflicts (IMPLEMENTED)
+     * prepare_merge reports size/hash/image dimensions per side and
+     * resolve_binary_conflict picks ours, theirs or both (renamed)
+     *
+     * DEFAULT: false (opt-in via ENABLE_BINARY_CONFLICTS=true)
      */
-    binaryFileSupport: false,
+    binaryFileSupport: process.env.ENABLE_BINARY_CONFLICTS === 'true',
 
     /**
-     * Track conflict resolution metrics (NOT IMPLEMENTED)
-     * Future: Learn which strategies work best
+     * Track conflict resolution metrics (IMPLEMENTED)
+     * prepare_merge records each conflict (file, type, strategy, confidence,
+     * colliding streams) and the merge's validation result, rollback_merge
+     * records rollbacks; conflict_report shows hotspots and strategy success
+     * rates. Stored locally at CONFLICT_ANALYTICS_PATH.
+     *
+     * DEFAULT: false (opt-in via ENABLE_CONFLICT_ANALYTICS=true)
+     */
+    conflictAnalytics: process.env.ENABLE_CONFLICT_ANALYTICS === 'true',
+
+    /**
+     * Install the conflict marker pre-commit hook (IMPLEMENTED)
+     * start_stream and prepare_merge install hooks/conflict-marker-guard,
+     * which blocks commits with leftover conflict markers in stream
+     * worktrees. The hooks directory is shared by all worktrees; the hook
+     * does nothing in the main checkout.
+     *
+     * DEFAULT: false (opt-in via ENABLE_CONFLICT_MARKER_HOOK=true)
      */
-    conflictAnalytics: false,
+    conflictMarkerHook: process.env.ENABLE_CONFLICT_MARKER_HOOK === 'true',
 
     /**
      * Generate screenshots during prepare_merge (IMPLEMENTED)
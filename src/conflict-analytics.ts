@@ -0,0 +1,314 @@
+/**
+ * Conflict Analytics (FEATURES.conflictAnalytics)
+ *
+ * prepare_merge records every conflicted file of a merge (type, strategy,
+ * confidence, colliding streams) and the merge's validation result;
+ * rollback_merge records rollbacks. Records are appended to a local JSONL
+ * file (CONFLICT_ANALYTICS_PATH) and never rewritten. conflict_report
+ * summarizes them: hotspot files, stream pairs that collide, and how often
+ * each strategy's merges passed validation and stayed on main.
+ *
+ * Recording never fails a merge - errors are logged and skipped.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { SimpleGit } from 'simple-git';
+
+import { config } from './config.js';
+import { listStreams } from './state-manager.js';
+import type { ConflictInfo } from './conflict-resolver.js';
+import type {
+  AutoResolvedConflict,
+  ConflictAnalyticsEvent,
+  ConflictAnalyticsRecord,
+  RollbackAnalyticsRecord,
+  ValidationAnalyticsRecord,
+} from './types.js';
+
+export interface FileHotspot {
+  file: string;
+  conflicts: number;
+  streams: number; // Distinct streams that hit the conflict
+  lastSeen: string; // ISO timestamp
+}
+
+export interface StreamCollision {
+  streams: [string, string]; // Sorted pair
+  conflicts: number;
+  files: number;
+}
+
+export type MergeOutcome = 'passed' | 'failed' | 'rolled-back' | 'unknown';
+
+export interface StrategySuccess {
+  strategy: string;
+  conflicts: number;
+  outcomes: Record<MergeOutcome, number>;
+  byMonth: { month: string; passed: number; decided: number }[]; // decided = outcome known
+}
+
+export interface ConflictAnalyticsSummary {
+  conflicts: number;
+  merges: number;
+  hotspots: FileHotspot[];
+  collisions: StreamCollision[];
+  strategies: StrategySuccess[];
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+/**
+ * Append events to the store (no-op unless FEATURES.conflictAnalytics)
+ */
+export function appendConflictAnalytics(events: ConflictAnalyticsEvent[]): void {
+  if (!config.FEATURES.conflictAnalytics || events.length === 0) {
+    return;
+  }
+
+  try {
+    mkdirSync(dirname(config.CONFLICT_ANALYTICS_PATH), { recursive: true });
+    appendFileSync(config.CONFLICT_ANALYTICS_PATH, events.map((event) => `${JSON.stringify(event)}\n`).join(''));
+  } catch (error) {
+    console.error(`[conflict-analytics] Could not write ${config.CONFLICT_ANALYTICS_PATH}: ${error}`);
+  }
+}
+
+/**
+ * All events in the store, oldest first; unreadable lines are skipped
+ */
+export function readConflictAnalytics(): ConflictAnalyticsEvent[] {
+  if (!existsSync(config.CONFLICT_ANALYTICS_PATH)) {
+    return [];
+  }
+
+  const events: ConflictAnalyticsEvent[] = [];
+  for (const line of readFileSync(config.CONFLICT_ANALYTICS_PATH, 'utf-8').split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      events.push(JSON.parse(line) as ConflictAnalyticsEvent);
+    } catch {
+      // Partial line from an interrupted write
+    }
+  }
+  return events;
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Record the conflicted files of a merge paused in Step C
+ *
+ * @param git - SimpleGit instance in the worktree (MERGE_HEAD set)
+ * @param conflicts - Conflicts from extractConflicts
+ * @param autoResolved - Files the strategies resolved; the rest count as 'agent'
+ */
+export async function recordMergeConflicts(
+  git: SimpleGit,
+  streamId: string,
+  conflicts: ConflictInfo[],
+  autoResolved: AutoResolvedConflict[]
+): Promise<void> {
+  if (!config.FEATURES.conflictAnalytics) {
+    return;
+  }
+
+  try {
+    const mainCommit = (await git.revparse(['MERGE_HEAD'])).trim();
+    const landedBy = await mapLandedCommits(git, streamId);
+    const timestamp = new Date().toISOString();
+
+    const records = conflicts.map((conflict): ConflictAnalyticsRecord => {
+      const resolution = autoResolved.find((r) => r.file === conflict.file);
+      const collidesWith = new Set(
+        conflict.mainCommits.map((commit) => landedBy.get(commit.hash)).filter((id): id is string => !!id)
+      );
+
+      return {
+        type: 'conflict',
+        timestamp,
+        streamId,
+        mainCommit,
+        file: conflict.file,
+        conflictType: conflict.conflictType,
+        strategy: resolution?.strategy ?? 'agent',
+        confidence: resolution?.confidence ?? null,
+        collidesWith: [...collidesWith].sort(),
+      };
+    });
+
+    appendConflictAnalytics(records);
+  } catch (error) {
+    console.error(`[conflict-analytics] Could not record conflicts for ${streamId}: ${error}`);
+  }
+}
+
+/**
+ * Record the validation result of the merge now committed in the worktree
+ */
+export async function recordMergeValidation(git: SimpleGit, streamId: string, passed: boolean): Promise<void> {
+  if (!config.FEATURES.conflictAnalytics) {
+    return;
+  }
+
+  try {
+    const record: ValidationAnalyticsRecord = {
+      type: 'validation',
+      timestamp: new Date().toISOString(),
+      streamId,
+      mainCommit: (await git.raw(['merge-base', 'HEAD', 'origin/main'])).trim(),
+      passed,
+    };
+    appendConflictAnalytics([record]);
+  } catch (error) {
+    console.error(`[conflict-analytics] Could not record validation for ${streamId}: ${error}`);
+  }
+}
+
+/**
+ * Record a rollback_merge of the stream's last merge
+ */
+export function recordRollback(streamId: string, revertCommit: string): void {
+  const record: RollbackAnalyticsRecord = {
+    type: 'rollback',
+    timestamp: new Date().toISOString(),
+    streamId,
+    revertCommit,
+  };
+  appendConflictAnalytics([record]);
+}
+
+/**
+ * Main-side commits of the current merge, mapped to the stream that landed them
+ *
+ * Uses the complete_merge record of every other stream whose merge is not
+ * yet in this stream's HEAD. Keys are 8-character hashes, as in
+ * ConflictInfo.mainCommits.
+ */
+async function mapLandedCommits(git: SimpleGit, streamId: string): Promise<Map<string, string>> {
+  const landedBy = new Map<string, string>();
+
+  for (const stream of await listStreams()) {
+    if (stream.streamId === streamId || !stream.lastMerge) {
+      continue;
+    }
+
+    const { baseCommit, headCommit } = stream.lastMerge;
+    try {
+      // Already merged into this stream earlier - not part of this merge
+      if ((await git.raw(['merge-base', headCommit, 'HEAD'])).trim() === headCommit) {
+        continue;
+      }
+      const commits = (await git.raw(['rev-list', `${baseCommit}..${headCommit}`])).split('\n').filter(Boolean);
+      for (const commit of commits) {
+        landedBy.set(commit.slice(0, 8), stream.streamId);
+      }
+    } catch {
+      // Commits not in this clone (e.g. gc'd after a rollback)
+    }
+  }
+
+  return landedBy;
+}
+
+// ============================================================================
+// Summary
+// ============================================================================
+
+/**
+ * Aggregate the store for conflict_report
+ *
+ * A merge's outcome is its last validation result, or rolled-back when a
+ * rollback of the stream followed it before the stream's next merge.
+ *
+ * @param events - Store content (readConflictAnalytics)
+ * @param since - Only conflicts recorded after this date
+ */
+export function summarizeConflictAnalytics(events: ConflictAnalyticsEvent[], since?: Date): ConflictAnalyticsSummary {
+  const after = since?.toISOString() ?? '';
+  const conflicts = events.filter((e): e is ConflictAnalyticsRecord => e.type === 'conflict' && e.timestamp >= after);
+
+  // Merge start times per stream, to attribute rollbacks
+  const mergeKey = (e: { streamId: string; mainCommit: string }) => `${e.streamId}@${e.mainCommit}`;
+  const mergeStarts = new Map<string, { streamId: string; timestamp: string }>();
+  for (const e of events) {
+    if (e.type === 'conflict' && !mergeStarts.has(mergeKey(e))) {
+      mergeStarts.set(mergeKey(e), { streamId: e.streamId, timestamp: e.timestamp });
+    }
+  }
+
+  const outcomes = new Map<string, MergeOutcome>();
+  for (const e of events) {
+    if (e.type === 'validation' && mergeStarts.has(mergeKey(e))) {
+      outcomes.set(mergeKey(e), e.passed ? 'passed' : 'failed');
+    } else if (e.type === 'rollback') {
+      const rolledBack = [...mergeStarts.entries()]
+        .filter(([, merge]) => merge.streamId === e.streamId && merge.timestamp <= e.timestamp)
+        .sort(([, a], [, b]) => b.timestamp.localeCompare(a.timestamp))[0];
+      if (rolledBack) {
+        outcomes.set(rolledBack[0], 'rolled-back');
+      }
+    }
+  }
+
+  const hotspots = new Map<string, FileHotspot & { streamIds: Set<string> }>();
+  const collisions = new Map<string, StreamCollision & { fileSet: Set<string> }>();
+  const strategies = new Map<string, StrategySuccess>();
+
+  for (const c of conflicts) {
+    const hotspot = hotspots.get(c.file) ?? { file: c.file, conflicts: 0, streams: 0, lastSeen: '', streamIds: new Set() };
+    hotspot.conflicts++;
+    hotspot.streamIds.add(c.streamId);
+    hotspot.lastSeen = c.timestamp > hotspot.lastSeen ? c.timestamp : hotspot.lastSeen;
+    hotspots.set(c.file, hotspot);
+
+    for (const other of c.collidesWith) {
+      const pair = [c.streamId, other].sort() as [string, string];
+      const collision = collisions.get(pair.join(' ')) ?? { streams: pair, conflicts: 0, files: 0, fileSet: new Set() };
+      collision.conflicts++;
+      collision.fileSet.add(c.file);
+      collisions.set(pair.join(' '), collision);
+    }
+
+    const outcome = outcomes.get(mergeKey(c)) ?? 'unknown';
+    const strategy = strategies.get(c.strategy) ?? {
+      strategy: c.strategy,
+      conflicts: 0,
+      outcomes: { passed: 0, failed: 0, 'rolled-back': 0, unknown: 0 },
+      byMonth: [],
+    };
+    strategy.conflicts++;
+    strategy.outcomes[outcome]++;
+    if (outcome !== 'unknown') {
+      const month = c.timestamp.slice(0, 7);
+      let bucket = strategy.byMonth.find((b) => b.month === month);
+      if (!bucket) {
+        bucket = { month, passed: 0, decided: 0 };
+        strategy.byMonth.push(bucket);
+      }
+      bucket.decided++;
+      bucket.passed += outcome === 'passed' ? 1 : 0;
+    }
+    strategies.set(c.strategy, strategy);
+  }
+
+  return {
+    conflicts: conflicts.length,
+    merges: new Set(conflicts.map(mergeKey)).size,
+    hotspots: [...hotspots.values()]
+      .map(({ streamIds, ...hotspot }) => ({ ...hotspot, streams: streamIds.size }))
+      .sort((a, b) => b.conflicts - a.conflicts || b.lastSeen.localeCompare(a.lastSeen)),
+    collisions: [...collisions.values()]
+      .map(({ fileSet, ...collision }) => ({ ...collision, files: fileSet.size }))
+      .sort((a, b) => b.conflicts - a.conflicts),
+    strategies: [...strategies.values()]
+      .map((s) => ({ ...s, byMonth: s.byMonth.sort((a, b) => a.month.localeCompare(b.month)) }))
+      .sort((a, b) => b.conflicts - a.conflicts),
+  };
+}
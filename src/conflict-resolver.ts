@@ -6,24 +6,83 @@
  *
  * Workflow:
  * 1. MCP tool detects conflicts
- * 2. MCP tool extracts conflict context (ours, theirs, commit history)
+ * 2. MCP tool extracts conflict context (per-hunk base/ours/theirs, commit history)
  * 3. Returns context to Claude Code agent
  * 4. Agent resolves conflicts (it IS Claude)
  * 5. Agent writes resolved files directly
  */
 
-import { readFileSync } from 'node:fs';
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
 import { join, extname } from 'node:path';
 import { simpleGit } from 'simple-git';
 
-import type { ConflictType, GitCommit } from './types.js';
+import { config } from './config.js';
+import { describeBinary, formatBinarySide, isBinaryContent, isBinaryPath } from './utils/binary-info.js';
+import { scanConflictMarkers } from './utils/conflict-markers.js';
+import { loadConflictPrompt } from './utils/conflict-prompt.js';
+import { render, type TemplateObject, type TemplateVariables } from './utils/template-renderer.js';
+import type {
+  BinaryConflict,
+  ConflictAction,
+  ConflictHunk,
+  ConflictType,
+  ConflictVersions,
+  GitCommit,
+  HunkResolution,
+  UnmergedStatus,
+} from './types.js';
+
+/**
+ * Lines of unchanged text captured around each hunk
+ */
+const HUNK_CONTEXT_LINES = 3;
+
+/**
+ * Omitted hunks listed per file in the report index
+ */
+const HUNK_INDEX_LIMIT = 20;
+
+/**
+ * Files listed (one line each) once the response budget is spent
+ */
+const FILE_INDEX_LIMIT = 30;
+
+/**
+ * Stands in for oursContent/theirsContent/conflictContent when the file does not fit
+ */
+const FULL_CONTENT_OMITTED = '(not shown - see Conflicting Hunks above, or the file in the worktree)';
+
+/**
+ * What each unmerged status means in a stream worktree merge
+ */
+export const UNMERGED_STATUS_KINDS: Record<UnmergedStatus, string> = {
+  UU: 'both modified',
+  AA: 'both added',
+  DD: 'both deleted (renamed differently on each side)',
+  AU: 'added by stream (main has it elsewhere or not at all)',
+  UA: 'added by main (stream has it elsewhere or not at all)',
+  UD: 'modified by stream, deleted by main',
+  DU: 'deleted by stream, modified by main',
+};
+
+const OURS_PRESENT: UnmergedStatus[] = ['UU', 'AA', 'AU', 'UD'];
+const THEIRS_PRESENT: UnmergedStatus[] = ['UU', 'AA', 'UA', 'DU'];
 
 export interface ConflictInfo {
   file: string;
   conflictType: ConflictType;
+  status: UnmergedStatus;
+  renamedFrom: string | null; // Rename source when this path is one side's rename target
+  relatedPaths: string[]; // Other paths of the same rename conflict
+  actions: ConflictAction[];
   oursContent: string;
   theirsContent: string;
   conflictMarkers: string;
+  size: number; // Bytes in the worktree; above MAX_FILE_SIZE only the first hunk is reported
+  versions: ConflictVersions;
+  hunks: ConflictHunk[];
+  binary: BinaryConflict | null; // Set for binary files (FEATURES.binaryFileSupport) - no hunks
   mainCommits: GitCommit[];
   streamCommits: GitCommit[];
 }
@@ -38,28 +97,52 @@ export async function extractConflicts(
 ): Promise<ConflictInfo[]> {
   const results: ConflictInfo[] = [];
   const git = simpleGit(worktreePath);
+  const history = await resolveHistoryRange(git);
+  const statuses = await readUnmergedStatuses(git);
+  const renames = history ? await readMergeRenames(git, history.mergeBase, history.mainRef) : null;
 
   for (const file of conflictedFiles) {
     try {
+      const status = statuses.get(file) || 'UU';
+      const rename = renames ? describeRename(file, renames) : { renamedFrom: null, relatedPaths: [] };
+
+      // Binary files: metadata per side instead of text hunks
+      const binary = config.FEATURES.binaryFileSupport ? await readBinaryConflict(git, file) : null;
+
+      // Deleted on one side: no file (or no markers) in the worktree
       const filePath = join(worktreePath, file);
-      const conflictContent = readFileSync(filePath, 'utf-8');
+      const size = existsSync(filePath) ? statSync(filePath).size : 0;
+      const conflictContent = !binary && size > 0 ? readFileSync(filePath, 'utf-8') : '';
 
-      // Extract ours and theirs from conflict markers
-      const { ours, theirs } = parseConflictMarkers(conflictContent);
+      // Full file versions from the index stages
+      const versions = binary ? { base: null, ours: null, theirs: null } : await readConflictVersions(git, file);
 
-      // Get commit history for context
-      const mainCommits = await getRecentCommits(git, 'origin/main', file, 5);
-      const streamCommits = await getRecentCommits(git, 'HEAD', file, 5);
+      // Per-hunk ours/base/theirs; base comes from diff3 markers or the stage blobs
+      const hunks = parseConflictHunks(conflictContent);
+      if (hunks.some((hunk) => hunk.base === null)) {
+        await fillHunkBases(git, versions, hunks);
+      }
+
+      // Each side's commits since the merge base that touched this file
+      const mainCommits = history ? await getFileHistory(git, history.mergeBase, history.mainRef, file) : [];
+      const streamCommits = history ? await getFileHistory(git, history.mergeBase, 'HEAD', file) : [];
 
       // Detect conflict type
-      const conflictType = detectConflictType(file);
+      const conflictType = binary ? 'binary' : detectConflictType(file);
 
       results.push({
         file,
         conflictType,
-        oursContent: ours,
-        theirsContent: theirs,
+        status,
+        ...rename,
+        actions: availableActions(rename.renamedFrom),
+        oursContent: hunks.map((hunk) => hunk.ours).join('\n'),
+        theirsContent: hunks.map((hunk) => hunk.theirs).join('\n'),
         conflictMarkers: conflictContent,
+        size,
+        versions,
+        hunks,
+        binary,
         mainCommits,
         streamCommits,
       });
@@ -71,57 +154,428 @@ export async function extractConflicts(
   return results;
 }
 
-function parseConflictMarkers(content: string): { ours: string; theirs: string } {
-  const lines = content.split('\n');
-  let ours = '';
-  let theirs = '';
-  let inOurs = false;
-  let inTheirs = false;
-
-  for (const line of lines) {
-    if (line.startsWith('<<<<<<<')) {
-      inOurs = true;
+/**
+ * Unmerged status code for every conflicted path
+ *
+ * @param git - SimpleGit instance in the worktree
+ * @returns path → XY code from `git status --porcelain`
+ */
+export async function readUnmergedStatuses(git: ReturnType<typeof simpleGit>): Promise<Map<string, UnmergedStatus>> {
+  const statuses = new Map<string, UnmergedStatus>();
+  const entries = (await git.raw(['status', '--porcelain=v1', '-z', '--untracked-files=no'])).split('\0');
+
+  for (let i = 0; i < entries.length; i++) {
+    const code = entries[i].slice(0, 2);
+    if (code[0] === 'R' || code[0] === 'C') {
+      i++; // Rename/copy entries are followed by the source path
       continue;
     }
-    if (line.startsWith('=======')) {
-      inOurs = false;
-      inTheirs = true;
+    if (code in UNMERGED_STATUS_KINDS) {
+      statuses.set(entries[i].slice(3), code as UnmergedStatus);
+    }
+  }
+
+  return statuses;
+}
+
+/**
+ * Renames each side made since the merge base (source → target)
+ */
+export async function readMergeRenames(
+  git: ReturnType<typeof simpleGit>,
+  mergeBase: string,
+  mainRef: string
+): Promise<{ ours: Map<string, string>; theirs: Map<string, string> }> {
+  const read = async (ref: string) => {
+    const renames = new Map<string, string>();
+    const fields = (await git.raw(['diff', '-M', '--name-status', '-z', '--diff-filter=R', mergeBase, ref])).split('\0');
+    for (let i = 0; i + 2 < fields.length; i += 3) {
+      renames.set(fields[i + 1], fields[i + 2]);
+    }
+    return renames;
+  };
+
+  return { ours: await read('HEAD'), theirs: await read(mainRef) };
+}
+
+/**
+ * Rename source and sibling paths for a conflicted path
+ */
+function describeRename(
+  file: string,
+  renames: { ours: Map<string, string>; theirs: Map<string, string> }
+): { renamedFrom: string | null; relatedPaths: string[] } {
+  for (const map of [renames.ours, renames.theirs]) {
+    for (const [source, target] of map) {
+      if (target === file) {
+        const other = (map === renames.ours ? renames.theirs : renames.ours).get(source);
+        return { renamedFrom: source, relatedPaths: [source, ...(other && other !== file ? [other] : [])] };
+      }
+    }
+  }
+
+  // A rename source itself (DD after rename/rename)
+  const targets = [renames.ours.get(file), renames.theirs.get(file)].filter((t): t is string => !!t);
+  return { renamedFrom: null, relatedPaths: [...new Set(targets)] };
+}
+
+function availableActions(renamedFrom: string | null): ConflictAction[] {
+  return renamedFrom ? ['keep-ours', 'keep-theirs', 'keep-rename-target'] : ['keep-ours', 'keep-theirs'];
+}
+
+/**
+ * What an action does to a path with the given status
+ */
+export function describeConflictAction(status: UnmergedStatus, action: ConflictAction): string {
+  switch (action) {
+    case 'keep-ours':
+      return OURS_PRESENT.includes(status) ? 'keep the stream version' : 'delete the file (stream deleted it)';
+    case 'keep-theirs':
+      return THEIRS_PRESENT.includes(status) ? 'keep the main version' : 'delete the file (main deleted it)';
+    case 'keep-rename-target':
+      return 'keep this path and drop the other names of the rename';
+  }
+}
+
+/**
+ * Whether the stream (ours) or main (theirs) has the path in the index
+ */
+export function hasSide(status: UnmergedStatus, side: 'ours' | 'theirs'): boolean {
+  return (side === 'ours' ? OURS_PRESENT : THEIRS_PRESENT).includes(status);
+}
+
+/**
+ * Check out one side's version of a conflicted path and stage it
+ */
+export async function keepConflictSide(
+  git: ReturnType<typeof simpleGit>,
+  file: string,
+  side: 'ours' | 'theirs'
+): Promise<void> {
+  await git.raw(['checkout', `--${side}`, '--', file]);
+  await git.add(file);
+}
+
+/**
+ * Split a conflicted file into hunks
+ *
+ * Understands both marker styles:
+ *   merge: <<<<<<< ours ======= theirs >>>>>>>
+ *   diff3: <<<<<<< ours ||||||| base ======= theirs >>>>>>>
+ * Without a ||||||| section the hunk's base is null.
+ *
+ * @param content - File content with conflict markers
+ * @param contextLines - Unchanged lines to capture before/after each hunk
+ * @returns Hunks in file order, with 1-based marker line numbers
+ */
+export function parseConflictHunks(content: string, contextLines: number = HUNK_CONTEXT_LINES): ConflictHunk[] {
+  const lines = content.split('\n');
+  const hunks: ConflictHunk[] = [];
+
+  let section: 'ours' | 'base' | 'theirs' | null = null;
+  let current: { startLine: number; ours: string[]; base: string[] | null; theirs: string[] } | null = null;
+  let lastEnd = 0; // Index after the previous hunk's closing marker
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (isMarker(line, '<')) {
+      current = { startLine: i + 1, ours: [], base: null, theirs: [] };
+      section = 'ours';
       continue;
     }
-    if (line.startsWith('>>>>>>>')) {
-      inTheirs = false;
+    if (!current) {
       continue;
     }
 
-    if (inOurs) {
-      ours += line + '\n';
-    } else if (inTheirs) {
-      theirs += line + '\n';
+    if (section === 'ours' && isMarker(line, '|')) {
+      current.base = [];
+      section = 'base';
+    } else if (section !== 'theirs' && isMarker(line, '=')) {
+      section = 'theirs';
+    } else if (section === 'theirs' && isMarker(line, '>')) {
+      const before = lines.slice(Math.max(lastEnd, current.startLine - 1 - contextLines), current.startLine - 1);
+      const afterEnd = lines.findIndex((l, j) => j > i && isMarker(l, '<'));
+      const after = lines.slice(i + 1, Math.min(afterEnd === -1 ? lines.length : afterEnd, i + 1 + contextLines));
+
+      hunks.push({
+        index: hunks.length,
+        startLine: current.startLine,
+        endLine: i + 1,
+        ours: current.ours.join('\n'),
+        base: current.base === null ? null : current.base.join('\n'),
+        theirs: current.theirs.join('\n'),
+        contextBefore: before.join('\n'),
+        contextAfter: after.join('\n'),
+      });
+
+      lastEnd = i + 1;
+      current = null;
+      section = null;
+    } else if (section) {
+      (section === 'base' ? current.base! : current[section]).push(line);
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Replace one hunk (markers included) with its resolution
+ *
+ * @param content - File content with conflict markers
+ * @param index - 0-based hunk index
+ * @param resolution - Which side(s) to keep, or custom
+ * @param customText - Replacement for 'custom' ('' removes the hunk)
+ * @returns The new file content
+ */
+export function resolveHunk(
+  content: string,
+  index: number,
+  resolution: HunkResolution,
+  customText?: string
+): string {
+  const hunk = parseConflictHunks(content, 0)[index];
+  if (!hunk) {
+    throw new Error(`No hunk ${index + 1} in file`);
+  }
+
+  // Split the hunk body into sides line by line (an empty side has no lines)
+  const lines = content.split('\n');
+  const sides: { ours: string[]; theirs: string[] } = { ours: [], theirs: [] };
+  let section: 'ours' | 'base' | 'theirs' = 'ours';
+  for (const line of lines.slice(hunk.startLine, hunk.endLine - 1)) {
+    if (section === 'ours' && isMarker(line, '|')) {
+      section = 'base';
+    } else if (section !== 'theirs' && isMarker(line, '=')) {
+      section = 'theirs';
+    } else if (section !== 'base') {
+      sides[section].push(line);
+    }
+  }
+
+  let replacement: string[];
+  switch (resolution) {
+    case 'ours':
+      replacement = sides.ours;
+      break;
+    case 'theirs':
+      replacement = sides.theirs;
+      break;
+    case 'both-ours-first':
+      replacement = [...sides.ours, ...sides.theirs];
+      break;
+    case 'both-theirs-first':
+      replacement = [...sides.theirs, ...sides.ours];
+      break;
+    case 'custom': {
+      if (customText === undefined) {
+        throw new Error('custom resolution requires content');
+      }
+      replacement = customText === '' ? [] : customText.replace(/\r?\n$/, '').split('\n');
+      const markers = scanConflictMarkers(replacement.join('\n'), '');
+      if (markers.length > 0) {
+        throw new Error(`custom content contains conflict markers (line ${markers.map((m) => m.line).join(', ')})`);
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unknown resolution "${resolution}"`);
+  }
+
+  return [...lines.slice(0, hunk.startLine - 1), ...replacement, ...lines.slice(hunk.endLine)].join('\n');
+}
+
+function isMarker(line: string, char: '<' | '|' | '=' | '>'): boolean {
+  const marker = char.repeat(7);
+  return char === '=' ? line.trimEnd() === marker : line === marker || line.startsWith(marker + ' ');
+}
+
+/**
+ * Fill in hunk bases from the index stage blobs
+ *
+ * Used when the file has plain merge-style markers. The stage blobs are
+ * re-merged with diff3 markers; bases are only taken when both runs
+ * produce the same hunks, otherwise they stay null.
+ */
+async function fillHunkBases(
+  git: ReturnType<typeof simpleGit>,
+  versions: ConflictVersions,
+  hunks: ConflictHunk[]
+): Promise<void> {
+  if (versions.ours === null || versions.theirs === null) {
+    return;
+  }
+
+  const dir = mkdtempSync(join(tmpdir(), 'stream-conflict-'));
+  try {
+    const paths = { ours: join(dir, 'ours'), base: join(dir, 'base'), theirs: join(dir, 'theirs') };
+    writeFileSync(paths.ours, versions.ours);
+    writeFileSync(paths.base, versions.base ?? ''); // add/add: empty ancestor
+    writeFileSync(paths.theirs, versions.theirs);
+
+    // Exit code is the number of conflicts, so check the output instead
+    const merged = await git.raw(['merge-file', '-p', '--diff3', paths.ours, paths.base, paths.theirs]);
+    const diff3Hunks = parseConflictHunks(merged);
+    if (diff3Hunks.length !== hunks.length) {
+      return;
+    }
+
+    hunks.forEach((hunk, i) => {
+      const match = diff3Hunks[i];
+      if (hunk.base === null && match.ours.includes(hunk.ours) && match.theirs.includes(hunk.theirs)) {
+        hunk.base = match.base;
+      }
+    });
+  } catch (error) {
+    console.error(`[conflict-resolver] Could not recover merge base hunks: ${error}`);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Hunks of one conflicted file as it is now in the worktree, with the merge
+ * base filled in from the index where the markers lack it
+ *
+ * @param worktreePath - Absolute worktree path
+ * @param file - Conflicted path relative to the worktree
+ * @param contextLines - Unchanged lines captured around each hunk
+ */
+export async function readConflictHunks(
+  worktreePath: string,
+  file: string,
+  contextLines: number = HUNK_CONTEXT_LINES
+): Promise<ConflictHunk[]> {
+  const filePath = join(worktreePath, file);
+  const hunks = parseConflictHunks(existsSync(filePath) ? readFileSync(filePath, 'utf-8') : '', contextLines);
+  if (hunks.some((hunk) => hunk.base === null)) {
+    const git = simpleGit(worktreePath);
+    await fillHunkBases(git, await readConflictVersions(git, file), hunks);
+  }
+  return hunks;
+}
+
+/**
+ * Read the base/ours/theirs blobs git keeps in the index for a conflicted path
+ * Stages: 1 = merge base, 2 = HEAD (stream), 3 = merged ref (origin/main)
+ */
+async function readConflictVersions(
+  git: ReturnType<typeof simpleGit>,
+  file: string
+): Promise<ConflictVersions> {
+  const readStage = async (stage: number): Promise<string | null> => {
+    try {
+      return await git.show([`:${stage}:${file}`]);
+    } catch {
+      return null; // Side added or deleted the file
     }
+  };
+
+  return {
+    base: await readStage(1),
+    ours: await readStage(2),
+    theirs: await readStage(3),
+  };
+}
+
+/**
+ * Size, hash and image metadata for each stage of a binary conflict
+ *
+ * @returns null when the path is not binary (by extension or a NUL byte in
+ * any stage's content)
+ */
+async function readBinaryConflict(
+  git: ReturnType<typeof simpleGit>,
+  file: string
+): Promise<BinaryConflict | null> {
+  const stages = await Promise.all([1, 2, 3].map((stage) => readStageBlob(git, file, stage)));
+  const binary = isBinaryPath(file) || stages.some((blob) => blob !== null && isBinaryContent(blob));
+  if (!binary) {
+    return null;
   }
 
-  return { ours: ours.trimEnd(), theirs: theirs.trimEnd() };
+  const [base, ours, theirs] = stages.map((blob) => (blob === null ? null : describeBinary(file, blob)));
+  return { base, ours, theirs };
 }
 
-async function getRecentCommits(
+/**
+ * Raw blob content at an index stage, null if that side has no such file
+ */
+export async function readStageBlob(
   git: ReturnType<typeof simpleGit>,
-  _ref: string,
   file: string,
-  count: number
+  stage: number
+): Promise<Buffer | null> {
+  try {
+    return await git.binaryCatFile(['blob', `:${stage}:${file}`]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Merge base and main ref for per-side history
+ * During a merge MERGE_HEAD is exactly what is being merged; otherwise origin/main.
+ */
+async function resolveHistoryRange(
+  git: ReturnType<typeof simpleGit>
+): Promise<{ mergeBase: string; mainRef: string } | null> {
+  try {
+    const mergeHead = (await git.raw(['rev-parse', '--verify', '--quiet', 'MERGE_HEAD'])).trim();
+    const mainRef = mergeHead ? 'MERGE_HEAD' : 'origin/main';
+    const mergeBase = (await git.raw(['merge-base', 'HEAD', mainRef])).trim();
+    return mergeBase ? { mergeBase, mainRef } : null;
+  } catch (error) {
+    console.error(`[conflict-resolver] Could not find merge base - commit history omitted: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Commits in mergeBase..ref that touched a file, newest first
+ *
+ * Each commit carries its full message and its diff of the file. Diffs share
+ * CONFLICT_HISTORY_DIFF_BUDGET characters per side; once it is spent the
+ * remaining commits are listed without a diff.
+ */
+async function getFileHistory(
+  git: ReturnType<typeof simpleGit>,
+  mergeBase: string,
+  ref: string,
+  file: string
 ): Promise<GitCommit[]> {
   try {
     const log = await git.log({
-      maxCount: count,
+      from: mergeBase,
+      to: ref,
+      symmetric: false,
       file,
+      maxCount: config.CONFLICT_HISTORY_MAX_COMMITS,
     });
 
-    return log.all.map((commit) => ({
-      hash: commit.hash.slice(0, 8),
-      message: commit.message,
-      author: commit.author_name,
-      date: new Date(commit.date),
-      files: [],
-    }));
+    let budget = config.CONFLICT_HISTORY_DIFF_BUDGET;
+    const commits: GitCommit[] = [];
+
+    for (const commit of log.all) {
+      let diff: string | undefined;
+      if (budget > 0) {
+        const fullDiff = (await git.show(['--format=', '--no-color', commit.hash, '--', file])).trim();
+        diff = fullDiff.length > budget ? `${fullDiff.slice(0, budget)}\n... (diff truncated)` : fullDiff;
+        budget -= fullDiff.length;
+      }
+
+      commits.push({
+        hash: commit.hash.slice(0, 8),
+        message: commit.body.trim() ? `${commit.message}\n\n${commit.body.trim()}` : commit.message,
+        author: commit.author_name,
+        date: new Date(commit.date),
+        files: [file],
+        diff,
+      });
+    }
+
+    return commits;
   } catch {
     return [];
   }
@@ -136,57 +590,297 @@ function detectConflictType(file: string): ConflictType {
   if (['.ts', '.tsx', '.js', '.jsx', '.mts', '.mjs'].includes(ext)) return 'code';
   if (['.json', '.yaml', '.yml', '.toml', '.env'].includes(ext)) return 'config';
   if (['.md', '.mdx', '.txt', '.rst'].includes(ext)) return 'docs';
-  if (['.png', '.jpg', '.gif', '.pdf', '.zip'].includes(ext)) return 'binary';
+  if (isBinaryPath(file)) return 'binary';
 
   return 'unknown';
 }
 
 /**
  * Format conflicts for agent consumption
+ *
+ * Each file is rendered through the conflict prompt template
+ * (prompts/conflict-resolution.txt or the project's CONFLICT_PROMPT_PATH);
+ * the rules and examples are included once, with the first file.
+ *
+ * The report stays within CONFLICT_RESPONSE_BUDGET characters: hunks and
+ * history are added while they fit, everything else is listed in a hunk
+ * index the agent pages through with get_conflict_hunk. Once the budget is
+ * spent, the remaining files get one line each (up to FILE_INDEX_LIMIT).
+ * Files above MAX_FILE_SIZE show only their first hunk.
+ *
+ * @param streamPurpose - From the stream's HANDOFF.md (readStreamPurpose)
+ * @param budget - Characters available, when other output shares the response
  */
-export function formatConflictsForAgent(conflicts: ConflictInfo[], streamId: string): string {
+export function formatConflictsForAgent(
+  conflicts: ConflictInfo[],
+  streamId: string,
+  streamPurpose: string | null = null,
+  budget = config.CONFLICT_RESPONSE_BUDGET
+): string {
   if (conflicts.length === 0) {
     return 'No conflicts detected. Merge was clean.';
   }
 
+  const template = loadConflictPrompt().content;
+
   let output = `CONFLICTS DETECTED: ${conflicts.length} file(s)\n\n`;
   output += `Stream: ${streamId}\n`;
   output += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
 
-  for (const conflict of conflicts) {
-    output += `FILE: ${conflict.file}\n`;
-    output += `Type: ${conflict.conflictType}\n\n`;
-
-    output += `MAIN VERSION (ours):\n`;
-    output += '```\n' + conflict.oursContent + '\n```\n\n';
+  const limit = budget;
+  let truncated = false;
+  let rendered = 0;
 
-    output += `STREAM VERSION (theirs):\n`;
-    output += '```\n' + conflict.theirsContent + '\n```\n\n';
-
-    if (conflict.mainCommits.length > 0) {
-      output += `Main commits:\n`;
-      for (const c of conflict.mainCommits) {
-        output += `  - ${c.hash} ${c.message}\n`;
-      }
-      output += '\n';
+  for (const [i, conflict] of conflicts.entries()) {
+    if (budget <= 0) {
+      break;
     }
+    const prompt = renderConflictPrompt(template, conflict, {
+      streamId,
+      streamPurpose,
+      available: budget,
+      guidance: i === 0,
+    });
+    const section = `${prompt.text.trimEnd()}\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
 
-    if (conflict.streamCommits.length > 0) {
-      output += `Stream commits:\n`;
-      for (const c of conflict.streamCommits) {
-        output += `  - ${c.hash} ${c.message}\n`;
-      }
-      output += '\n';
+    // The first file is always shown; later ones only when they fit
+    if (i > 0 && section.length > budget) {
+      break;
     }
+    output += section;
+    budget -= section.length;
+    truncated = truncated || prompt.omitted;
+    rendered++;
+  }
 
-    output += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+  if (rendered < conflicts.length) {
+    output += formatFileIndex(conflicts.slice(rendered), streamId);
+    truncated = true;
+  }
+
+  if (truncated) {
+    output += `Report limited to ${limit} characters - fetch omitted hunks with get_conflict_hunk.\n\n`;
   }
 
   output += `TO RESOLVE:\n`;
-  output += `1. Analyze both versions and commit context\n`;
-  output += `2. Write resolved content to each file\n`;
-  output += `3. Stage files: git add <file>\n`;
+  output += `1. For each hunk, compare STREAM and MAIN against BASE to see what each side changed\n`;
+  output += `2. Resolve each hunk: resolve_conflict({ streamId, file, hunk, resolution })\n`;
+  output += `   resolution: ours | theirs | both-ours-first | both-theirs-first | custom (with content)\n`;
+  output += `3. The file is staged after its last hunk (hunks after the resolved one move up by one)\n`;
+  output += `   Whole-file choices (and delete/rename conflicts): apply_conflict_action({ streamId, file, action })\n`;
+  if (conflicts.some((conflict) => conflict.binary)) {
+    output += `   Binary files: resolve_binary_conflict({ streamId, file, choice: 'ours' | 'theirs' | 'both-renamed' })\n`;
+  }
   output += `4. The prepare_merge tool will commit once all conflicts are resolved\n`;
 
   return output;
 }
+
+/**
+ * One line per file left out of the report
+ */
+function formatFileIndex(conflicts: ConflictInfo[], streamId: string): string {
+  let text = `${conflicts.length} more file(s) not shown (response budget reached):\n`;
+  for (const conflict of conflicts.slice(0, FILE_INDEX_LIMIT)) {
+    const detail = conflict.binary ? 'binary' : `${conflict.hunks.length} hunk(s)`;
+    text += `  - ${conflict.file} (${conflict.status}, ${detail})\n`;
+  }
+  if (conflicts.length > FILE_INDEX_LIMIT) {
+    text += `  ... and ${conflicts.length - FILE_INDEX_LIMIT} more files\n`;
+  }
+  text += `Fetch hunks with get_conflict_hunk({ streamId: "${streamId}", file, hunk: N })\n\n`;
+  return text;
+}
+
+/**
+ * Render the conflict prompt template for one file within `available` characters
+ *
+ * Hunks are added while they fit (the rest are indexed for get_conflict_hunk);
+ * commit history is dropped when it does not fit. The whole-file contents
+ * (oursContent, theirsContent, conflictContent) come last and are replaced by
+ * FULL_CONTENT_OMITTED unless they fit as well.
+ *
+ * @param template - Prompt template content (loadConflictPrompt)
+ * @param conflict - Conflict from extractConflicts
+ * @param options.guidance - Render the {{#guidance}} block (rules and examples)
+ * @returns Rendered prompt, and whether hunks or history were left out
+ */
+export function renderConflictPrompt(
+  template: string,
+  conflict: ConflictInfo,
+  options: { streamId: string; streamPurpose: string | null; available: number; guidance: boolean }
+): { text: string; omitted: boolean } {
+  const { streamId, available } = options;
+  const variables: TemplateVariables = {
+    streamId,
+    streamPurpose: options.streamPurpose ?? 'Not recorded (no HANDOFF.md in the worktree)',
+    filePath: conflict.file,
+    fileExtension: extname(conflict.file).slice(1),
+    conflictType: conflict.conflictType,
+    conflictStatus: `${conflict.status} - ${UNMERGED_STATUS_KINDS[conflict.status]}`,
+    renamedFrom: conflict.renamedFrom,
+    relatedPaths: conflict.relatedPaths.join(', '),
+    actions: conflict.actions.map((action) => ({
+      action,
+      description: describeConflictAction(conflict.status, action),
+    })),
+    guidance: options.guidance,
+    hunks: '',
+    mainCommits: [],
+    streamCommits: [],
+    historyOmitted: false,
+    oursContent: FULL_CONTENT_OMITTED,
+    theirsContent: FULL_CONTENT_OMITTED,
+    conflictContent: FULL_CONTENT_OMITTED,
+  };
+
+  let omitted = false;
+  if (conflict.binary) {
+    variables.hunks = formatBinaryConflict(conflict.binary);
+  } else {
+    // Hunks get what the rest of the prompt leaves
+    const hunks = formatHunks(conflict, streamId, available - render(template, variables).length);
+    variables.hunks = hunks.text;
+    omitted = hunks.omitted;
+  }
+
+  variables.mainCommits = conflict.mainCommits.map(commitVariables);
+  variables.streamCommits = conflict.streamCommits.map(commitVariables);
+  let text = render(template, variables);
+  if (text.length > available && conflict.mainCommits.length + conflict.streamCommits.length > 0) {
+    variables.mainCommits = [];
+    variables.streamCommits = [];
+    variables.historyOmitted = true;
+    text = render(template, variables);
+    omitted = true;
+  }
+
+  if (!conflict.binary && !omitted) {
+    const full = render(template, {
+      ...variables,
+      oursContent: conflict.oursContent,
+      theirsContent: conflict.theirsContent,
+      conflictContent: conflict.conflictMarkers,
+    });
+    if (full.length <= available) {
+      text = full;
+    }
+  }
+
+  return { text, omitted };
+}
+
+/**
+ * Hunks of one file within the remaining budget, then an index of the rest
+ */
+function formatHunks(
+  conflict: ConflictInfo,
+  streamId: string,
+  available: number
+): { text: string; omitted: boolean } {
+  const total = conflict.hunks.length;
+  const large = conflict.size > config.MAX_FILE_SIZE;
+
+  let text = `Hunks: ${total}\n`;
+  if (large) {
+    text += `Large file (${Math.round(conflict.size / 1024)} KB > ${Math.round(config.MAX_FILE_SIZE / 1024)} KB): ` +
+      'only the first hunk is shown\n';
+  }
+  text += '\n';
+
+  let shown = 0;
+  for (const hunk of conflict.hunks) {
+    const formatted = formatHunk(hunk, total, config.CONFLICT_HUNK_MAX_CHARS);
+    if ((large && shown > 0) || formatted.length > available - text.length) {
+      break;
+    }
+    text += formatted;
+    shown++;
+  }
+
+  const rest = conflict.hunks.slice(shown);
+  if (rest.length === 0) {
+    return { text, omitted: false };
+  }
+
+  text += `${rest.length} more hunk(s) - get_conflict_hunk({ streamId: "${streamId}", file: "${conflict.file}", hunk: N }):\n`;
+  for (const hunk of rest.slice(0, HUNK_INDEX_LIMIT)) {
+    text += `  - HUNK ${hunk.index + 1}/${total} (lines ${hunk.startLine}-${hunk.endLine})\n`;
+  }
+  if (rest.length > HUNK_INDEX_LIMIT) {
+    text += `  ... and ${rest.length - HUNK_INDEX_LIMIT} more\n`;
+  }
+
+  return { text: text + '\n', omitted: true };
+}
+
+/**
+ * Format one hunk; each side is cut at a line boundary to share maxChars
+ */
+export function formatHunk(hunk: ConflictHunk, total: number, maxChars: number = Infinity): string {
+  const limit = Math.floor(maxChars / 5); // ours, base, theirs + context before/after
+  let output = `HUNK ${hunk.index + 1}/${total} (lines ${hunk.startLine}-${hunk.endLine}):\n`;
+
+  if (hunk.contextBefore) {
+    output += 'Context before:\n```\n' + clip(hunk.contextBefore, limit) + '\n```\n';
+  }
+
+  output += 'STREAM VERSION (ours):\n```\n' + clip(hunk.ours, limit) + '\n```\n';
+  output += hunk.base === null
+    ? 'BASE (common ancestor): not available\n'
+    : 'BASE (common ancestor):\n```\n' + clip(hunk.base, limit) + '\n```\n';
+  output += 'MAIN VERSION (theirs):\n```\n' + clip(hunk.theirs, limit) + '\n```\n';
+
+  if (hunk.contextAfter) {
+    output += 'Context after:\n```\n' + clip(hunk.contextAfter, limit) + '\n```\n';
+  }
+
+  return output + '\n';
+}
+
+function clip(text: string, limit: number): string {
+  if (text.length <= limit) {
+    return text;
+  }
+
+  const cut = text.slice(0, limit);
+  const lineEnd = cut.lastIndexOf('\n');
+  const kept = lineEnd > 0 ? cut.slice(0, lineEnd) : cut;
+  const omittedLines = text.split('\n').length - kept.split('\n').length;
+  return `${kept}\n... (truncated${omittedLines > 0 ? `, ${omittedLines} more line(s)` : ''} - see the worktree file)`;
+}
+
+function formatBinaryConflict(binary: BinaryConflict): string {
+  let output = 'Binary file - no text hunks:\n';
+  output += `  STREAM (ours):   ${formatBinarySide(binary.ours)}\n`;
+  output += `  BASE:            ${formatBinarySide(binary.base)}\n`;
+  output += `  MAIN (theirs):   ${formatBinarySide(binary.theirs)}\n`;
+  if (binary.ours && binary.theirs && binary.ours.sha256 === binary.theirs.sha256) {
+    output += '  Both sides are identical - either choice is safe\n';
+  }
+  return output + '\n';
+}
+
+/**
+ * {{#mainCommits}} / {{#streamCommits}} item: subject line, plus the message
+ * body and diff as pre-formatted details
+ */
+function commitVariables(commit: GitCommit): TemplateObject {
+  const [subject, ...body] = commit.message.split('\n');
+
+  let details = '';
+  for (const line of body.join('\n').trim().split('\n').filter(Boolean)) {
+    details += `      ${line}\n`;
+  }
+  if (commit.diff) {
+    details += '```diff\n' + commit.diff + '\n```\n';
+  }
+
+  return {
+    hash: commit.hash,
+    message: subject,
+    author: commit.author,
+    date: commit.date.toISOString().slice(0, 10),
+    details,
+  };
+}
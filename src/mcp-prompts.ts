@@ -0,0 +1,94 @@
+/**
+ * MCP Prompts
+ *
+ * Served through prompts/list and prompts/get:
+ * - conflict_resolution: the conflict prompt template (prompts/conflict-resolution.txt
+ *   or the project's CONFLICT_PROMPT_PATH) rendered for one conflicted file of a
+ *   paused merge - the same section prepare_merge reports, always with the rules
+ *   and examples.
+ *
+ * @module mcp-prompts
+ */
+
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { simpleGit } from 'simple-git';
+import { ErrorCode, McpError, type GetPromptResult, type Prompt } from '@modelcontextprotocol/sdk/types.js';
+
+import { config } from './config.js';
+import { extractConflicts, readUnmergedStatuses, renderConflictPrompt } from './conflict-resolver.js';
+import { loadConflictPrompt } from './utils/conflict-prompt.js';
+import { readStreamPurpose, resolveStreamLocation } from './utils/stream-metadata.js';
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: 'conflict_resolution',
+    description:
+      'Resolution prompt for one conflicted file of a paused prepare_merge: stream purpose (HANDOFF.md), ' +
+      'hunks with stream/base/main versions, each side\'s commits, and resolution rules.',
+    arguments: [
+      {
+        name: 'file',
+        description: 'Conflicted file path (relative to the worktree root)',
+        required: true,
+      },
+      {
+        name: 'streamId',
+        description: 'Stream ID (optional - inferred from the current worktree)',
+        required: false,
+      },
+    ],
+  },
+];
+
+/**
+ * Render a prompt for prompts/get
+ *
+ * @param name - Prompt name from PROMPTS
+ * @param args - Prompt arguments (all strings)
+ * @throws McpError (InvalidParams) for unknown prompts or missing arguments
+ */
+export async function getPrompt(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+  if (name !== 'conflict_resolution') {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  if (!args.file) {
+    throw new McpError(ErrorCode.InvalidParams, 'conflict_resolution requires a file argument');
+  }
+
+  const { file } = args;
+  const { streamId, worktreePath } = await resolveStreamLocation(args.streamId);
+  if (!existsSync(join(worktreePath, '.git'))) {
+    throw new Error(`Worktree not found: ${worktreePath}`);
+  }
+
+  const statuses = await readUnmergedStatuses(simpleGit(worktreePath));
+  if (!statuses.has(file)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${file} is not in conflict. Conflicted files: ${[...statuses.keys()].join(', ') || '(none)'}`
+    );
+  }
+
+  const [conflict] = await extractConflicts(worktreePath, [file], streamId);
+  if (!conflict) {
+    throw new Error(`Could not read the conflict in ${file}`);
+  }
+
+  const prompt = renderConflictPrompt(loadConflictPrompt().content, conflict, {
+    streamId,
+    streamPurpose: readStreamPurpose(worktreePath),
+    available: config.CONFLICT_RESPONSE_BUDGET,
+    guidance: true,
+  });
+
+  return {
+    description: `Resolve the merge conflict in ${file} (${streamId})`,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: prompt.text },
+      },
+    ],
+  };
+}
@@ -8,9 +8,24 @@
  * - start_stream: Initialize new development stream [Step A]
  * - verify_location: Enforce worktree-only development
  * - check_lock_status: Check active merge locks (debugging)
+ * - list_streams: List registered streams with filtering/sorting
+ * - get_stream_info: Registry + METADATA.json + live git state for one stream
+ * - validate_stream: Health check (worktree, branch, METADATA.json, conflicts, divergence, hooks)
+ * - update_stream_status: Validated lifecycle transitions (registry + worktree docs)
+ * - start_phase / complete_phase: Phase tracking in METADATA.json + STATUS.md
  * - prepare_merge: Merge main into worktree + AI conflict resolution [Steps B,C,D,E,F]
+ * - get_conflict_hunk: Page through hunks omitted from the prepare_merge conflict report
+ * - resolve_conflict: Resolve one conflict hunk in place (ours/theirs/both/custom)
+ * - apply_conflict_action: Whole-file resolution (keep-ours/keep-theirs/keep-rename-target) of one conflict
+ * - resolve_binary_conflict: Pick ours/theirs/both-renamed for a conflicted binary file
  * - complete_merge: Fast-forward main from worktree with distributed lock [Steps G,H,I]
  * - complete_stream: Archive and cleanup [Steps J,K,L]
+ * - rollback_merge: Revert a stream's merge on main under the merge lock
+ * - sync_dashboard: Reconcile registry, worktrees, branches and active context
+ * - conflict_report: Conflict hotspots, colliding streams and strategy success rates
+ *
+ * Prompts (prompts/list, prompts/get):
+ * - conflict_resolution: Conflict prompt template rendered for one conflicted file
  *
  * Lock mechanism: Uses git branches (refs/locks/merge-in-progress) for distributed locking
  * that works across multiple machines/agents, preventing concurrent merges to main.
@@ -20,22 +35,57 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
   ListToolsRequestSchema,
   type Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { config, validateConfig, getDeveloperModeSource, getScreenshotConfigSource } from './config.js';
-import type { MCPResponse, ResponseMetadata, NoteToAgent } from './types.js';
+import type {
+  MCPResponse,
+  ResponseMetadata,
+  NoteToAgent,
+  ListStreamsArgs,
+  GetStreamInfoArgs,
+  UpdateStreamStatusArgs,
+  StartPhaseArgs,
+  CompletePhaseArgs,
+  RollbackMergeArgs,
+  SyncDashboardArgs,
+  ValidateStreamArgs,
+  GetConflictHunkArgs,
+  ResolveConflictArgs,
+  ApplyConflictActionArgs,
+  ResolveBinaryConflictArgs,
+  ConflictReportArgs,
+} from './types.js';
 
 // Tool implementations
 import { startStream } from './tools/start-stream.js';
 import { verifyLocation } from './tools/verify-location.js';
 import { prepareMerge } from './tools/prepare-merge.js';
+import { getConflictHunk } from './tools/get-conflict-hunk.js';
+import { resolveConflict } from './tools/resolve-conflict.js';
+import { applyConflictAction } from './tools/apply-conflict-action.js';
+import { resolveBinaryConflict } from './tools/resolve-binary-conflict.js';
 import { completeMerge } from './tools/complete-merge.js';
 import { completeStream } from './tools/complete-stream.js';
+import { rollbackMerge } from './tools/rollback-merge.js';
+import { syncDashboard } from './tools/sync-dashboard.js';
+import { conflictReport } from './tools/conflict-report.js';
 import { checkLockStatus } from './tools/check-lock-status.js';
 import { getVersion } from './tools/get-version.js';
 import { getActiveContext } from './tools/get-active-context.js';
+import { listStreams } from './tools/list-streams.js';
+import { getStreamInfo } from './tools/get-stream-info.js';
+import { validateStream } from './tools/validate-stream.js';
+import { updateStreamStatus } from './tools/update-stream-status.js';
+import { startPhase } from './tools/start-phase.js';
+import { completePhase } from './tools/complete-phase.js';
+
+// Prompts
+import { PROMPTS, getPrompt } from './mcp-prompts.js';
 
 const SERVER_VERSION = '0.1.0';
 
@@ -74,8 +124,8 @@ function createMetadata(toolName: string): ResponseMetadata {
       },
       limitations: {
         known: [
-          'Binary files not supported for conflict resolution',
-          'Max file size: 100KB for conflict resolution',
+          'Binary conflicts need FEATURES.binaryFileSupport (ENABLE_BINARY_CONFLICTS=true)',
+          'Conflict reports are capped at CONFLICT_RESPONSE_BUDGET; files over 100KB are shown hunk-by-hunk (get_conflict_hunk)',
           'Sequential conflict resolution (no parallelization)',
         ],
         reportIssues: '.claude/mcp-servers/stream-workflow-manager/ISSUES.md',
@@ -83,7 +133,7 @@ function createMetadata(toolName: string): ResponseMetadata {
       extensionPoints: {
         addConflictStrategy: 'src/strategies/ - add new file type handlers',
         addValidator: 'src/validators/ - add new validation checks',
-        customizePrompts: 'prompts/ - modify AI conflict resolution prompts',
+        customizePrompts: 'prompts/conflict-resolution.txt - or per project at CONFLICT_PROMPT_PATH (.project/prompts/)',
       },
     };
   }
@@ -216,6 +266,188 @@ const TOOLS: Tool[] = [
       required: [],
     },
   },
+  {
+    name: 'list_streams',
+    description:
+      'List streams in the state registry with optional filtering and sorting. ' +
+      'Shows status, priority, category and last update for every stream at a glance. ' +
+      'Safe to call anytime - read-only operation.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: ['initializing', 'active', 'blocked', 'ready-for-merge', 'completed', 'paused', 'archived'],
+          description: 'Only include streams with this status',
+        },
+        category: {
+          type: 'string',
+          enum: ['backend', 'frontend', 'infrastructure', 'testing', 'documentation', 'refactoring'],
+          description: 'Only include streams in this category',
+        },
+        priority: {
+          type: 'string',
+          enum: ['critical', 'high', 'medium', 'low'],
+          description: 'Only include streams with this priority',
+        },
+        tag: {
+          type: 'string',
+          description: 'Only include streams carrying this tag (case-insensitive)',
+        },
+        parentStreamId: {
+          type: 'string',
+          description: 'Only include sub-streams of this parent stream',
+        },
+        sortBy: {
+          type: 'string',
+          enum: ['createdAt', 'updatedAt', 'priority'],
+          description: 'Sort key (default: createdAt)',
+          default: 'createdAt',
+        },
+        order: {
+          type: 'string',
+          enum: ['asc', 'desc'],
+          description: 'Sort order (default: desc)',
+          default: 'desc',
+        },
+        format: {
+          type: 'string',
+          enum: ['table', 'json'],
+          description: 'Output format: human-readable table or JSON (default: table)',
+          default: 'table',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'get_stream_info',
+    description:
+      'Get the full picture of one stream in a single call: registry entry, worktree METADATA.json ' +
+      '(phases, progress, tags), and live git state (ahead/behind origin/main, uncommitted files, ' +
+      'last commit, whether pushed). ' +
+      'Useful after context compaction. Infers the stream from the current worktree if streamId is omitted. ' +
+      'Safe to call anytime - read-only operation.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        streamId: {
+          type: 'string',
+          description: 'Stream identifier (defaults to the stream of the current worktree)',
+        },
+        fetch: {
+          type: 'boolean',
+          description: 'Fetch origin before computing ahead/behind (default: true)',
+          default: true,
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'validate_stream',
+    description:
+      'Health check for one stream before prepare_merge. Checks worktree and branch exist, METADATA.json is ' +
+      'schema-valid, no unresolved conflicts or leftover MERGE_HEAD, divergence from origin/main, branch tracks ' +
+      'origin/<streamId>, and hooks are installed. Returns issues (blocking) vs warnings. ' +
+      'Infers the stream from the current worktree if streamId is omitted. Safe to call anytime - read-only operation.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        streamId: {
+          type: 'string',
+          description: 'Stream identifier (defaults to the stream of the current worktree)',
+        },
+        fetch: {
+          type: 'boolean',
+          description: 'Fetch origin before checking divergence (default: true)',
+          default: true,
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'update_stream_status',
+    description:
+      'Move a stream to a new lifecycle status. Transitions are validated against a fixed state graph ' +
+      '(e.g. initializing → active → ready-for-merge → completed → archived; archived is terminal). ' +
+      'Writes the registry, METADATA.json and STATUS.md, and commits the two worktree files. ' +
+      'blockedReason is required when status is "blocked".',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        streamId: {
+          type: 'string',
+          description: 'Stream identifier (e.g., "stream-1500-auth")',
+        },
+        status: {
+          type: 'string',
+          enum: ['initializing', 'active', 'blocked', 'ready-for-merge', 'completed', 'paused', 'archived'],
+          description: 'New status',
+        },
+        blockedReason: {
+          type: 'string',
+          description: 'Why the stream is blocked (required for "blocked", cleared otherwise)',
+        },
+        currentPhase: {
+          type: 'string',
+          description: 'Phase now being worked on (optional)',
+        },
+        progress: {
+          type: 'number',
+          description: 'Overall progress percentage 0-100 (optional)',
+        },
+      },
+      required: ['streamId', 'status'],
+    },
+  },
+  {
+    name: 'start_phase',
+    description:
+      'Mark one of the stream\'s phases (from start_stream estimatedPhases) as in progress. ' +
+      'Updates METADATA.json and STATUS.md and commits them in the worktree. ' +
+      'Starting a phase on an "initializing" stream moves it to "active".',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        streamId: {
+          type: 'string',
+          description: 'Stream identifier (e.g., "stream-1500-auth")',
+        },
+        phaseName: {
+          type: 'string',
+          description: 'Phase name (case-insensitive)',
+        },
+      },
+      required: ['streamId', 'phaseName'],
+    },
+  },
+  {
+    name: 'complete_phase',
+    description:
+      'Mark one of the stream\'s phases as completed. Recomputes progress from completed phases, ' +
+      'updates METADATA.json and STATUS.md and commits them in the worktree. ' +
+      'Reports when all phases are complete (time to prepare_merge).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        streamId: {
+          type: 'string',
+          description: 'Stream identifier (e.g., "stream-1500-auth")',
+        },
+        phaseName: {
+          type: 'string',
+          description: 'Phase name (case-insensitive)',
+        },
+        summary: {
+          type: 'string',
+          description: 'Short summary of what the phase delivered (added to STATUS.md notes)',
+        },
+      },
+      required: ['streamId', 'phaseName'],
+    },
+  },
   {
     name: 'prepare_merge',
     description:
@@ -241,10 +473,138 @@ const TOOLS: Tool[] = [
           description: 'Skip pushing to origin (for testing)',
           default: false,
         },
+        clearValidationCache: {
+          type: 'boolean',
+          description:
+            'Drop cached validator results before validating (results are reused when the tree is unchanged; ' +
+            'clear after toolchain or dependency changes, or to re-run a flaky failure)',
+          default: false,
+        },
       },
       required: ['streamId'],
     },
   },
+  {
+    name: 'get_conflict_hunk',
+    description:
+      'Read one conflict hunk (stream, base and main versions plus surrounding lines) of a file during a paused prepare_merge. ' +
+      'prepare_merge shows only the first hunk of files over 100KB and stops adding hunks once its report budget is spent; ' +
+      'the omitted hunks are listed by number - fetch them here. Numbers refer to the file as it is now, ' +
+      'so after resolving a hunk the following ones move up. Read-only.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        streamId: {
+          type: 'string',
+          description: 'Stream identifier (defaults to the stream of the current worktree)',
+        },
+        file: {
+          type: 'string',
+          description: 'Conflicted path relative to the worktree root',
+        },
+        hunk: {
+          type: 'number',
+          description: 'Hunk number (1-based)',
+        },
+        contextLines: {
+          type: 'number',
+          description: 'Unchanged lines shown before and after the hunk (default: 3)',
+        },
+      },
+      required: ['file', 'hunk'],
+    },
+  },
+  {
+    name: 'resolve_conflict',
+    description:
+      'Resolve one conflict hunk of a text file in place during a paused prepare_merge, instead of rewriting the whole file. ' +
+      'Hunks are numbered as in the prepare_merge report and get_conflict_hunk. ' +
+      'ours/theirs keep one side, both-ours-first/both-theirs-first keep both, custom replaces the hunk with content. ' +
+      'The file is staged once its last hunk is resolved; hunks after the resolved one move up by one. ' +
+      'Run prepare_merge again when no conflicted files remain.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        streamId: {
+          type: 'string',
+          description: 'Stream identifier (defaults to the stream of the current worktree)',
+        },
+        file: {
+          type: 'string',
+          description: 'Conflicted path relative to the worktree root',
+        },
+        hunk: {
+          type: 'number',
+          description: 'Hunk number (1-based)',
+        },
+        resolution: {
+          type: 'string',
+          enum: ['ours', 'theirs', 'both-ours-first', 'both-theirs-first', 'custom'],
+          description: 'Which side(s) to keep, or custom',
+        },
+        content: {
+          type: 'string',
+          description: 'Replacement text for the hunk (custom only; "" removes it)',
+        },
+      },
+      required: ['file', 'hunk', 'resolution'],
+    },
+  },
+  {
+    name: 'apply_conflict_action',
+    description:
+      'Resolve one conflicted file as a whole during a paused prepare_merge. ' +
+      'Use for conflicts without markers to edit (modify/delete, rename/rename, rename/delete) or when one side wins: ' +
+      'keep-ours (stream version, or delete if the stream deleted it), keep-theirs (main version, or delete), ' +
+      'keep-rename-target (keep this renamed path, remove the rename source and the other side\'s name). ' +
+      'prepare_merge lists the actions available for each conflict. Stages the result; run prepare_merge again when none remain.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        streamId: {
+          type: 'string',
+          description: 'Stream identifier (defaults to the stream of the current worktree)',
+        },
+        file: {
+          type: 'string',
+          description: 'Conflicted path relative to the worktree root',
+        },
+        action: {
+          type: 'string',
+          enum: ['keep-ours', 'keep-theirs', 'keep-rename-target'],
+          description: 'Resolution to apply',
+        },
+      },
+      required: ['file', 'action'],
+    },
+  },
+  {
+    name: 'resolve_binary_conflict',
+    description:
+      'Resolve a conflicted binary file (image, PDF, archive, font) during a paused prepare_merge. ' +
+      'prepare_merge reports size, SHA-256 and image dimensions for each side. ' +
+      'ours keeps the stream version, theirs keeps main\'s, both-renamed keeps both as <name>.stream<ext> and <name>.main<ext>. ' +
+      'Requires ENABLE_BINARY_CONFLICTS=true. Stages the result; run prepare_merge again when no conflicts remain.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        streamId: {
+          type: 'string',
+          description: 'Stream identifier (defaults to the stream of the current worktree)',
+        },
+        file: {
+          type: 'string',
+          description: 'Conflicted binary path relative to the worktree root',
+        },
+        choice: {
+          type: 'string',
+          enum: ['ours', 'theirs', 'both-renamed'],
+          description: 'Which version to keep',
+        },
+      },
+      required: ['file', 'choice'],
+    },
+  },
   {
     name: 'complete_merge',
     description:
@@ -300,6 +660,79 @@ const TOOLS: Tool[] = [
       required: ['streamId', 'summary'],
     },
   },
+  {
+    name: 'sync_dashboard',
+    description:
+      'Reconcile the stream registry with git: compares registered streams, git worktrees, ' +
+      'local/remote stream-* branches and active stream context, and reports every discrepancy ' +
+      '(registry entry with no worktree, worktree not in registry, branch with no stream, stale active entry). ' +
+      'Read-only unless force: true, which re-registers, prunes or marks archived as needed.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        force: {
+          type: 'boolean',
+          description: 'Apply repairs instead of only reporting (default: false)',
+          default: false,
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'rollback_merge',
+    description:
+      'REQUIRES EXPLICIT USER DIRECTION. Do NOT call autonomously. ' +
+      'Revert a stream\'s merged commits on main when it broke main. ' +
+      'Acquires the merge lock, reverts the commit range recorded by complete_merge in a single revert commit, ' +
+      'pushes (never force-pushes), and records the rollback in the registry and .project/history/. ' +
+      'Optionally reopens the worktree with the stream\'s changes restored for a fix.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        streamId: {
+          type: 'string',
+          description: 'Stream identifier to roll back',
+        },
+        reason: {
+          type: 'string',
+          description: 'Why the merge is being rolled back (recorded in registry and archive)',
+        },
+        targetCommit: {
+          type: 'string',
+          description: 'Main commit just before the stream landed (default: from complete_merge record)',
+        },
+        reopenWorktree: {
+          type: 'boolean',
+          description: 'Reopen the stream worktree with its changes restored on top of main (default: false)',
+          default: false,
+        },
+      },
+      required: ['streamId', 'reason'],
+    },
+  },
+  {
+    name: 'conflict_report',
+    description:
+      'Summarize recorded merge conflicts (FEATURES.conflictAnalytics, ENABLE_CONFLICT_ANALYTICS=true): ' +
+      'files that conflict most, stream pairs whose changes collide, and how often each strategy\'s ' +
+      '(and the agent\'s) resolutions passed validation and were not rolled back, overall and per month. Read-only.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        days: {
+          type: 'number',
+          description: 'Only conflicts recorded in the last N days (default: all)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Rows per section (default: 10)',
+          default: 10,
+        },
+      },
+      required: [],
+    },
+  },
 ];
 
 async function main(): Promise<void> {
@@ -319,6 +752,7 @@ async function main(): Promise<void> {
     {
       capabilities: {
         tools: {},
+        prompts: {},
       },
     }
   );
@@ -328,6 +762,16 @@ async function main(): Promise<void> {
     return { tools: TOOLS };
   });
 
+  // Handle list prompts request
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+
+  // Handle prompt requests
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+
   // Handle tool calls
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
     const { name, arguments: args } = request.params;
@@ -356,14 +800,55 @@ async function main(): Promise<void> {
           result = await checkLockStatus();
           break;
 
+        case 'list_streams':
+          result = await listStreams((args || {}) as ListStreamsArgs);
+          break;
+
+        case 'get_stream_info':
+          result = await getStreamInfo((args || {}) as GetStreamInfoArgs);
+          break;
+
+        case 'validate_stream':
+          result = await validateStream((args || {}) as ValidateStreamArgs);
+          break;
+
+        case 'update_stream_status':
+          result = await updateStreamStatus(args as unknown as UpdateStreamStatusArgs);
+          break;
+
+        case 'start_phase':
+          result = await startPhase(args as unknown as StartPhaseArgs);
+          break;
+
+        case 'complete_phase':
+          result = await completePhase(args as unknown as CompletePhaseArgs);
+          break;
+
         case 'prepare_merge':
           result = await prepareMerge(args as {
             streamId: string;
             validateBeforePush?: boolean;
             skipPush?: boolean;
+            clearValidationCache?: boolean;
           });
           break;
 
+        case 'get_conflict_hunk':
+          result = await getConflictHunk(args as unknown as GetConflictHunkArgs);
+          break;
+
+        case 'resolve_conflict':
+          result = await resolveConflict(args as unknown as ResolveConflictArgs);
+          break;
+
+        case 'apply_conflict_action':
+          result = await applyConflictAction(args as unknown as ApplyConflictActionArgs);
+          break;
+
+        case 'resolve_binary_conflict':
+          result = await resolveBinaryConflict(args as unknown as ResolveBinaryConflictArgs);
+          break;
+
         case 'complete_merge':
           result = await completeMerge(args as {
             streamId: string;
@@ -380,6 +865,18 @@ async function main(): Promise<void> {
           });
           break;
 
+        case 'sync_dashboard':
+          result = await syncDashboard((args || {}) as SyncDashboardArgs);
+          break;
+
+        case 'rollback_merge':
+          result = await rollbackMerge(args as unknown as RollbackMergeArgs);
+          break;
+
+        case 'conflict_report':
+          result = await conflictReport((args || {}) as ConflictReportArgs);
+          break;
+
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
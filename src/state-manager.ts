@@ -80,6 +80,29 @@ export interface StreamMetadata {
   worktreePath: string;
   branch: string;
   parentStreamId?: string;  // For sub-streams (e.g., "stream-1500-auth")
+  tags?: string[];
+  lastMerge?: MergeRecord;  // Written by complete_merge, read by rollback_merge
+  rollbacks?: RollbackRecord[];
+}
+
+/**
+ * MergeRecord: Commit range a stream added to main
+ * main moved from baseCommit to headCommit when complete_merge fast-forwarded
+ */
+export interface MergeRecord {
+  baseCommit: string;
+  headCommit: string;
+  mergedAt: string; // ISO timestamp
+}
+
+/**
+ * RollbackRecord: One rollback_merge of a stream's changes on main
+ */
+export interface RollbackRecord {
+  reason: string;
+  revertedCommits: string[];
+  revertCommit: string;
+  rolledBackAt: string; // ISO timestamp
 }
 
 export type StreamCategory =
@@ -0,0 +1,222 @@
+/**
+ * Conflict Strategy Registry
+ *
+ * Strategies get first try at every conflict before it is handed to the agent.
+ * For each conflicted file, registered strategies are consulted in order:
+ * - The first strategy whose canHandle() matches and that returns a
+ *   high-confidence resolution wins: the content is written and staged.
+ * - Medium/low-confidence resolutions are kept as suggestions for the agent.
+ * - A strategy that throws is logged and skipped.
+ *
+ * Strategies only return content - the registry does all file writes and staging.
+ *
+ * @module strategies
+ */
+
+import { writeFileSync } from 'node:fs';
+import { join, extname } from 'node:path';
+import { simpleGit } from 'simple-git';
+
+import { config } from '../config.js';
+import type { ConflictInfo } from '../conflict-resolver.js';
+import type {
+  ConflictContext,
+  ConflictStrategy,
+  ResolutionResult,
+  AutoResolvedConflict,
+} from '../types.js';
+import { StructuredMergeStrategy } from './structured-merge.js';
+import { LockfileStrategy, isLockfile } from './lockfile.js';
+
+/**
+ * Built-in strategies, in priority order
+ */
+const DEFAULT_STRATEGIES: ConflictStrategy[] = [new LockfileStrategy(), new StructuredMergeStrategy()];
+
+let strategies: ConflictStrategy[] = [...DEFAULT_STRATEGIES];
+
+/**
+ * Register an additional strategy
+ *
+ * @param strategy - Strategy to add
+ * @param options.first - Consult before existing strategies (default: last)
+ */
+export function registerStrategy(strategy: ConflictStrategy, options: { first?: boolean } = {}): void {
+  if (strategies.some((s) => s.name === strategy.name)) {
+    throw new Error(`Conflict strategy "${strategy.name}" is already registered`);
+  }
+  strategies = options.first ? [strategy, ...strategies] : [...strategies, strategy];
+}
+
+/**
+ * Registered strategies in consultation order
+ */
+export function getStrategies(): readonly ConflictStrategy[] {
+  return strategies;
+}
+
+/**
+ * Restore the built-in strategy list (used by tests)
+ */
+export function resetStrategies(): void {
+  strategies = [...DEFAULT_STRATEGIES];
+}
+
+/**
+ * A resolution that was not confident enough to apply automatically
+ */
+export interface StrategySuggestion {
+  file: string;
+  result: ResolutionResult;
+}
+
+export interface StrategyRunResult {
+  autoResolved: AutoResolvedConflict[];
+  suggestions: StrategySuggestion[];
+  remaining: ConflictInfo[];
+}
+
+/**
+ * Build the strategy-facing context from extracted conflict info
+ */
+export function buildConflictContext(
+  conflict: ConflictInfo,
+  streamId: string,
+  worktreePath: string
+): ConflictContext {
+  return {
+    file: conflict.file,
+    streamId,
+    worktreePath,
+    oursContent: conflict.oursContent,
+    theirsContent: conflict.theirsContent,
+    conflictContent: conflict.conflictMarkers,
+    versions: conflict.versions,
+    hunks: conflict.hunks,
+    mainCommits: conflict.mainCommits,
+    streamCommits: conflict.streamCommits,
+    fileType: extname(conflict.file).toLowerCase(),
+    conflictType: conflict.conflictType,
+  };
+}
+
+/**
+ * Run registered strategies over extracted conflicts
+ *
+ * High-confidence resolutions are written to the worktree and staged.
+ * Lockfiles go last - they are regenerated from package.json, so any
+ * manifest conflict has to be resolved first.
+ *
+ * @param worktreePath - Absolute path to worktree (merge in progress)
+ * @param conflicts - Conflicts from extractConflicts()
+ * @param streamId - Stream identifier
+ * @returns Auto-resolved files, suggestions and conflicts left for the agent
+ */
+export async function runStrategies(
+  worktreePath: string,
+  conflicts: ConflictInfo[],
+  streamId: string
+): Promise<StrategyRunResult> {
+  const git = simpleGit(worktreePath);
+  const result: StrategyRunResult = { autoResolved: [], suggestions: [], remaining: [] };
+
+  const ordered = [...conflicts].sort((a, b) => Number(isLockfile(a.file)) - Number(isLockfile(b.file)));
+
+  for (const conflict of ordered) {
+    const context = buildConflictContext(conflict, streamId, worktreePath);
+    let applied = false;
+
+    for (const strategy of strategies) {
+      let resolution: ResolutionResult;
+      try {
+        if (!strategy.canHandle(conflict.file, context)) {
+          continue;
+        }
+        resolution = await strategy.resolve(context);
+      } catch (error) {
+        console.error(`[strategies] ${strategy.name} failed on ${conflict.file}: ${error}`);
+        continue;
+      }
+
+      if (!resolution.resolved || resolution.content === null) {
+        if (resolution.reason) {
+          console.error(`[strategies] ${strategy.name} declined ${conflict.file}: ${resolution.reason}`);
+        }
+        continue;
+      }
+
+      if (resolution.confidence !== 'high') {
+        result.suggestions.push({ file: conflict.file, result: resolution });
+        continue;
+      }
+
+      writeFileSync(join(worktreePath, conflict.file), resolution.content, 'utf-8');
+      await git.add(conflict.file);
+      console.error(`[strategies] ${conflict.file} auto-resolved by ${resolution.strategy}`);
+
+      result.autoResolved.push({
+        file: conflict.file,
+        strategy: resolution.strategy,
+        confidence: resolution.confidence,
+        reason: resolution.reason,
+        warnings: resolution.warnings,
+        details: resolution.details,
+      });
+      applied = true;
+      break;
+    }
+
+    if (!applied) {
+      result.remaining.push(conflict);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Format auto-resolutions and suggestions for the agent
+ *
+ * Suggestion bodies are shown while they fit in `budget` characters; the
+ * rest get a pointer to the hunk tools instead. The caller gives the
+ * conflict report what is left (see prepare_merge).
+ *
+ * @param budget - Characters available (default CONFLICT_RESPONSE_BUDGET)
+ */
+export function formatStrategyReport(run: StrategyRunResult, budget = config.CONFLICT_RESPONSE_BUDGET): string {
+  let output = '';
+
+  if (run.autoResolved.length > 0) {
+    output += `AUTO-RESOLVED: ${run.autoResolved.length} file(s) (written and staged)\n`;
+    for (const r of run.autoResolved) {
+      output += `  ✓ ${r.file} - ${r.strategy}${r.reason ? `: ${r.reason}` : ''}\n`;
+      for (const d of r.details || []) {
+        output += `      ${d}\n`;
+      }
+      for (const w of r.warnings || []) {
+        output += `      ⚠️  ${w}\n`;
+      }
+    }
+    output += '\n';
+  }
+
+  const pending = new Set(run.remaining.map((c) => c.file));
+  const suggestions = run.suggestions.filter((s) => pending.has(s.file));
+  if (suggestions.length > 0) {
+    output += `STRATEGY SUGGESTIONS (not applied - review before using):\n\n`;
+    for (const { file, result } of suggestions) {
+      output += `FILE: ${file}\n`;
+      output += `Strategy: ${result.strategy} (${result.confidence} confidence)${result.reason ? ` - ${result.reason}` : ''}\n`;
+      for (const w of result.warnings || []) {
+        output += `  ⚠️  ${w}\n`;
+      }
+      const body = '```\n' + result.content + '\n```\n\n';
+      output +=
+        output.length + body.length <= budget
+          ? body
+          : `(${result.content?.length ?? 0} characters, over the response budget - view with get_conflict_hunk / resolve_conflict)\n\n`;
+    }
+  }
+
+  return output;
+}
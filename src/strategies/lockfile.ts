@@ -0,0 +1,237 @@
+/**
+ * Lockfile Strategy - regenerate instead of merging text
+ *
+ * Lockfile conflicts are thousands of lines of noise and any hand merge is
+ * almost certainly wrong. Instead:
+ * 1. Start from main's lockfile (stage 3)
+ * 2. Let the package manager apply package.json as merged (both sides'
+ *    dependency changes) in lockfile-only mode - nothing is installed
+ * 3. Return the regenerated lockfile (the registry stages it)
+ *
+ * The report lists which dependencies each side changed.
+ *
+ * Declines (agent handles it) when:
+ * - A package.json is still conflicted (the registry runs lockfiles last,
+ *   so this only happens when no strategy could merge the manifest)
+ * - Main deleted the lockfile
+ * - Yarn classic (no lockfile-only mode)
+ * - The package manager fails or times out (the conflicted lockfile is
+ *   restored, markers included)
+ *
+ * @module strategies/lockfile
+ */
+
+import { exec, type ExecException } from 'node:child_process';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { promisify } from 'node:util';
+import { simpleGit, type SimpleGit } from 'simple-git';
+
+import { config } from '../config.js';
+import type { ConflictContext, ConflictStrategy, ResolutionResult } from '../types.js';
+
+const execAsync = promisify(exec);
+
+const LOCKFILE_MANAGERS: Record<string, 'pnpm' | 'npm' | 'yarn'> = {
+  'pnpm-lock.yaml': 'pnpm',
+  'package-lock.json': 'npm',
+  'npm-shrinkwrap.json': 'npm',
+  'yarn.lock': 'yarn',
+};
+
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+/**
+ * Whether a path is a package manager lockfile
+ */
+export function isLockfile(file: string): boolean {
+  return Object.hasOwn(LOCKFILE_MANAGERS, basename(file));
+}
+
+/**
+ * Lockfile-only install command for a lockfile, or null if unsupported
+ *
+ * @param file - Lockfile path relative to the worktree
+ * @param worktreePath - Absolute worktree path
+ */
+export function getLockfileCommand(file: string, worktreePath: string): string | null {
+  switch (LOCKFILE_MANAGERS[basename(file)]) {
+    case 'pnpm':
+      return 'pnpm install --lockfile-only --ignore-scripts';
+    case 'npm':
+      return 'npm install --package-lock-only --ignore-scripts --no-audit --no-fund';
+    case 'yarn': {
+      // Yarn berry is configured by .yarnrc.yml; classic has no lockfile-only mode
+      const berry = [dirname(file), '.'].some((dir) => existsSync(join(worktreePath, dir, '.yarnrc.yml')));
+      return berry ? 'yarn install --mode=update-lockfile' : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Describe dependency changes between two versions of a package.json
+ *
+ * @param before - Manifest content before (null if the file did not exist)
+ * @param after - Manifest content after (null if the file was deleted)
+ * @returns Lines like "+ zod ^3.23.8", "- lodash", "~ react ^18.2.0 → ^19.0.0"
+ */
+export function diffDependencies(before: string | null, after: string | null): string[] {
+  const from = collectDependencies(before);
+  const to = collectDependencies(after);
+  const changes: string[] = [];
+
+  for (const [name, version] of to) {
+    const previous = from.get(name);
+    if (previous === undefined) {
+      changes.push(`+ ${name} ${version}`);
+    } else if (previous !== version) {
+      changes.push(`~ ${name} ${previous} → ${version}`);
+    }
+  }
+  for (const name of from.keys()) {
+    if (!to.has(name)) {
+      changes.push(`- ${name}`);
+    }
+  }
+
+  return changes;
+}
+
+export class LockfileStrategy implements ConflictStrategy {
+  name = 'lockfile-regenerate';
+
+  canHandle(file: string): boolean {
+    return isLockfile(file);
+  }
+
+  async resolve(context: ConflictContext): Promise<ResolutionResult> {
+    const { file, worktreePath } = context;
+    const git = simpleGit(worktreePath);
+    const decline = (reason: string): ResolutionResult => ({
+      resolved: false,
+      content: null,
+      strategy: this.name,
+      confidence: 'low',
+      reason,
+    });
+
+    const command = getLockfileCommand(file, worktreePath);
+    if (!command) {
+      return decline('yarn classic has no lockfile-only mode - regenerate manually with yarn install');
+    }
+    if (context.versions.theirs === null) {
+      return decline('main deleted the lockfile');
+    }
+
+    const unmerged = (await git.raw(['diff', '--name-only', '--diff-filter=U'])).split('\n').filter(Boolean);
+    const conflictedManifests = unmerged.filter((path) => basename(path) === 'package.json');
+    if (conflictedManifests.length > 0) {
+      return decline(`resolve ${conflictedManifests.join(', ')} first - the lockfile is generated from it`);
+    }
+
+    const details = await describeDependencyChanges(git, dirname(file));
+
+    // Start from main's lockfile, then let the package manager apply the merged manifests.
+    // The conflicted file is put back if that fails, so the agent still sees both sides.
+    const lockfilePath = join(worktreePath, file);
+    const conflicted = readFileSync(lockfilePath, 'utf-8');
+    writeFileSync(lockfilePath, context.versions.theirs, 'utf-8');
+
+    try {
+      await execAsync(command, {
+        cwd: join(worktreePath, dirname(file)),
+        timeout: config.LOCKFILE_INSTALL_TIMEOUT,
+      });
+    } catch (error) {
+      writeFileSync(lockfilePath, conflicted, 'utf-8');
+      const { stderr = '', killed, message } = error as ExecException & { stderr?: string };
+      const output = killed ? `timed out after ${config.LOCKFILE_INSTALL_TIMEOUT}ms` : stderr || message;
+      return decline(`${command} failed: ${output.trim().split('\n').slice(-3).join(' ')}`);
+    }
+
+    return {
+      resolved: true,
+      content: readFileSync(lockfilePath, 'utf-8'),
+      strategy: this.name,
+      confidence: 'high',
+      reason: `regenerated from main's lockfile with ${command.split(' ')[0]}`,
+      details,
+    };
+  }
+}
+
+/**
+ * Dependency changes on each side since the merge base, for every
+ * package.json under the lockfile's directory
+ */
+async function describeDependencyChanges(git: SimpleGit, lockfileDir: string): Promise<string[]> {
+  let mergeBase: string;
+  try {
+    mergeBase = (await git.raw(['merge-base', 'HEAD', 'MERGE_HEAD'])).trim();
+  } catch {
+    return [];
+  }
+  if (!mergeBase) {
+    return [];
+  }
+
+  const details: string[] = [];
+  const sides: Array<[string, string]> = [
+    ['stream', 'HEAD'],
+    ['main', 'MERGE_HEAD'],
+  ];
+
+  for (const [side, ref] of sides) {
+    const changedFiles = await git.raw(['diff', '--name-only', mergeBase, ref, '--', lockfileDir]);
+    const manifests = changedFiles
+      .split('\n')
+      .filter((path) => basename(path) === 'package.json' && !path.includes('node_modules/'));
+
+    for (const manifest of manifests) {
+      const before = await showBlob(git, `${mergeBase}:${manifest}`);
+      const after = await showBlob(git, `${ref}:${manifest}`);
+      for (const change of diffDependencies(before, after)) {
+        details.push(`${side}: ${change} (${manifest})`);
+      }
+    }
+  }
+
+  return details.length > 0 ? details : ['no package.json dependency changes on either side'];
+}
+
+async function showBlob(git: SimpleGit, spec: string): Promise<string | null> {
+  try {
+    return await git.show([spec]);
+  } catch {
+    return null;
+  }
+}
+
+function collectDependencies(manifest: string | null): Map<string, string> {
+  const dependencies = new Map<string, string>();
+  if (manifest === null) {
+    return dependencies;
+  }
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(manifest);
+  } catch {
+    return dependencies;
+  }
+
+  for (const field of DEPENDENCY_FIELDS) {
+    const entries = parsed[field];
+    if (typeof entries !== 'object' || entries === null) {
+      continue;
+    }
+    for (const [name, version] of Object.entries(entries)) {
+      const label = field === 'dependencies' ? name : `${name} (${field})`;
+      dependencies.set(label, String(version));
+    }
+  }
+
+  return dependencies;
+}
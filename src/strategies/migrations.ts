@@ -0,0 +1,323 @@
+/**
+ * Migration Strategy - renumber the stream's migrations after main's latest
+ *
+ * Two streams that each add `0042_*.sql` usually merge without a textual
+ * conflict, leaving two migrations with the same number (or a stream
+ * migration that sorts before one main already ran). So this is not a
+ * ConflictStrategy: prepare_merge runs it on every merge, conflicted or not.
+ *
+ * For each migrations directory where the stream added migrations:
+ * 1. Find main's latest sequence number or timestamp
+ * 2. Renumber every stream migration at or below it to follow main's latest,
+ *    keeping the stream's own order (zero padding / timestamp format preserved)
+ * 3. Rewrite references to the old names in the stream's own files in the
+ *    migrations directory (whole names only - main's files are left alone)
+ *
+ * A migration is a file or directory whose name starts with digits followed
+ * by `_`, `-` or `.` (0042_add_users.sql, 20240101120000_init/,
+ * 1700000000000-AddUsers.ts), somewhere below a directory whose name
+ * contains "migration".
+ *
+ * Changes are staged, not committed - the caller commits them (with the
+ * merge commit, or as a follow-up commit after a clean merge).
+ *
+ * @module strategies/migrations
+ */
+
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { dirname, extname, join, posix } from 'node:path';
+import type { SimpleGit } from 'simple-git';
+
+import { config } from '../config.js';
+import type { MigrationRename } from '../types.js';
+
+const NUMBER_PREFIX = /^(\d+)(?=[_.-])/;
+const TIMESTAMP_LENGTH = 14; // YYYYMMDDHHMMSS
+
+interface MigrationUnit {
+  path: string; // File or directory, relative to the repo root
+  dir: string; // Migrations directory containing it
+  name: string; // Basename
+  number: number;
+  digits: string; // Prefix as written (keeps zero padding)
+}
+
+/**
+ * Locate the migration unit a file belongs to
+ *
+ * @param file - Path relative to the repo root
+ * @returns The numbered file or directory, or null if not a migration
+ */
+export function findMigrationUnit(file: string): MigrationUnit | null {
+  const segments = file.split('/');
+
+  for (let i = 1; i < segments.length; i++) {
+    const match = segments[i].match(NUMBER_PREFIX);
+    if (!match || !segments.slice(0, i).some((segment) => segment.toLowerCase().includes('migration'))) {
+      continue;
+    }
+    return {
+      path: segments.slice(0, i + 1).join('/'),
+      dir: segments.slice(0, i).join('/'),
+      name: segments[i],
+      number: Number(match[1]),
+      digits: match[1],
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Next migration prefix after `previous`, in the same format as `template`
+ *
+ * 14-digit prefixes are treated as YYYYMMDDHHMMSS timestamps and advance by
+ * one second; anything else is a counter and keeps its zero padding.
+ */
+export function nextMigrationPrefix(previous: string, template: string): string {
+  if (previous.length === TIMESTAMP_LENGTH && template.length === TIMESTAMP_LENGTH) {
+    const [y, mo, d, h, mi, s] = [0, 4, 6, 8, 10, 12].map((start, i) =>
+      Number(previous.slice(start, start + (i === 0 ? 4 : 2)))
+    );
+    const next = new Date(Date.UTC(y, mo - 1, d, h, mi, s) + 1000);
+    return next.toISOString().replace(/[-:T]/g, '').slice(0, TIMESTAMP_LENGTH);
+  }
+
+  return String(Number(previous) + 1).padStart(template.length, '0');
+}
+
+/**
+ * Plan renames for one migrations directory
+ *
+ * @param streamUnits - Migrations the stream added (in this directory)
+ * @param mainLatest - Main's highest prefix in this directory, null if none
+ * @returns old name → new name for every stream migration that must move
+ */
+export function planRenumbering(
+  streamUnits: Array<Pick<MigrationUnit, 'name' | 'number' | 'digits'>>,
+  mainLatest: string | null
+): Map<string, string> {
+  const renames = new Map<string, string>();
+  if (mainLatest === null) {
+    return renames;
+  }
+
+  const ordered = [...streamUnits].sort((a, b) => a.number - b.number || a.name.localeCompare(b.name));
+  let last = mainLatest;
+
+  for (const unit of ordered) {
+    if (unit.number > Number(last)) {
+      last = unit.digits;
+      continue;
+    }
+    const prefix = nextMigrationPrefix(last, unit.digits);
+    renames.set(unit.name, prefix + unit.name.slice(unit.digits.length));
+    last = prefix;
+  }
+
+  return renames;
+}
+
+/**
+ * Detect migration collisions between the stream and main and renumber the
+ * stream's migrations in the worktree (staged, not committed)
+ *
+ * @param git - SimpleGit instance in the worktree
+ * @param worktreePath - Absolute worktree path
+ * @param streamTip - Stream commit before main was merged in
+ * @param mainRef - Ref being merged (origin/main)
+ * @returns Renames applied, empty when there were no collisions
+ */
+export async function renumberMigrations(
+  git: SimpleGit,
+  worktreePath: string,
+  streamTip: string,
+  mainRef: string
+): Promise<MigrationRename[]> {
+  const mergeBase = (await git.raw(['merge-base', streamTip, mainRef])).trim();
+  if (!mergeBase) {
+    return [];
+  }
+
+  // Migrations the stream added, grouped by directory
+  const added = (await git.raw(['diff', '--name-only', '--diff-filter=A', mergeBase, streamTip]))
+    .split('\n')
+    .filter(Boolean);
+  const streamUnits = new Map<string, MigrationUnit>();
+  for (const file of added) {
+    const unit = findMigrationUnit(file);
+    if (unit && !streamUnits.has(unit.path) && !(await existsAt(git, mergeBase, unit.path))) {
+      streamUnits.set(unit.path, unit);
+    }
+  }
+
+  const byDir = new Map<string, MigrationUnit[]>();
+  for (const unit of streamUnits.values()) {
+    byDir.set(unit.dir, [...(byDir.get(unit.dir) || []), unit]);
+  }
+
+  const unmerged = new Set(
+    (await git.raw(['diff', '--name-only', '--diff-filter=U'])).split('\n').filter(Boolean)
+  );
+  const renames: MigrationRename[] = [];
+
+  for (const [dir, units] of byDir) {
+    // Main's migrations in this directory; a same-named identical migration is not a collision
+    const mainNames = (await git.raw(['ls-tree', '--name-only', mainRef, '--', `${dir}/`]))
+      .split('\n')
+      .filter(Boolean)
+      .map((path) => posix.basename(path));
+
+    const candidates: MigrationUnit[] = [];
+    for (const unit of units) {
+      if (mainNames.includes(unit.name) && (await sameObject(git, streamTip, mainRef, unit.path))) {
+        continue;
+      }
+      candidates.push(unit);
+    }
+
+    const mainPrefixes = mainNames
+      .map((name) => name.match(NUMBER_PREFIX)?.[1])
+      .filter((prefix): prefix is string => prefix !== undefined);
+    const mainLatest = mainPrefixes.length > 0
+      ? mainPrefixes.reduce((max, prefix) => (Number(prefix) > Number(max) ? prefix : max))
+      : null;
+
+    // Move every migration first, so reference rewrites see the final file set
+    const plan = [...planRenumbering(candidates, mainLatest)].map(([oldName, newName]) => ({
+      unit: candidates.find((u) => u.name === oldName)!,
+      newName,
+    }));
+    const dirRenames: MigrationRename[] = [];
+    for (const { unit, newName } of plan) {
+      dirRenames.push(await applyRename(git, worktreePath, unit, `${dir}/${newName}`, streamTip, mainRef));
+    }
+
+    // Where the stream's added files are now
+    const streamFiles = added.map((file) => {
+      const moved = plan.find(({ unit }) => file === unit.path || file.startsWith(`${unit.path}/`));
+      return moved ? `${dir}/${moved.newName}${file.slice(moved.unit.path.length)}` : file;
+    });
+
+    for (const [i, { unit, newName }] of plan.entries()) {
+      dirRenames[i].referencesUpdated = await rewriteReferences(
+        git,
+        worktreePath,
+        dir,
+        unit,
+        newName,
+        mainNames.includes(unit.name),
+        streamFiles,
+        unmerged
+      );
+      console.error(`[migrations] Renumbered ${dirRenames[i].from} → ${dirRenames[i].to}`);
+    }
+    renames.push(...dirRenames);
+  }
+
+  return renames;
+}
+
+/**
+ * Move the stream's copy of a migration to its new name
+ * The old path gets main's version if main has one, otherwise it is removed.
+ */
+async function applyRename(
+  git: SimpleGit,
+  worktreePath: string,
+  unit: MigrationUnit,
+  newPath: string,
+  streamTip: string,
+  mainRef: string
+): Promise<MigrationRename> {
+  const files = (await git.raw(['ls-tree', '-r', '--name-only', streamTip, '--', unit.path]))
+    .split('\n')
+    .filter(Boolean);
+
+  for (const file of files) {
+    const target = newPath + file.slice(unit.path.length);
+    mkdirSync(dirname(join(worktreePath, target)), { recursive: true });
+    writeFileSync(join(worktreePath, target), await git.show([`${streamTip}:${file}`]));
+    await git.add(target);
+
+    if (await existsAt(git, mainRef, file)) {
+      await git.raw(['checkout', mainRef, '--', file]);
+    } else {
+      await git.raw(['rm', '-f', '--quiet', '--', file]);
+    }
+  }
+
+  return { from: unit.path, to: newPath, referencesUpdated: [] };
+}
+
+/**
+ * Replace the old migration name with the new one in files the stream added
+ * to the migrations directory
+ *
+ * Only whole names are replaced (`0012_add` does not match inside
+ * `0012_add_users`). When main has a migration with the same name, only the
+ * renamed migration itself is rewritten - other references point at main's
+ * migration.
+ */
+async function rewriteReferences(
+  git: SimpleGit,
+  worktreePath: string,
+  dir: string,
+  unit: MigrationUnit,
+  newName: string,
+  nameStillOnMain: boolean,
+  streamFiles: string[],
+  unmerged: Set<string>
+): Promise<string[]> {
+  const oldStem = stem(unit.name);
+  const newStem = stem(newName);
+  if (/^\d+$/.test(oldStem)) {
+    return []; // A bare number is too generic to search for
+  }
+
+  const newPath = `${dir}/${newName}`;
+  const scope = nameStillOnMain ? newPath : dir;
+  const files = streamFiles.filter((file) => file === scope || file.startsWith(`${scope}/`));
+  const escaped = oldStem.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const reference = new RegExp(`(?<!\\w)${escaped}(?!\\w)`, 'g');
+  const updated: string[] = [];
+
+  for (const file of [...new Set(files)]) {
+    const fullPath = join(worktreePath, file);
+    if (unmerged.has(file) || !existsSync(fullPath) || statSync(fullPath).size > config.MAX_FILE_SIZE) {
+      continue;
+    }
+    const content = readFileSync(fullPath, 'utf-8');
+    const rewritten = content.replace(reference, () => newStem);
+    if (rewritten === content) {
+      continue;
+    }
+    writeFileSync(fullPath, rewritten);
+    await git.add(file);
+    updated.push(file);
+  }
+
+  return updated;
+}
+
+function stem(name: string): string {
+  const ext = extname(name);
+  return ext ? name.slice(0, -ext.length) : name;
+}
+
+async function existsAt(git: SimpleGit, ref: string, path: string): Promise<boolean> {
+  const listing = await git.raw(['ls-tree', '--name-only', ref, '--', path]);
+  return listing.trim().length > 0;
+}
+
+async function sameObject(git: SimpleGit, left: string, right: string, path: string): Promise<boolean> {
+  try {
+    const [a, b] = await Promise.all([
+      git.revparse([`${left}:${path}`]),
+      git.revparse([`${right}:${path}`]),
+    ]);
+    return a.trim() === b.trim();
+  } catch {
+    return false;
+  }
+}
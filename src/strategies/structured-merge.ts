@@ -0,0 +1,307 @@
+/**
+ * Structured Merge Strategy - key-level three-way merge for JSON/YAML
+ *
+ * Parses the base/ours/theirs index stages as trees and merges them key by key:
+ * - A key changed on one side only takes that side's value
+ * - Keys added or removed on different sides are all applied
+ * - Arrays of primitives merge element additions/removals from both sides
+ * - Anything else changed differently on both sides is a clash
+ *
+ * No clashes → high confidence, written and staged by the registry.
+ * Clashes → low-confidence suggestion (stream value kept) with one JSON
+ * pointer per clash, so the agent only has to look at those keys.
+ * Arrays changed on both sides other than by appending → medium confidence:
+ * the set-style merge drops duplicates and can reorder, which matters for
+ * ordered lists ("files", "extends", plugins).
+ *
+ * Formatting: JSON keeps the stream's indentation, key order and trailing
+ * newline. YAML edits are applied to the stream's parsed document, so
+ * comments and layout of untouched keys survive.
+ *
+ * Not handled: TOML, JSON with comments, multi-document YAML, lockfiles
+ * (regenerated by LockfileStrategy).
+ *
+ * @module strategies/structured-merge
+ */
+
+import { extname } from 'node:path';
+import { parseDocument, type Document } from 'yaml';
+
+import type { ConflictContext, ConflictStrategy, ResolutionResult } from '../types.js';
+import { isLockfile } from './lockfile.js';
+
+const JSON_EXTENSIONS = ['.json'];
+const YAML_EXTENSIONS = ['.yaml', '.yml'];
+
+type Tree = unknown;
+type PathSegment = string | number;
+
+/**
+ * Marks a key that does not exist on one side
+ */
+const MISSING = Symbol('missing');
+type Slot = Tree | typeof MISSING;
+
+export interface TreeMergeResult {
+  merged: Tree;
+  clashes: string[]; // JSON pointers (RFC 6901)
+  arrayMerges: string[]; // Arrays both sides changed other than by appending
+}
+
+export class StructuredMergeStrategy implements ConflictStrategy {
+  name = 'structured-merge';
+
+  canHandle(file: string, context: ConflictContext): boolean {
+    const ext = extname(file).toLowerCase();
+    if (![...JSON_EXTENSIONS, ...YAML_EXTENSIONS].includes(ext)) {
+      return false;
+    }
+    // Lockfiles are generated - see LockfileStrategy
+    if (isLockfile(file)) {
+      return false;
+    }
+    // Both sides must still have the file (modify/delete is not a tree merge)
+    return context.versions.ours !== null && context.versions.theirs !== null;
+  }
+
+  async resolve(context: ConflictContext): Promise<ResolutionResult> {
+    const isYaml = YAML_EXTENSIONS.includes(extname(context.file).toLowerCase());
+    const { base, ours, theirs } = context.versions;
+
+    let parsed: { base: Slot; ours: Tree; theirs: Tree; oursDocument?: Document };
+    try {
+      parsed = isYaml ? parseYamlVersions(base, ours!, theirs!) : parseJsonVersions(base, ours!, theirs!);
+    } catch (error) {
+      return {
+        resolved: false,
+        content: null,
+        strategy: this.name,
+        confidence: 'low',
+        reason: `Could not parse as ${isYaml ? 'YAML' : 'JSON'}: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    const { merged, clashes, arrayMerges } = mergeTrees(parsed.base, parsed.ours, parsed.theirs);
+    const content = isYaml
+      ? formatYaml(parsed.oursDocument!, parsed.ours, merged)
+      : formatJson(ours!, merged);
+
+    if (clashes.length > 0) {
+      return {
+        resolved: true,
+        content,
+        strategy: this.name,
+        confidence: 'low',
+        reason: `${clashes.length} key(s) changed differently on both sides - stream values kept`,
+        warnings: clashes.map((pointer) => `clash at ${pointer || '/'}`),
+      };
+    }
+
+    if (arrayMerges.length > 0) {
+      return {
+        resolved: true,
+        content,
+        strategy: this.name,
+        confidence: 'medium',
+        reason: `${arrayMerges.length} array(s) changed on both sides merged as sets - check element order`,
+        warnings: arrayMerges.map((pointer) => `array merged at ${pointer || '/'}`),
+      };
+    }
+
+    return {
+      resolved: true,
+      content,
+      strategy: this.name,
+      confidence: 'high',
+      reason: 'non-overlapping key changes merged',
+    };
+  }
+}
+
+/**
+ * Three-way merge of parsed JSON/YAML trees
+ *
+ * On a clash the "ours" value is kept and the path is reported.
+ *
+ * @param base - Common ancestor (MISSING when both sides added the file)
+ * @param ours - Stream version
+ * @param theirs - Main version
+ */
+export function mergeTrees(base: Slot, ours: Tree, theirs: Tree): TreeMergeResult {
+  const report = { clashes: [] as string[], arrayMerges: [] as string[] };
+  const merged = mergeSlot(base, ours, theirs, [], report);
+  return { merged: merged === MISSING ? null : merged, ...report };
+}
+
+type MergeReport = Pick<TreeMergeResult, 'clashes' | 'arrayMerges'>;
+
+function mergeSlot(base: Slot, ours: Slot, theirs: Slot, path: PathSegment[], report: MergeReport): Slot {
+  if (deepEqual(ours, theirs)) return ours;
+  if (deepEqual(base, ours)) return theirs;
+  if (deepEqual(base, theirs)) return ours;
+
+  if (isPlainObject(ours) && isPlainObject(theirs) && (base === MISSING || isPlainObject(base))) {
+    return mergeObjects(base === MISSING ? {} : base, ours, theirs, path, report);
+  }
+
+  if (isPrimitiveArray(ours) && isPrimitiveArray(theirs) && (base === MISSING || isPrimitiveArray(base))) {
+    const baseArray = base === MISSING ? [] : base;
+    if (!isAppendOnly(baseArray, ours) || !isAppendOnly(baseArray, theirs)) {
+      report.arrayMerges.push(toPointer(path));
+    }
+    return mergeArrays(baseArray, ours, theirs);
+  }
+
+  report.clashes.push(toPointer(path));
+  return ours;
+}
+
+function mergeObjects(
+  base: Record<string, Tree>,
+  ours: Record<string, Tree>,
+  theirs: Record<string, Tree>,
+  path: PathSegment[],
+  report: MergeReport
+): Record<string, Tree> {
+  const result: Record<string, Tree> = {};
+  // Stream key order first, then keys only main has
+  const keys = [...Object.keys(ours), ...Object.keys(theirs).filter((key) => !Object.hasOwn(ours, key))];
+
+  for (const key of keys) {
+    const value = mergeSlot(slot(base, key), slot(ours, key), slot(theirs, key), [...path, key], report);
+    if (value !== MISSING) {
+      // defineProperty: a "__proto__" key is data here, not the prototype
+      Object.defineProperty(result, key, { value, enumerable: true, writable: true, configurable: true });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Set-style merge: keep stream order, drop what either side removed,
+ * append what main added
+ */
+function mergeArrays(base: Tree[], ours: Tree[], theirs: Tree[]): Tree[] {
+  const removedByTheirs = base.filter((item) => !theirs.includes(item));
+  const result = ours.filter((item) => !removedByTheirs.includes(item));
+
+  for (const item of theirs) {
+    if (!base.includes(item) && !result.includes(item)) {
+      result.push(item);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Whether a side only added elements after the base ones
+ */
+function isAppendOnly(base: Tree[], side: Tree[]): boolean {
+  return side.length >= base.length && base.every((item, i) => side[i] === item);
+}
+
+function parseJsonVersions(base: string | null, ours: string, theirs: string) {
+  return {
+    base: base === null ? MISSING : (JSON.parse(base) as Tree),
+    ours: JSON.parse(ours) as Tree,
+    theirs: JSON.parse(theirs) as Tree,
+  };
+}
+
+function parseYamlVersions(base: string | null, ours: string, theirs: string) {
+  const parse = (source: string) => {
+    const document = parseDocument(source);
+    if (document.errors.length > 0) {
+      throw document.errors[0];
+    }
+    return document;
+  };
+
+  const oursDocument = parse(ours);
+  return {
+    base: base === null ? MISSING : (parse(base).toJS() as Tree),
+    ours: oursDocument.toJS() as Tree,
+    theirs: parse(theirs).toJS() as Tree,
+    oursDocument,
+  };
+}
+
+/**
+ * Serialize with the stream file's indentation and trailing newline
+ */
+function formatJson(original: string, merged: Tree): string {
+  const indentMatch = original.match(/^[ \t]+(?=")/m);
+  const indent = indentMatch ? indentMatch[0] : 2;
+  return JSON.stringify(merged, null, indent) + (original.endsWith('\n') ? '\n' : '');
+}
+
+/**
+ * Apply the differences between ours and merged to the stream's YAML document
+ */
+function formatYaml(document: Document, ours: Tree, merged: Tree): string {
+  applyYamlChanges(document, ours, merged, []);
+  return String(document);
+}
+
+function applyYamlChanges(document: Document, from: Tree, to: Tree, path: PathSegment[]): void {
+  if (deepEqual(from, to)) {
+    return;
+  }
+
+  if (isPlainObject(from) && isPlainObject(to)) {
+    for (const key of Object.keys(from)) {
+      if (!Object.hasOwn(to, key)) {
+        document.deleteIn([...path, key]);
+      }
+    }
+    for (const key of Object.keys(to)) {
+      if (Object.hasOwn(from, key)) {
+        applyYamlChanges(document, from[key], to[key], [...path, key]);
+      } else {
+        document.setIn([...path, key], to[key]);
+      }
+    }
+  } else if (path.length === 0) {
+    document.contents = document.createNode(to);
+  } else {
+    document.setIn(path, to);
+  }
+}
+
+function slot(object: Record<string, Tree>, key: string): Slot {
+  return Object.hasOwn(object, key) ? object[key] : MISSING;
+}
+
+function isPlainObject(value: Slot): value is Record<string, Tree> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPrimitiveArray(value: Slot): value is Tree[] {
+  return Array.isArray(value) && value.every((item) => item === null || typeof item !== 'object');
+}
+
+function deepEqual(a: Slot, b: Slot): boolean {
+  if (a === b) return true;
+  if (a === MISSING || b === MISSING) return false;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a)) {
+    const other = b as Tree[];
+    return a.length === other.length && a.every((item, i) => deepEqual(item, other[i]));
+  }
+
+  const left = a as Record<string, Tree>;
+  const right = b as Record<string, Tree>;
+  const keys = Object.keys(left);
+  return (
+    keys.length === Object.keys(right).length &&
+    keys.every((key) => Object.hasOwn(right, key) && deepEqual(left[key], right[key]))
+  );
+}
+
+function toPointer(path: PathSegment[]): string {
+  return path.map((segment) => '/' + String(segment).replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
@@ -0,0 +1,123 @@
+/**
+ * apply_conflict_action - Whole-file resolution of one conflicted path
+ *
+ * Follow-up to prepare_merge for conflicts that have no markers to edit
+ * (modify/delete, rename/rename, rename/delete) or where one side wins outright:
+ * - keep-ours: stream version (or delete, if the stream deleted it)
+ * - keep-theirs: main version (or delete, if main deleted it)
+ * - keep-rename-target: keep this rename target, remove the rename source
+ *   and the other side's target
+ *
+ * The result is staged. Run prepare_merge again once nothing is left.
+ *
+ * @module tools/apply-conflict-action
+ */
+
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { simpleGit, type SimpleGit } from 'simple-git';
+
+import {
+  readUnmergedStatuses,
+  readMergeRenames,
+  describeConflictAction,
+  hasSide,
+  keepConflictSide,
+} from '../conflict-resolver.js';
+import { resolveStreamLocation } from '../utils/stream-metadata.js';
+import type { ApplyConflictActionArgs, ConflictAction, MCPResponse } from '../types.js';
+
+const ACTIONS: ConflictAction[] = ['keep-ours', 'keep-theirs', 'keep-rename-target'];
+
+export async function applyConflictAction(args: ApplyConflictActionArgs): Promise<MCPResponse> {
+  const { file, action } = args;
+
+  try {
+    if (!ACTIONS.includes(action)) {
+      throw new Error(`Unknown action "${action}". Valid actions: ${ACTIONS.join(', ')}`);
+    }
+
+    const { streamId, worktreePath } = await resolveStreamLocation(args.streamId);
+    if (!existsSync(join(worktreePath, '.git'))) {
+      throw new Error(`Worktree not found: ${worktreePath}`);
+    }
+
+    const git: SimpleGit = simpleGit(worktreePath);
+    const statuses = await readUnmergedStatuses(git);
+    const status = statuses.get(file);
+    if (!status) {
+      throw new Error(`${file} is not in conflict. Conflicted files: ${[...statuses.keys()].join(', ') || '(none)'}`);
+    }
+
+    const changes: string[] = [];
+
+    if (action === 'keep-rename-target') {
+      const mergeBase = (await git.raw(['merge-base', 'HEAD', 'MERGE_HEAD'])).trim();
+      const renames = await readMergeRenames(git, mergeBase, 'MERGE_HEAD');
+      const side = [...renames.ours.values()].includes(file)
+        ? 'ours'
+        : [...renames.theirs.values()].includes(file)
+          ? 'theirs'
+          : null;
+      if (!side) {
+        throw new Error(`${file} is not a rename target - use keep-ours or keep-theirs`);
+      }
+
+      const source = [...renames[side]].find(([, target]) => target === file)![0];
+      await keepConflictSide(git, file, side);
+      changes.push(`kept ${file} (${side === 'ours' ? 'stream' : 'main'} rename of ${source})`);
+
+      const otherTarget = renames[side === 'ours' ? 'theirs' : 'ours'].get(source);
+      for (const path of [source, otherTarget]) {
+        if (path && path !== file && (statuses.has(path) || existsSync(join(worktreePath, path)))) {
+          await git.raw(['rm', '-f', '--quiet', '--ignore-unmatch', '--', path]);
+          changes.push(`removed ${path}`);
+        }
+      }
+    } else {
+      const side = action === 'keep-ours' ? 'ours' : 'theirs';
+      if (hasSide(status, side)) {
+        await keepConflictSide(git, file, side);
+      } else {
+        await git.raw(['rm', '-f', '--quiet', '--', file]);
+      }
+      changes.push(`${file}: ${describeConflictAction(status, action)}`);
+    }
+
+    const remaining = [...(await readUnmergedStatuses(git)).keys()];
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `
+CONFLICT ACTION APPLIED
+
+Stream: ${streamId}
+File: ${file} (${status})
+Action: ${action}
+
+Changes (staged):
+${changes.map((c) => `  ✓ ${c}`).join('\n')}
+
+Remaining conflicts: ${remaining.length}
+${remaining.map((f) => `  - ${f}`).join('\n')}
+
+${remaining.length === 0 ? 'All conflicts resolved - run prepare_merge to commit the merge.' : 'Resolve the remaining files, then run prepare_merge.'}
+`.trim(),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `apply_conflict_action failed: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
+
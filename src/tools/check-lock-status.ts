@@ -9,7 +9,7 @@ import { simpleGit, type SimpleGit } from 'simple-git';
 
 import { config } from '../config.js';
 import type { MCPResponse } from '../types.js';
-import { checkGitLock } from '../utils/git-lock.js';
+import { checkGitLock, type GitLockOperation } from '../utils/git-lock.js';
 
 export async function checkLockStatus(): Promise<MCPResponse> {
   const git: SimpleGit = simpleGit(config.PROJECT_ROOT);
@@ -68,7 +68,7 @@ function formatLockStatus(status: {
     pid: number;
     hostname: string;
     timestamp: string;
-    operation: 'prepare_merge' | 'complete_merge';
+    operation: GitLockOperation;
   };
 }): string {
   const { info, isStale, ageMs } = status;
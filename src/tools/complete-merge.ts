@@ -14,6 +14,7 @@ import { simpleGit, type SimpleGit } from 'simple-git';
 import { config } from '../config.js';
 import type { MCPResponse, CompleteMergeResponse } from '../types.js';
 import { acquireGitLock, releaseGitLock, formatGitLockError } from '../utils/git-lock.js';
+import { updateStream } from '../state-manager.js';
 
 interface CompleteMergeArgs {
   streamId: string;
@@ -77,6 +78,7 @@ export async function completeMerge(args: CompleteMergeArgs): Promise<MCPRespons
     // Pull latest main
     console.error(`[complete_merge] Pulling latest main...`);
     await git.pull('origin', 'main');
+    const baseCommit = (await git.revparse(['HEAD'])).trim();
 
     // Step H: Fast-forward merge
     console.error(`[complete_merge] Merging ${streamId} into main (--ff-only)...`);
@@ -103,6 +105,19 @@ export async function completeMerge(args: CompleteMergeArgs): Promise<MCPRespons
     await git.push('origin', 'main');
     response.pushedToOrigin = true;
 
+    // Record the commit range so rollback_merge can revert exactly this stream
+    try {
+      await updateStream(streamId, {
+        lastMerge: {
+          baseCommit,
+          headCommit: response.mainCommitHash,
+          mergedAt: new Date().toISOString(),
+        },
+      });
+    } catch (error) {
+      console.error(`[complete_merge] Warning: Could not record merge in registry: ${error}`);
+    }
+
     // Optional: Delete remote branch
     if (deleteRemoteBranch) {
       try {
@@ -0,0 +1,141 @@
+/**
+ * complete_phase - Mark a stream phase as completed
+ *
+ * Updates the phase list in the worktree METADATA.json, recomputes progress
+ * from completed phases, re-renders STATUS.md and commits both files.
+ * Reports when every phase is done so the agent knows to move on to
+ * prepare_merge.
+ *
+ * @module tools/complete-phase
+ */
+
+import { existsSync } from 'node:fs';
+
+import { updateStream } from '../state-manager.js';
+import {
+  resolveStreamLocation,
+  readWorktreeMetadata,
+  writeWorktreeMetadata,
+  writeStatusFile,
+  commitStreamDocs,
+  STREAM_DOC_FILES,
+} from '../utils/stream-metadata.js';
+import { findPhase, computePhaseProgress, formatUnknownPhase } from '../utils/phases.js';
+import { PHASE_TRACKING_STATUSES, formatPhaseStatusError } from '../utils/stream-status.js';
+import type { MCPResponse, CompletePhaseArgs, CompletePhaseResponse, WorktreePhase } from '../types.js';
+
+/**
+ * complete_phase - Finish a named phase
+ *
+ * @param args Stream ID, phase name (matched case-insensitively) and optional summary
+ * @returns MCP response with new progress and what to do next
+ */
+export async function completePhase(args: CompletePhaseArgs): Promise<MCPResponse> {
+  try {
+    const { streamId, worktreePath, registry } = await resolveStreamLocation(args.streamId);
+    const metadata = existsSync(worktreePath) ? readWorktreeMetadata(worktreePath) : null;
+
+    if (!metadata) {
+      throw new Error(`METADATA.json not found in ${worktreePath}. Cannot track phases.`);
+    }
+    const status = registry?.status ?? metadata.status;
+    if (!PHASE_TRACKING_STATUSES.includes(status)) {
+      throw new Error(formatPhaseStatusError(streamId, status, 'completed'));
+    }
+
+    const phase = findPhase(metadata.phases, args.phaseName);
+    if (!phase) {
+      throw new Error(formatUnknownPhase(args.phaseName, metadata.phases));
+    }
+    if (phase.status === 'completed') {
+      throw new Error(`Phase "${phase.name}" is already completed (${phase.completedAt}).`);
+    }
+
+    const timestamp = new Date().toISOString();
+    const warnings: string[] = [];
+
+    phase.status = 'completed';
+    phase.startedAt = phase.startedAt ?? timestamp;
+    phase.completedAt = timestamp;
+    if (args.summary) {
+      phase.summary = args.summary;
+    }
+
+    if (metadata.currentPhase === phase.name) {
+      metadata.currentPhase = metadata.phases.find((p) => p.status === 'in_progress')?.name ?? null;
+    }
+    metadata.progress = computePhaseProgress(metadata.phases);
+    metadata.updatedAt = timestamp;
+
+    writeWorktreeMetadata(worktreePath, metadata);
+    writeStatusFile(worktreePath, metadata);
+
+    try {
+      await commitStreamDocs(worktreePath, `chore(${streamId}): complete phase "${phase.name}"`);
+    } catch (error) {
+      warnings.push(
+        `Could not commit ${STREAM_DOC_FILES.join(', ')}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (registry) {
+      // Bump updatedAt so list_streams sorts recently worked-on streams first
+      await updateStream(streamId, {});
+    }
+
+    const response: CompletePhaseResponse = {
+      success: true,
+      streamId,
+      phaseName: phase.name,
+      newProgress: metadata.progress,
+      allPhasesComplete: metadata.phases.every((p) => p.status === 'completed'),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatPhaseCompleted(response, metadata.phases, warnings),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `complete_phase failed: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
+
+function formatPhaseCompleted(
+  response: CompletePhaseResponse,
+  phases: WorktreePhase[],
+  warnings: string[]
+): string {
+  const completed = phases.filter((p) => p.status === 'completed').length;
+  const nextPhase = phases.find((p) => p.status !== 'completed');
+
+  const nextStep = response.allPhasesComplete
+    ? `🎉 ALL PHASES COMPLETE
+
+NEXT STEPS:
+  1. update_stream_status → "ready-for-merge"
+  2. prepare_merge (merges main into the stream and validates)`
+    : `NEXT: ${nextPhase!.status === 'in_progress' ? 'continue' : 'start_phase'} "${nextPhase!.name}"`;
+
+  const warningText = warnings.length > 0
+    ? `\n\nWARNINGS:\n${warnings.map((w) => `⚠️  ${w}`).join('\n')}`
+    : '';
+
+  return `✅ PHASE COMPLETED: ${response.phaseName}
+
+Stream:    ${response.streamId}
+Progress:  ${response.newProgress}% (${completed}/${phases.length} phases)
+
+${nextStep}${warningText}`;
+}
@@ -0,0 +1,116 @@
+/**
+ * conflict_report - Conflict hotspots and strategy success rates
+ *
+ * Read-only summary of the conflict analytics store (FEATURES.conflictAnalytics):
+ * - Hotspot files: files that conflict most, across how many streams
+ * - Colliding stream pairs: a stream's conflict traced to another stream's
+ *   commits on main (complete_merge records)
+ * - Strategy success rates: share of each strategy's merges (and the agent's)
+ *   that passed validation and were not rolled back, overall and per month
+ *
+ * @module tools/conflict-report
+ */
+
+import { config } from '../config.js';
+import {
+  readConflictAnalytics,
+  summarizeConflictAnalytics,
+  type ConflictAnalyticsSummary,
+  type StrategySuccess,
+} from '../conflict-analytics.js';
+import type { ConflictReportArgs, MCPResponse } from '../types.js';
+
+const DEFAULT_LIMIT = 10;
+
+export async function conflictReport(args: ConflictReportArgs = {}): Promise<MCPResponse> {
+  const { days, limit = DEFAULT_LIMIT } = args;
+
+  try {
+    if (days !== undefined && (!Number.isFinite(days) || days <= 0)) {
+      throw new Error(`days must be a positive number (got ${days})`);
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`limit must be a positive integer (got ${limit})`);
+    }
+
+    const since = days === undefined ? undefined : new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const summary = summarizeConflictAnalytics(readConflictAnalytics(), since);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatReport(summary, days, limit),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `conflict_report failed: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
+
+function formatReport(summary: ConflictAnalyticsSummary, days: number | undefined, limit: number): string {
+  let output = `CONFLICT REPORT\n\n`;
+  output += `Period: ${days === undefined ? 'all records' : `last ${days} day(s)`}\n`;
+  output += `Store: ${config.CONFLICT_ANALYTICS_PATH}\n`;
+  if (!config.FEATURES.conflictAnalytics) {
+    output += `Recording: DISABLED - set ENABLE_CONFLICT_ANALYTICS=true to record new merges\n`;
+  }
+  output += '\n';
+
+  if (summary.conflicts === 0) {
+    return output + 'No conflicts recorded in this period.';
+  }
+
+  output += `${summary.conflicts} conflicted file(s) in ${summary.merges} merge(s)\n\n`;
+
+  output += `HOTSPOT FILES:\n`;
+  for (const h of summary.hotspots.slice(0, limit)) {
+    output += `  ${String(h.conflicts).padStart(4)}  ${h.file}  (${h.streams} stream(s), last ${h.lastSeen.slice(0, 10)})\n`;
+  }
+  output += more(summary.hotspots.length, limit) + '\n';
+
+  output += `COLLIDING STREAM PAIRS:\n`;
+  if (summary.collisions.length === 0) {
+    output += `  None traced (needs complete_merge records of the streams on main)\n`;
+  }
+  for (const c of summary.collisions.slice(0, limit)) {
+    output += `  ${String(c.conflicts).padStart(4)}  ${c.streams[0]} ↔ ${c.streams[1]}  (${c.files} file(s))\n`;
+  }
+  output += more(summary.collisions.length, limit) + '\n';
+
+  output += `STRATEGY SUCCESS RATES (merge passed validation and was not rolled back):\n`;
+  for (const s of summary.strategies) {
+    output += formatStrategy(s);
+  }
+
+  return output.trimEnd();
+}
+
+function formatStrategy(s: StrategySuccess): string {
+  const { passed, failed, unknown } = s.outcomes;
+  const rolledBack = s.outcomes['rolled-back'];
+
+  let output = `  ${s.strategy}: ${s.conflicts} conflict(s) - ${rate(passed, passed + failed + rolledBack)}\n`;
+  output += `      passed ${passed}, validation failed ${failed}, rolled back ${rolledBack}, no result yet ${unknown}\n`;
+  if (s.byMonth.length > 0) {
+    output += `      ${s.byMonth.map((b) => `${b.month}: ${b.passed}/${b.decided}`).join('  ')}\n`;
+  }
+  return output;
+}
+
+function rate(passed: number, decided: number): string {
+  return decided === 0 ? 'no outcomes yet' : `${Math.round((passed / decided) * 100)}% success`;
+}
+
+function more(total: number, limit: number): string {
+  return total > limit ? `  ... and ${total - limit} more\n` : '';
+}
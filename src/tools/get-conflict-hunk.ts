@@ -0,0 +1,78 @@
+/**
+ * get_conflict_hunk - Page through the hunks of one conflicted file
+ *
+ * prepare_merge keeps its conflict report within CONFLICT_RESPONSE_BUDGET and
+ * shows only the first hunk of files above MAX_FILE_SIZE. The omitted hunks
+ * are listed by number; this tool returns one of them (stream/base/main plus
+ * surrounding context) from the file as it is now in the worktree.
+ *
+ * Read-only. Hunks are renumbered as the agent resolves them - the hunks
+ * after a resolved one move up by one.
+ *
+ * @module tools/get-conflict-hunk
+ */
+
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { simpleGit } from 'simple-git';
+
+import { config } from '../config.js';
+import { formatHunk, readConflictHunks, readUnmergedStatuses } from '../conflict-resolver.js';
+import { resolveStreamLocation } from '../utils/stream-metadata.js';
+import type { GetConflictHunkArgs, MCPResponse } from '../types.js';
+
+export async function getConflictHunk(args: GetConflictHunkArgs): Promise<MCPResponse> {
+  const { file, hunk } = args;
+
+  try {
+    const { streamId, worktreePath } = await resolveStreamLocation(args.streamId);
+    if (!existsSync(join(worktreePath, '.git'))) {
+      throw new Error(`Worktree not found: ${worktreePath}`);
+    }
+
+    const statuses = await readUnmergedStatuses(simpleGit(worktreePath));
+    if (!statuses.has(file)) {
+      throw new Error(`${file} is not in conflict. Conflicted files: ${[...statuses.keys()].join(', ') || '(none)'}`);
+    }
+
+    const hunks = await readConflictHunks(worktreePath, file, args.contextLines);
+    if (hunks.length === 0) {
+      throw new Error(`${file} has no conflict markers left - stage it with git add, or use apply_conflict_action`);
+    }
+    if (!Number.isInteger(hunk) || hunk < 1 || hunk > hunks.length) {
+      throw new Error(`Hunk ${hunk} out of range - ${file} has ${hunks.length} hunk(s)`);
+    }
+
+    const next = hunk < hunks.length
+      ? `Next: get_conflict_hunk({ streamId: "${streamId}", file: "${file}", hunk: ${hunk + 1} })`
+      : 'This is the last hunk.';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `
+CONFLICT HUNK
+
+Stream: ${streamId}
+File: ${file}
+
+${formatHunk(hunks[hunk - 1], hunks.length, config.CONFLICT_RESPONSE_BUDGET).trim()}
+
+${next}
+`.trim(),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `get_conflict_hunk failed: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * get_stream_info - Full picture of a single stream
+ *
+ * Combines three sources into one report so an agent recovering after
+ * compaction does not need to run several shell commands:
+ * 1. Registry entry (.project/.stream-state.json)
+ * 2. Worktree METADATA.json (phases, progress, tags, blocked reason)
+ * 3. Live git state (ahead/behind origin/main, dirty files, last commit, push state)
+ *
+ * Read-only apart from an optional `git fetch origin`.
+ *
+ * @module tools/get-stream-info
+ */
+
+import { existsSync } from 'node:fs';
+import { simpleGit, type SimpleGit } from 'simple-git';
+
+import { resolveStreamLocation, readWorktreeMetadata } from '../utils/stream-metadata.js';
+import type { MCPResponse, GetStreamInfoArgs, GetStreamInfoResponse, WorktreePhase } from '../types.js';
+
+type GitInfo = NonNullable<GetStreamInfoResponse['git']>;
+
+const PHASE_MARKERS: Record<WorktreePhase['status'], string> = {
+  pending: '[ ]',
+  in_progress: '[~]',
+  completed: '[x]',
+};
+
+/**
+ * get_stream_info - Merge registry, METADATA.json and git state
+ *
+ * @param args streamId (optional, inferred from cwd) and fetch flag
+ * @returns MCP response with human-readable report
+ */
+export async function getStreamInfo(args: GetStreamInfoArgs = {}): Promise<MCPResponse> {
+  const { fetch = true } = args;
+
+  try {
+    const { streamId, worktreePath, registry } = await resolveStreamLocation(args.streamId);
+    const worktreeExists = existsSync(worktreePath);
+    const metadata = worktreeExists ? readWorktreeMetadata(worktreePath) : null;
+    const warnings: string[] = [];
+
+    if (!registry) {
+      warnings.push('Stream is not in the state registry (.project/.stream-state.json)');
+    }
+    if (!worktreeExists) {
+      warnings.push(`Worktree directory does not exist: ${worktreePath}`);
+    } else if (!metadata) {
+      warnings.push('METADATA.json missing or unreadable in worktree');
+    }
+    if (registry && metadata && registry.status !== metadata.status) {
+      warnings.push(
+        `Status mismatch: registry says "${registry.status}", METADATA.json says "${metadata.status}"`
+      );
+    }
+
+    let git: GitInfo | null = null;
+    if (worktreeExists) {
+      try {
+        git = await collectGitInfo(simpleGit(worktreePath), fetch, warnings);
+      } catch (error) {
+        warnings.push(`Git inspection failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const phases = metadata?.phases ?? [];
+
+    const response: GetStreamInfoResponse = {
+      streamId,
+      registry,
+      metadata,
+      location: { worktreePath, worktreeExists },
+      git,
+      progress: {
+        phasesCompleted: phases.filter((phase) => phase.status === 'completed').length,
+        totalPhases: phases.length,
+        percentage: metadata?.progress ?? 0,
+      },
+      warnings,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatStreamInfo(response),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `get_stream_info failed: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Collect live git facts for a worktree
+ *
+ * @param git - SimpleGit instance rooted in the worktree
+ * @param fetch - Whether to fetch origin first
+ * @param warnings - Collector for non-fatal problems
+ */
+async function collectGitInfo(git: SimpleGit, fetch: boolean, warnings: string[]): Promise<GitInfo> {
+  const branch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+
+  if (fetch) {
+    try {
+      await git.fetch('origin');
+    } catch {
+      warnings.push('Could not fetch origin - ahead/behind counts use last fetched refs');
+    }
+  }
+
+  const status = await git.status();
+
+  let aheadOfMain = 0;
+  let behindMain = 0;
+  try {
+    const counts = await git.raw(['rev-list', '--left-right', '--count', 'origin/main...HEAD']);
+    const [behind, ahead] = counts.trim().split(/\s+/).map((n) => parseInt(n, 10));
+    behindMain = behind || 0;
+    aheadOfMain = ahead || 0;
+  } catch {
+    warnings.push('origin/main not available - ahead/behind unknown');
+  }
+
+  const log = await git.log({ maxCount: 1 });
+  const lastCommit = log.latest
+    ? {
+        hash: log.latest.hash,
+        message: log.latest.message,
+        author: log.latest.author_name,
+        date: log.latest.date,
+      }
+    : null;
+
+  let remoteBranchExists = false;
+  let unpushedCommits = 0;
+  try {
+    const remoteRef = await git.raw(['rev-parse', '--verify', '--quiet', `refs/remotes/origin/${branch}`]);
+    remoteBranchExists = remoteRef.trim() !== '';
+    if (remoteBranchExists) {
+      const unpushed = await git.raw(['rev-list', '--count', `origin/${branch}..HEAD`]);
+      unpushedCommits = parseInt(unpushed.trim(), 10) || 0;
+    }
+  } catch {
+    remoteBranchExists = false;
+  }
+
+  return {
+    branch,
+    isClean: status.isClean(),
+    dirtyFiles: status.files.map((f) => f.path),
+    aheadOfMain,
+    behindMain,
+    lastCommit,
+    remoteBranchExists,
+    unpushedCommits,
+    pushed: remoteBranchExists && unpushedCommits === 0,
+  };
+}
+
+function formatStreamInfo(info: GetStreamInfoResponse): string {
+  const { registry, metadata, git } = info;
+  const divider = '━'.repeat(68);
+
+  const title = registry?.title || metadata?.title || '(unknown)';
+  const status = registry?.status || metadata?.status || '(unknown)';
+
+  const phases = metadata?.phases.length
+    ? metadata.phases.map((p) => `  ${PHASE_MARKERS[p.status]} ${p.name}${p.name === metadata.currentPhase ? ' ← current' : ''}`).join('\n')
+    : '  (no phases defined)';
+
+  const gitSection = git ? formatGitSection(git) : '(git state unavailable)';
+
+  const warnings = info.warnings.length > 0
+    ? `\nWARNINGS\n${divider}\n${info.warnings.map((w) => `⚠️  ${w}`).join('\n')}\n`
+    : '';
+
+  return `
+STREAM INFO: ${info.streamId}
+
+${divider}
+OVERVIEW
+${divider}
+Title:           ${title}
+Status:          ${status}${metadata?.blockedReason ? ` (${metadata.blockedReason})` : ''}
+Category:        ${registry?.category || metadata?.category || '(unknown)'}
+Priority:        ${registry?.priority || metadata?.priority || '(unknown)'}
+Created:         ${registry?.createdAt || metadata?.createdAt || '(unknown)'}
+Updated:         ${registry?.updatedAt || metadata?.updatedAt || '(unknown)'}
+Parent stream:   ${registry?.parentStreamId || '(none)'}
+Tags:            ${(metadata?.tags || registry?.tags || []).join(', ') || '(none)'}
+
+${divider}
+LOCATION
+${divider}
+Worktree:        ${info.location.worktreePath}${info.location.worktreeExists ? '' : ' (MISSING)'}
+
+${divider}
+PROGRESS
+${divider}
+Progress:        ${info.progress.percentage}% (${info.progress.phasesCompleted}/${info.progress.totalPhases} phases)
+Current phase:   ${metadata?.currentPhase || 'Not started'}
+Phases:
+${phases}
+
+${divider}
+GIT
+${divider}
+${gitSection}
+${warnings}
+NEXT STEPS:
+${formatNextSteps(info).map((step) => `  ${step}`).join('\n')}`.trim();
+}
+
+function formatNextSteps(info: GetStreamInfoResponse): string[] {
+  const { git } = info;
+
+  if (!info.location.worktreeExists) {
+    return ['Worktree missing - recreate it or remove the stream from the registry'];
+  }
+
+  const steps = [`cd ${info.location.worktreePath}`];
+  if (git && !git.isClean) {
+    steps.push('Commit outstanding changes before prepare_merge');
+  }
+  if (git && git.behindMain > 0) {
+    steps.push('Stream is behind main - prepare_merge will bring it up to date');
+  }
+  return steps;
+}
+
+function formatGitSection(git: GitInfo): string {
+  const lines = [
+    `Branch:          ${git.branch}`,
+    `Working tree:    ${git.isClean ? 'Clean' : `${git.dirtyFiles.length} uncommitted file(s)`}`,
+    ...git.dirtyFiles.slice(0, 10).map((f) => `                 - ${f}`),
+  ];
+
+  if (git.dirtyFiles.length > 10) {
+    lines.push(`                 ... and ${git.dirtyFiles.length - 10} more`);
+  }
+
+  const lastCommit = git.lastCommit
+    ? `${git.lastCommit.hash.slice(0, 8)} ${git.lastCommit.message} (${git.lastCommit.author}, ${git.lastCommit.date})`
+    : '(none)';
+
+  const pushed = git.pushed
+    ? 'Yes'
+    : git.remoteBranchExists
+      ? `No (${git.unpushedCommits} unpushed commit(s))`
+      : 'No (no remote branch)';
+
+  lines.push(
+    `vs origin/main:  ${git.aheadOfMain} ahead, ${git.behindMain} behind`,
+    `Last commit:     ${lastCommit}`,
+    `Pushed:          ${pushed}`
+  );
+
+  return lines.join('\n');
+}
@@ -17,15 +17,48 @@ export async function getVersion(): Promise<MCPResponse> {
         'get_version - Get version and capabilities (safe, read-only)',
         'start_stream - Initialize new development stream',
         'verify_location - Verify worktree location (safe, read-only)',
+        'list_streams - List registered streams with filtering (safe, read-only)',
+        'get_stream_info - Registry, metadata and git state for one stream (safe, read-only)',
+        'validate_stream - Stream health check before prepare_merge (safe, read-only)',
+        'update_stream_status - Validated stream lifecycle transition',
+        'start_phase - Mark a stream phase as in progress',
+        'complete_phase - Mark a stream phase as completed and recompute progress',
         'prepare_merge - Merge main into worktree with conflict resolution',
+        'get_conflict_hunk - Read one hunk of a conflicted file omitted from the prepare_merge report (safe, read-only)',
+        'resolve_conflict - Resolve one conflict hunk in place (ours/theirs/both/custom)',
+        'apply_conflict_action - Keep one side (or a rename target) for a conflicted file',
+        'resolve_binary_conflict - Keep ours, theirs or both (renamed) for a conflicted binary file',
         'complete_merge - Fast-forward merge worktree to main',
         'complete_stream - Archive and cleanup completed stream',
+        'rollback_merge - Revert a merged stream on main under the merge lock',
+        'sync_dashboard - Reconcile registry, worktrees and branches (read-only unless force)',
+        'conflict_report - Conflict hotspots, colliding streams and strategy success rates (safe, read-only)',
+      ],
+      prompts: [
+        'conflict_resolution - Resolution prompt for one conflicted file (args: file, streamId?)',
       ],
       toolMetadata: {
-        safeToCall: ['get_version', 'verify_location'],
-        requiresUserApproval: ['prepare_merge', 'complete_merge', 'complete_stream'],
-        runInMain: ['start_stream'],
-        runInWorktree: ['verify_location', 'prepare_merge', 'complete_merge', 'complete_stream'],
+        safeToCall: [
+          'get_version',
+          'verify_location',
+          'list_streams',
+          'get_stream_info',
+          'validate_stream',
+          'get_conflict_hunk',
+          'conflict_report',
+        ],
+        requiresUserApproval: ['prepare_merge', 'complete_merge', 'complete_stream', 'rollback_merge'],
+        runInMain: ['start_stream', 'rollback_merge', 'sync_dashboard'],
+        runInWorktree: [
+          'verify_location',
+          'prepare_merge',
+          'get_conflict_hunk',
+          'resolve_conflict',
+          'apply_conflict_action',
+          'resolve_binary_conflict',
+          'complete_merge',
+          'complete_stream',
+        ],
       },
     };
 
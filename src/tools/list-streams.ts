@@ -0,0 +1,204 @@
+/**
+ * list_streams - List streams from the state registry
+ *
+ * Read-only view over .project/.stream-state.json so agents (and humans
+ * supervising many concurrent agents) can see every stream at a glance
+ * without reading the state file directly.
+ *
+ * Supports:
+ * - Filtering by status, category, priority, tag and parent stream
+ * - Sorting by createdAt, updatedAt or priority
+ * - Human-readable table (default) or JSON output
+ *
+ * @module tools/list-streams
+ */
+
+import {
+  listStreams as listRegisteredStreams,
+  getAllActiveStreams,
+  type StreamMetadata,
+} from '../state-manager.js';
+import type { MCPResponse, ListStreamsArgs, ListStreamsResponse, StreamPriority } from '../types.js';
+
+/**
+ * Priority rank used for sorting (higher = more urgent)
+ */
+const PRIORITY_RANK: Record<StreamPriority, number> = {
+  critical: 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+/**
+ * list_streams - List registered streams with filtering and sorting
+ *
+ * @param args Filter, sort and output format options
+ * @returns MCP response with table or JSON rendering
+ */
+export async function listStreams(args: ListStreamsArgs = {}): Promise<MCPResponse> {
+  const { sortBy = 'createdAt', order = 'desc', format = 'table' } = args;
+
+  try {
+    const allStreams = await listRegisteredStreams();
+    const streams = sortStreams(filterStreams(allStreams, args), sortBy, order);
+
+    const response: ListStreamsResponse = {
+      streams,
+      total: allStreams.length,
+      filtered: streams.length,
+    };
+
+    if (format === 'json') {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(response, null, 2),
+          },
+        ],
+      };
+    }
+
+    const activeStreams = await getAllActiveStreams();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatTable(response, args, new Set(Object.keys(activeStreams))),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `list_streams failed: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Apply registry filters
+ *
+ * Equality filters (status, category, priority, parentStreamId) must all
+ * match; tag matches if the stream carries the tag (case-insensitive).
+ */
+function filterStreams(streams: StreamMetadata[], args: ListStreamsArgs): StreamMetadata[] {
+  return streams.filter((stream) => {
+    if (args.status && stream.status !== args.status) return false;
+    if (args.category && stream.category !== args.category) return false;
+    if (args.priority && stream.priority !== args.priority) return false;
+    if (args.parentStreamId && stream.parentStreamId !== args.parentStreamId) return false;
+    if (args.tag) {
+      const tag = args.tag.toLowerCase();
+      if (!(stream.tags || []).some((t) => t.toLowerCase() === tag)) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Sort streams by the requested key
+ *
+ * Streams missing updatedAt fall back to createdAt so legacy entries
+ * still sort sensibly.
+ */
+function sortStreams(
+  streams: StreamMetadata[],
+  sortBy: NonNullable<ListStreamsArgs['sortBy']>,
+  order: NonNullable<ListStreamsArgs['order']>
+): StreamMetadata[] {
+  const direction = order === 'asc' ? 1 : -1;
+
+  const keyOf = (stream: StreamMetadata): number => {
+    switch (sortBy) {
+      case 'priority':
+        return PRIORITY_RANK[stream.priority] ?? 0;
+      case 'updatedAt':
+        return new Date(stream.updatedAt || stream.createdAt).getTime();
+      case 'createdAt':
+      default:
+        return new Date(stream.createdAt).getTime();
+    }
+  };
+
+  return [...streams].sort((a, b) => (keyOf(a) - keyOf(b)) * direction);
+}
+
+/**
+ * Format streams as a fixed-width table
+ */
+function formatTable(
+  response: ListStreamsResponse,
+  args: ListStreamsArgs,
+  activeIds: Set<string>
+): string {
+  const filters = [
+    args.status && `status=${args.status}`,
+    args.category && `category=${args.category}`,
+    args.priority && `priority=${args.priority}`,
+    args.tag && `tag=${args.tag}`,
+    args.parentStreamId && `parent=${args.parentStreamId}`,
+  ].filter(Boolean);
+
+  const header = `
+STREAMS (${response.filtered} of ${response.total})
+
+Filters: ${filters.length > 0 ? filters.join(', ') : 'none'}
+Sorted:  ${args.sortBy || 'createdAt'} ${args.order || 'desc'}
+`.trim();
+
+  if (response.streams.length === 0) {
+    return `${header}\n\nNo streams match.\n\nTip: Call list_streams without filters to see the whole registry.`;
+  }
+
+  const rows = response.streams.map((s) => ({
+    id: activeIds.has(s.streamId) ? `* ${s.streamId}` : `  ${s.streamId}`,
+    status: s.status,
+    priority: s.priority,
+    category: s.category,
+    updated: (s.updatedAt || s.createdAt).replace('T', ' ').slice(0, 16),
+    title: s.title,
+  }));
+
+  const columns = [
+    { key: 'id', label: '  STREAM' },
+    { key: 'status', label: 'STATUS' },
+    { key: 'priority', label: 'PRIORITY' },
+    { key: 'category', label: 'CATEGORY' },
+    { key: 'updated', label: 'UPDATED' },
+    { key: 'title', label: 'TITLE' },
+  ] as const;
+
+  const widths = columns.map((col) =>
+    Math.max(col.label.length, ...rows.map((row) => row[col.key].length))
+  );
+
+  const renderRow = (values: string[]): string =>
+    values.map((v, i) => (i === values.length - 1 ? v : v.padEnd(widths[i]))).join('  ');
+
+  const lines = [
+    renderRow(columns.map((c) => c.label)),
+    renderRow(widths.map((w) => '─'.repeat(w))),
+    ...rows.map((row) => renderRow(columns.map((c) => row[c.key]))),
+  ];
+
+  const counts = new Map<string, number>();
+  for (const s of response.streams) {
+    counts.set(s.status, (counts.get(s.status) || 0) + 1);
+  }
+  const summary = [...counts.entries()].map(([status, n]) => `${status}: ${n}`).join(', ');
+
+  return `${header}
+
+${lines.join('\n')}
+
+By status: ${summary}
+* = in active context (recently worked on)`;
+}
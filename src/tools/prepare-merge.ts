@@ -2,15 +2,16 @@
  * prepare_merge - Merge main into worktree, detect conflicts
  *
  * Implements Steps B,C,D,E,F of the Stream Completion Protocol:
- * [B] Merge main into worktree
- * [C] Detect conflicts (agent resolves them)
- * [D] Commit merge (after agent resolves)
- * [E] Run validation (typecheck, build, lint)
+ * [B] Merge main into worktree (stream migrations renumbered after main's)
+ * [C] Detect conflicts (registered strategies first, agent resolves the rest)
+ * [D] Commit merge (after agent resolves; blocked if conflict markers remain)
+ * [E] Run validation (project validators, see src/validators/)
  * [F] Push to origin
  *
- * IMPORTANT: This tool does NOT resolve conflicts itself.
- * If conflicts are detected, it returns them to the Claude Code agent,
- * which resolves them directly (because the agent IS Claude).
+ * IMPORTANT: This tool only resolves conflicts that a registered
+ * ConflictStrategy handles with high confidence (see src/strategies/).
+ * Everything else is returned to the Claude Code agent, which resolves
+ * them directly (because the agent IS Claude).
  */
 
 import { existsSync } from 'node:fs';
@@ -20,10 +21,21 @@ import { promisify } from 'node:util';
 import { simpleGit, type SimpleGit } from 'simple-git';
 
 import { config } from '../config.js';
-import type { MCPResponse } from '../types.js';
+import type { MCPResponse, AutoResolvedConflict, ConflictMarkerLocation, MigrationRename } from '../types.js';
 import { extractConflicts, formatConflictsForAgent } from '../conflict-resolver.js';
-import { runValidation } from '../validators/index.js';
+import { recordMergeConflicts, recordMergeValidation } from '../conflict-analytics.js';
+import { runStrategies, formatStrategyReport } from '../strategies/index.js';
+import { renumberMigrations } from '../strategies/migrations.js';
+import { runValidation, formatValidationResults, type ValidationRun } from '../validators/index.js';
+import { formatTestFailures } from '../validators/test-validator.js';
+import { formatDiagnostics } from '../validators/diagnostics.js';
 import { checkGitLock } from '../utils/git-lock.js';
+import { readStreamPurpose } from '../utils/stream-metadata.js';
+import {
+  findStagedConflictMarkers,
+  formatConflictMarkers,
+  installConflictMarkerHook,
+} from '../utils/conflict-markers.js';
 
 const execAsync = promisify(exec);
 
@@ -32,13 +44,15 @@ interface PrepareMergeArgs {
   validateBeforePush?: boolean;
   skipPush?: boolean;
   generateScreenshots?: boolean;
+  clearValidationCache?: boolean;
 }
 
 export async function prepareMerge(args: PrepareMergeArgs): Promise<MCPResponse> {
-  const { streamId, validateBeforePush = true, skipPush = false } = args;
+  const { streamId, validateBeforePush = true, skipPush = false, clearValidationCache = false } = args;
 
   const worktreePath = join(config.WORKTREE_ROOT, streamId);
-  const git: SimpleGit = simpleGit(worktreePath);
+  // diff3 markers include the common ancestor of each conflict hunk
+  const git: SimpleGit = simpleGit({ baseDir: worktreePath, config: ['merge.conflictStyle=diff3'] });
   const mainGit: SimpleGit = simpleGit(config.PROJECT_ROOT);
 
   try {
@@ -51,9 +65,12 @@ export async function prepareMerge(args: PrepareMergeArgs): Promise<MCPResponse>
       console.warn(`[prepare_merge] This stream can prepare, but may need to re-prepare if main changes`);
     }
 
+    // A paused merge (conflicts resolved and staged since the last call) resumes at Step D
+    const mergeInProgress = (await git.raw(['rev-parse', '--verify', '--quiet', 'MERGE_HEAD'])).trim() !== '';
+
     // Step A: Verify work is committed
     const status = await git.status();
-    if (!status.isClean()) {
+    if (!mergeInProgress && !status.isClean()) {
       return {
         content: [
           {
@@ -64,47 +81,89 @@ export async function prepareMerge(args: PrepareMergeArgs): Promise<MCPResponse>
       };
     }
 
-    // Step B: Fetch and merge main into worktree
-    console.error(`[prepare_merge] Fetching origin/main...`);
-    await git.fetch('origin', 'main');
-
-    console.error(`[prepare_merge] Merging origin/main into ${streamId}...`);
-    try {
-      await git.merge(['origin/main', '--no-edit']);
-      console.error(`[prepare_merge] Clean merge - no conflicts`);
-    } catch (mergeError) {
-      // Merge failed - check for conflicts
-      const conflictStatus = await git.status();
-      const conflictedFiles = conflictStatus.conflicted;
-
-      if (conflictedFiles.length === 0) {
-        // Some other error
-        throw mergeError;
+    // Guard the agent's own commits against leftover conflict markers too
+    if (config.FEATURES.conflictMarkerHook) {
+      const markerHook = await installConflictMarkerHook(git, worktreePath).catch((error) => {
+        console.error(`[prepare_merge] Could not install conflict marker hook: ${error}`);
+        return 'skipped';
+      });
+      if (markerHook === 'skipped') {
+        console.error(`[prepare_merge] Conflict marker hook not installed - relying on the Step D scan`);
       }
+    }
 
-      // Step C: Extract conflicts for agent resolution
-      console.error(`[prepare_merge] Conflicts detected: ${conflictedFiles.length} files`);
-      const conflicts = await extractConflicts(worktreePath, conflictedFiles, streamId);
-      const conflictReport = formatConflictsForAgent(conflicts, streamId);
+    // Step B: Fetch and merge main into worktree
+    let autoResolved: AutoResolvedConflict[] = [];
+    let migrationRenames: MigrationRename[] = [];
+    if (mergeInProgress) {
+      console.error(`[prepare_merge] Resuming paused merge in ${streamId}`);
+    } else {
+      console.error(`[prepare_merge] Fetching origin/main...`);
+      await git.fetch('origin', 'main');
+
+      const streamTip = (await git.revparse(['HEAD'])).trim();
+      console.error(`[prepare_merge] Merging origin/main into ${streamId}...`);
+      try {
+        await git.merge(['origin/main', '--no-edit']);
+        console.error(`[prepare_merge] Clean merge - no conflicts`);
 
-      // Return conflicts to agent for resolution
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `MERGE PAUSED - CONFLICTS NEED RESOLUTION
+        // Migration collisions rarely conflict textually - fix them in a follow-up commit
+        migrationRenames = await renumberMigrations(git, worktreePath, streamTip, 'origin/main');
+        if (migrationRenames.length > 0) {
+          await git.commit(`chore(${streamId}): renumber migrations after main`);
+        }
+      } catch (mergeError) {
+        // Merge failed - check for conflicts
+        const conflictStatus = await git.status();
+        const conflictedFiles = conflictStatus.conflicted;
+
+        if (conflictedFiles.length === 0) {
+          // Some other error
+          throw mergeError;
+        }
 
-${conflictReport}
+        // Step C: Renumber colliding migrations, extract conflicts, let strategies try first
+        console.error(`[prepare_merge] Conflicts detected: ${conflictedFiles.length} files`);
+        migrationRenames = await renumberMigrations(git, worktreePath, streamTip, 'origin/main');
+        const remainingFiles = migrationRenames.length > 0 ? (await git.status()).conflicted : conflictedFiles;
+        const conflicts = await extractConflicts(worktreePath, remainingFiles, streamId);
+        const strategyRun = await runStrategies(worktreePath, conflicts, streamId);
+        autoResolved = strategyRun.autoResolved;
+        await recordMergeConflicts(git, streamId, conflicts, autoResolved);
+
+        const unresolved = (await git.status()).conflicted;
+        if (unresolved.length === 0) {
+          console.error(`[prepare_merge] All ${autoResolved.length} conflict(s) auto-resolved by strategies`);
+        } else {
+          // Return remaining conflicts to agent for resolution
+          const streamPurpose = readStreamPurpose(worktreePath);
+          const strategyReport = formatStrategyReport(strategyRun);
+          const conflictReport = formatConflictsForAgent(
+            strategyRun.remaining,
+            streamId,
+            streamPurpose,
+            Math.max(0, config.CONFLICT_RESPONSE_BUDGET - strategyReport.length)
+          );
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `MERGE PAUSED - CONFLICTS NEED RESOLUTION
+
+${formatMigrationRenames(migrationRenames)}${strategyReport}${conflictReport}
 
 AFTER RESOLVING:
-1. Write resolved content to each conflicted file (use Edit tool)
-2. Stage all resolved files: git add <file>
-3. Call prepare_merge again to continue
+1. Resolve hunks with resolve_conflict (stages each file after its last hunk)
+   or write the file yourself and stage it: git add <file>
+2. Call prepare_merge again to continue
 
 The merge is paused in the worktree. Resolve conflicts and re-run this tool.`,
-          },
-        ],
-      };
+              },
+            ],
+          };
+        }
+      }
     }
 
     // If we get here, merge was clean or conflicts were already resolved
@@ -120,15 +179,29 @@ The merge is paused in the worktree. Resolve conflicts and re-run this tool.`,
 Files still in conflict:
 ${postMergeStatus.conflicted.map((f) => `  - ${f}`).join('\n')}
 
-Resolve these files and run prepare_merge again.`,
+Resolve these files (resolve_conflict / apply_conflict_action) and run prepare_merge again.`,
           },
         ],
       };
     }
 
-    // Step D: Commit if needed
-    if (!postMergeStatus.isClean()) {
+    // Step D: Commit if needed (a resumed merge needs its merge commit even if the tree matches HEAD)
+    if (mergeInProgress || !postMergeStatus.isClean()) {
       await git.add('.');
+
+      // Never commit leftover conflict markers - they would go straight to main
+      const leakedMarkers = await findStagedConflictMarkers(git);
+      if (leakedMarkers.length > 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatMarkerLeak(streamId, leakedMarkers),
+            },
+          ],
+        };
+      }
+
       await git.commit(`chore(${streamId}): merge main into stream`);
       console.error(`[prepare_merge] Merge committed`);
     }
@@ -139,12 +212,13 @@ Resolve these files and run prepare_merge again.`,
 
     // Step E: Run validation
     let validationPassed = true;
-    let validationResult = { typescript: true, build: true, lint: true, allPassed: true, errors: [] as string[] };
+    let validationResult: ValidationRun | null = null;
 
     if (validateBeforePush) {
       console.error(`[prepare_merge] Running validation...`);
-      validationResult = await runValidation(worktreePath);
+      validationResult = await runValidation(worktreePath, { clearCache: clearValidationCache });
       validationPassed = validationResult.allPassed;
+      await recordMergeValidation(git, streamId, validationPassed);
 
       if (!validationPassed) {
         return {
@@ -203,14 +277,12 @@ Resolve these files and run prepare_merge again.`,
           text: `PREPARE_MERGE COMPLETE
 
 Stream: ${streamId}
-Merge: Clean (no conflicts)
+Merge: ${formatMergeSummary(autoResolved)}
 Commit: ${commitHash.slice(0, 8)}
-
+${migrationRenames.length > 0 ? `\n${formatMigrationRenames(migrationRenames)}` : ''}
 VALIDATION:
-  TypeScript: ${validationResult.typescript ? 'PASSED' : 'FAILED'}
-  Build: ${validationResult.build ? 'PASSED' : 'FAILED'}
-  Lint: ${validationResult.lint ? 'PASSED' : 'FAILED'}
-
+${validationResult ? formatValidationResults(validationResult) : '  Skipped (validateBeforePush: false)'}
+${formatWarnings(validationResult)}
 SCREENSHOTS:
   Generated: ${screenshotsGenerated ? 'Yes ✅' : shouldGenerateScreenshots ? 'No (not applicable)' : 'Skipped (disabled)'}
   ${screenshotsGenerated ? 'Pre-push hook will detect screenshots and skip generation' : ''}
@@ -236,6 +308,29 @@ Next step: Call complete_merge({ streamId: "${streamId}" })`,
   }
 }
 
+function formatMergeSummary(autoResolved: AutoResolvedConflict[]): string {
+  if (autoResolved.length === 0) {
+    return 'Clean (no conflicts)';
+  }
+  return `${autoResolved.length} conflict(s) auto-resolved by strategies\n${autoResolved
+    .map((r) => `  - ${r.file} (${r.strategy})`)
+    .join('\n')}`;
+}
+
+function formatMigrationRenames(renames: MigrationRename[]): string {
+  if (renames.length === 0) {
+    return '';
+  }
+  let output = `MIGRATIONS RENUMBERED: ${renames.length} (collided with main's)\n`;
+  for (const r of renames) {
+    output += `  ${r.from} → ${r.to}\n`;
+    if (r.referencesUpdated.length > 0) {
+      output += `      references updated: ${r.referencesUpdated.join(', ')}\n`;
+    }
+  }
+  return output + '\n';
+}
+
 function formatUncommittedError(streamId: string, files: string[]): string {
   return `UNCOMMITTED CHANGES DETECTED
 
@@ -254,27 +349,59 @@ TO FIX:
 WHY: Merge cannot proceed with uncommitted changes.`;
 }
 
-function formatValidationFailure(
-  streamId: string,
-  result: { typescript: boolean; build: boolean; lint: boolean; errors: string[] }
-): string {
+function formatMarkerLeak(streamId: string, locations: ConflictMarkerLocation[]): string {
+  const files = [...new Set(locations.map((l) => l.file))];
+  return `CONFLICT MARKERS LEFT IN RESOLVED FILES
+
+Stream: ${streamId}
+Files: ${files.length}
+
+Markers:
+${formatConflictMarkers(locations)}
+
+The merge was NOT committed (still paused in the worktree).
+
+TO FIX:
+1. Remove the markers above (resolve_conflict for whole hunks, Edit for single lines)
+2. Stage the files: git add <file>
+3. Run prepare_merge again`;
+}
+
+function formatValidationFailure(streamId: string, result: ValidationRun): string {
+  const testFailures = result.outcomes.flatMap((o) => (o.required ? (o.result.testFailures ?? []) : []));
+  const failedTests = testFailures.length > 0 ? `\nFailed tests (${testFailures.length}):\n${formatTestFailures(testFailures)}\n` : '';
+  const diagnostics = result.outcomes
+    .filter((o) => o.required && !o.result.passed && o.result.diagnostics?.length)
+    .map((o) => `\n${o.name} diagnostics:\n${formatDiagnostics(o.result.diagnostics!)}\n`)
+    .join('');
+  const cachedNote = result.outcomes.some((o) => o.cached && !o.result.passed)
+    ? '\nFailures marked (cached) are from an earlier run on this exact tree. If nothing changed but the\ntoolchain (or a test is flaky), run prepare_merge with clearValidationCache: true.\n'
+    : '';
+
   return `VALIDATION FAILED
 
 Stream: ${streamId}
 
 Results:
-  TypeScript: ${result.typescript ? 'PASSED' : 'FAILED'}
-  Build: ${result.build ? 'PASSED' : 'FAILED'}
-  Lint: ${result.lint ? 'PASSED' : 'FAILED'}
+${formatValidationResults(result)}
 
 Errors:
 ${result.errors.slice(0, 20).map((e) => `  ${e}`).join('\n')}
 ${result.errors.length > 20 ? `  ... and ${result.errors.length - 20} more` : ''}
-
+${failedTests}${diagnostics}
 TO FIX:
 1. Fix validation errors in worktree
 2. Commit fixes
 3. Run prepare_merge again
-
+${cachedNote}
 The merge commit was created but NOT pushed.`;
 }
+
+function formatWarnings(result: ValidationRun | null): string {
+  if (!result || result.warnings.length === 0) {
+    return '';
+  }
+  return `\nWarnings (advisory):
+${result.warnings.slice(0, 10).map((w) => `  ${w}`).join('\n')}
+${result.warnings.length > 10 ? `  ... and ${result.warnings.length - 10} more\n` : ''}`;
+}
@@ -0,0 +1,136 @@
+/**
+ * resolve_binary_conflict - Pick a side for a conflicted binary file
+ *
+ * Binary files (images, PDFs, archives, fonts) have no markers to edit, so
+ * prepare_merge reports size, hash and image dimensions per side instead.
+ * The agent then picks:
+ * - ours: stream version (or delete, if the stream deleted it)
+ * - theirs: main version (or delete, if main deleted it)
+ * - both-renamed: keep both as <name>.stream<ext> and <name>.main<ext>,
+ *   remove the original path (references need updating by hand)
+ *
+ * Requires FEATURES.binaryFileSupport. The result is staged; run
+ * prepare_merge again once nothing is left.
+ *
+ * @module tools/resolve-binary-conflict
+ */
+
+import { existsSync, writeFileSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import { simpleGit, type SimpleGit } from 'simple-git';
+
+import { config } from '../config.js';
+import { hasSide, keepConflictSide, readStageBlob, readUnmergedStatuses } from '../conflict-resolver.js';
+import { describeBinary, formatBinarySide, isBinaryContent, isBinaryPath } from '../utils/binary-info.js';
+import { resolveStreamLocation } from '../utils/stream-metadata.js';
+import type { BinaryConflictChoice, MCPResponse, ResolveBinaryConflictArgs } from '../types.js';
+
+const CHOICES: BinaryConflictChoice[] = ['ours', 'theirs', 'both-renamed'];
+
+export async function resolveBinaryConflict(args: ResolveBinaryConflictArgs): Promise<MCPResponse> {
+  const { file, choice } = args;
+
+  try {
+    if (!config.FEATURES.binaryFileSupport) {
+      throw new Error(
+        'Binary conflict support is disabled. Enable FEATURES.binaryFileSupport (ENABLE_BINARY_CONFLICTS=true) ' +
+          'or resolve with apply_conflict_action keep-ours / keep-theirs'
+      );
+    }
+    if (!CHOICES.includes(choice)) {
+      throw new Error(`Unknown choice "${choice}". Valid choices: ${CHOICES.join(', ')}`);
+    }
+
+    const { streamId, worktreePath } = await resolveStreamLocation(args.streamId);
+    if (!existsSync(join(worktreePath, '.git'))) {
+      throw new Error(`Worktree not found: ${worktreePath}`);
+    }
+
+    const git: SimpleGit = simpleGit(worktreePath);
+    const statuses = await readUnmergedStatuses(git);
+    const status = statuses.get(file);
+    if (!status) {
+      throw new Error(`${file} is not in conflict. Conflicted files: ${[...statuses.keys()].join(', ') || '(none)'}`);
+    }
+
+    const ours = await readStageBlob(git, file, 2);
+    const theirs = await readStageBlob(git, file, 3);
+    const binary = isBinaryPath(file) || [ours, theirs].some((blob) => blob !== null && isBinaryContent(blob));
+    if (!binary) {
+      throw new Error(`${file} is not a binary file - edit it and stage it, or use apply_conflict_action`);
+    }
+
+    const changes: string[] = [];
+
+    if (choice === 'both-renamed') {
+      const sides: Array<[string, Buffer | null]> = [
+        ['stream', ours],
+        ['main', theirs],
+      ];
+      for (const [label, blob] of sides) {
+        if (!blob) {
+          continue;
+        }
+        const target = sideCopyPath(file, label);
+        writeFileSync(join(worktreePath, target), blob);
+        await git.add(target);
+        changes.push(`${target}: ${formatBinarySide(describeBinary(file, blob))}`);
+      }
+      await git.raw(['rm', '-f', '--quiet', '--', file]);
+      changes.push(`removed ${file} - update references to point at one of the copies`);
+    } else {
+      const blob = choice === 'ours' ? ours : theirs;
+      const label = choice === 'ours' ? 'stream' : 'main';
+      if (hasSide(status, choice) && blob) {
+        await keepConflictSide(git, file, choice);
+        changes.push(`${file}: kept ${label} version (${formatBinarySide(describeBinary(file, blob))})`);
+      } else {
+        await git.raw(['rm', '-f', '--quiet', '--', file]);
+        changes.push(`${file}: deleted (as on ${label})`);
+      }
+    }
+
+    const remaining = [...(await readUnmergedStatuses(git)).keys()];
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `
+BINARY CONFLICT RESOLVED
+
+Stream: ${streamId}
+File: ${file} (${status})
+Choice: ${choice}
+
+Changes (staged):
+${changes.map((c) => `  ✓ ${c}`).join('\n')}
+
+Remaining conflicts: ${remaining.length}
+${remaining.map((f) => `  - ${f}`).join('\n')}
+
+${remaining.length === 0 ? 'All conflicts resolved - run prepare_merge to commit the merge.' : 'Resolve the remaining files, then run prepare_merge.'}
+`.trim(),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `resolve_binary_conflict failed: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Path for one side's copy: product/shot.png → product/shot.stream.png
+ */
+export function sideCopyPath(file: string, label: string): string {
+  const ext = extname(file);
+  return ext ? `${file.slice(0, -ext.length)}.${label}${ext}` : `${file}.${label}`;
+}
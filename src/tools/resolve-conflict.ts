@@ -0,0 +1,125 @@
+/**
+ * resolve_conflict - Resolve one conflict hunk in place
+ *
+ * Cheaper and safer than rewriting the whole file: the agent names a hunk
+ * (numbered as in the prepare_merge report / get_conflict_hunk) and a
+ * resolution:
+ * - ours / theirs: keep one side
+ * - both-ours-first / both-theirs-first: keep both sides, in that order
+ * - custom: replace the hunk with the given content
+ *
+ * The hunk and its markers are replaced in the worktree file. Once no hunks
+ * remain and no marker lines are left, the file is staged. Hunks are
+ * renumbered after each call: those after the resolved hunk move up by one
+ * (resolving hunk 3 of 5 makes hunk 4 the new hunk 3), earlier ones keep
+ * their numbers.
+ *
+ * @module tools/resolve-conflict
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { simpleGit, type SimpleGit } from 'simple-git';
+
+import { parseConflictHunks, readUnmergedStatuses, resolveHunk } from '../conflict-resolver.js';
+import { scanConflictMarkers } from '../utils/conflict-markers.js';
+import { resolveStreamLocation } from '../utils/stream-metadata.js';
+import type { HunkResolution, MCPResponse, ResolveConflictArgs } from '../types.js';
+
+const RESOLUTIONS: HunkResolution[] = ['ours', 'theirs', 'both-ours-first', 'both-theirs-first', 'custom'];
+
+export async function resolveConflict(args: ResolveConflictArgs): Promise<MCPResponse> {
+  const { file, hunk, resolution } = args;
+
+  try {
+    if (!RESOLUTIONS.includes(resolution)) {
+      throw new Error(`Unknown resolution "${resolution}". Valid resolutions: ${RESOLUTIONS.join(', ')}`);
+    }
+    if (resolution === 'custom' && typeof args.content !== 'string') {
+      throw new Error('custom resolution requires content (use "" to drop the hunk)');
+    }
+
+    const { streamId, worktreePath } = await resolveStreamLocation(args.streamId);
+    if (!existsSync(join(worktreePath, '.git'))) {
+      throw new Error(`Worktree not found: ${worktreePath}`);
+    }
+
+    const git: SimpleGit = simpleGit(worktreePath);
+    const statuses = await readUnmergedStatuses(git);
+    if (!statuses.has(file)) {
+      throw new Error(`${file} is not in conflict. Conflicted files: ${[...statuses.keys()].join(', ') || '(none)'}`);
+    }
+
+    const filePath = join(worktreePath, file);
+    if (!existsSync(filePath)) {
+      throw new Error(`${file} was deleted on one side - use apply_conflict_action`);
+    }
+
+    const content = readFileSync(filePath, 'utf-8');
+    const total = parseConflictHunks(content, 0).length;
+    if (total === 0) {
+      throw new Error(`${file} has no conflict hunks - stage it with git add, or use apply_conflict_action`);
+    }
+    if (!Number.isInteger(hunk) || hunk < 1 || hunk > total) {
+      throw new Error(`Hunk ${hunk} out of range - ${file} has ${total} hunk(s)`);
+    }
+
+    const resolved = resolveHunk(content, hunk - 1, resolution, args.content);
+    const remainingHunks = parseConflictHunks(resolved, 0).length;
+    if (remainingHunks !== total - 1) {
+      throw new Error(`Resolving hunk ${hunk} would leave ${remainingHunks} hunk(s) instead of ${total - 1} - file not changed`);
+    }
+    writeFileSync(filePath, resolved, 'utf-8');
+
+    let fileStatus: string;
+    if (remainingHunks > 0) {
+      const renumbering = hunk <= remainingHunks
+        ? `hunks after ${hunk} move up by one`
+        : `hunks before ${hunk} keep their numbers`;
+      fileStatus = `${remainingHunks} hunk(s) left in ${file} (${renumbering})`;
+    } else {
+      const strayMarkers = scanConflictMarkers(resolved, file);
+      if (strayMarkers.length > 0) {
+        const lines = strayMarkers.map((m) => m.line).join(', ');
+        fileStatus = `NOT staged - marker lines left at ${file}:${lines}. Fix them, then git add ${file}`;
+      } else {
+        await git.add(file);
+        fileStatus = `All hunks resolved - ${file} staged`;
+      }
+    }
+
+    const remainingFiles = [...(await readUnmergedStatuses(git)).keys()];
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `
+HUNK RESOLVED
+
+Stream: ${streamId}
+File: ${file}
+Hunk: ${hunk}/${total} → ${resolution}
+
+${fileStatus}
+
+Remaining conflicted files: ${remainingFiles.length}
+${remainingFiles.map((f) => `  - ${f}`).join('\n')}
+
+${remainingFiles.length === 0 ? 'All conflicts resolved - run prepare_merge to commit the merge.' : 'Resolve the remaining hunks, then run prepare_merge.'}
+`.trim(),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `resolve_conflict failed: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,413 @@
+/**
+ * rollback_merge - Revert a stream's merge on main
+ *
+ * Used when a fast-forwarded stream breaks main:
+ * [1] Acquire the distributed merge lock
+ * [2] Identify the commits the stream added to main (complete_merge record)
+ * [3] Revert them in a single commit and push (never force-push; a failed
+ *     push resets local main so no unpushed revert is left behind)
+ * [4] Record the rollback in the registry and .project/history/ (and conflict analytics)
+ * [5] Optionally reopen the worktree with the stream's changes restored
+ *     (registry, METADATA.json and STATUS.md back to active)
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { join, basename } from 'node:path';
+import { simpleGit, type SimpleGit } from 'simple-git';
+
+import { config } from '../config.js';
+import { getStream, updateStream } from '../state-manager.js';
+import { recordRollback } from '../conflict-analytics.js';
+import { acquireGitLock, releaseGitLock, formatGitLockError } from '../utils/git-lock.js';
+import {
+  readWorktreeMetadata,
+  writeWorktreeMetadata,
+  writeStatusFile,
+  commitStreamDocs,
+  STREAM_DOC_FILES,
+} from '../utils/stream-metadata.js';
+import type { MCPResponse, RollbackMergeArgs, RollbackMergeResponse } from '../types.js';
+
+export async function rollbackMerge(args: RollbackMergeArgs): Promise<MCPResponse> {
+  const { streamId, targetCommit, reason, reopenWorktree = false } = args;
+
+  const mainPath = config.PROJECT_ROOT;
+  const git: SimpleGit = simpleGit(mainPath);
+
+  const response: RollbackMergeResponse = {
+    success: false,
+    streamId,
+    revertedCommits: [],
+    revertCommitHash: '',
+    pushedToOrigin: false,
+    archivedTo: '',
+    worktreeReopened: false,
+  };
+  const warnings: string[] = [];
+
+  let lockAcquired = false;
+  let unpushedSince: string | null = null; // Local main before our unpushed commits
+
+  try {
+    if (!reason || !reason.trim()) {
+      throw new Error('reason is required - it is recorded in the registry and history archive');
+    }
+
+    const stream = await getStream(streamId);
+    const baseCommit = targetCommit || stream?.lastMerge?.baseCommit;
+    if (!baseCommit) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatNoMergeRecord(streamId),
+          },
+        ],
+      };
+    }
+    const headRef = stream?.lastMerge?.headCommit || streamId;
+
+    // Step 1: Acquire distributed git-based merge lock
+    const lockResult = await acquireGitLock(git, streamId, 'rollback_merge');
+    if (!lockResult.acquired) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatGitLockError(streamId, lockResult.lockInfo),
+          },
+        ],
+      };
+    }
+
+    lockAcquired = true;
+
+    const currentBranch = await git.revparse(['--abbrev-ref', 'HEAD']);
+    if (currentBranch.trim() !== 'main') {
+      console.error(`[rollback_merge] Switching to main branch...`);
+      await git.checkout('main');
+    }
+
+    const status = await git.status();
+    if (!status.isClean()) {
+      throw new Error(
+        `Main has uncommitted changes (${status.files.length} file(s)). Commit or stash them before rolling back.`
+      );
+    }
+
+    console.error(`[rollback_merge] Pulling latest main...`);
+    await git.pull('origin', 'main');
+    const mainBefore = (await git.revparse(['HEAD'])).trim();
+
+    // Step 2: Identify the stream's commits on main
+    const headCommit = (await git.revparse([headRef])).trim();
+    const mergeBase = (await git.raw(['merge-base', headCommit, 'HEAD'])).trim();
+    if (mergeBase !== headCommit) {
+      throw new Error(`${headRef} (${headCommit.slice(0, 8)}) is not on main - nothing to roll back`);
+    }
+
+    // Merge commits come from prepare_merge bringing main into the stream;
+    // their content is already on main, so only the stream's own commits are reverted
+    const commits = (await git.raw(['rev-list', '--no-merges', `${baseCommit}..${headCommit}`]))
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+
+    if (commits.length === 0) {
+      throw new Error(`No commits between ${baseCommit.slice(0, 8)} and ${headCommit.slice(0, 8)} - nothing to roll back`);
+    }
+    response.revertedCommits = commits;
+
+    // Step 3: Revert (newest first) into one commit
+    console.error(`[rollback_merge] Reverting ${commits.length} commit(s) from ${streamId}...`);
+    unpushedSince = mainBefore;
+    try {
+      await git.raw(['revert', '--no-commit', ...commits]);
+    } catch (revertError) {
+      await git.raw(['revert', '--abort']).catch(() => {});
+      await releaseGitLock(git);
+      lockAcquired = false;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatRevertConflict(streamId, commits, revertError),
+          },
+        ],
+      };
+    }
+
+    await git.commit(
+      `revert(${streamId}): roll back merge\n\nReason: ${reason}\n\nReverted commits:\n${commits.map((c) => `- ${c}`).join('\n')}`
+    );
+    response.revertCommitHash = (await git.revparse(['HEAD'])).trim();
+
+    // Step 4: Archive the rollback alongside completed-stream reports
+    const historyDir = join(mainPath, '.project/history');
+    if (!existsSync(historyDir)) {
+      mkdirSync(historyDir, { recursive: true });
+    }
+    const date = new Date().toISOString().split('T')[0].replace(/-/g, '');
+    const archivePath = join(historyDir, `${date}_${streamId}-ROLLBACK.md`);
+    writeFileSync(archivePath, generateRollbackReport(streamId, reason, commits, response.revertCommitHash));
+    await git.add(archivePath);
+    await git.commit(`docs: Record rollback of ${streamId}`);
+    response.archivedTo = archivePath;
+
+    console.error(`[rollback_merge] Pushing main to origin...`);
+    try {
+      await git.push('origin', 'main');
+    } catch (pushError) {
+      // Unpushed revert commits would be built on by the next merge - drop them
+      await git.raw(['reset', '--hard', mainBefore]);
+      unpushedSince = null;
+      await releaseGitLock(git);
+      lockAcquired = false;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatPushFailed(streamId, mainBefore, pushError),
+          },
+        ],
+      };
+    }
+    response.pushedToOrigin = true;
+    unpushedSince = null;
+
+    await releaseGitLock(git);
+    lockAcquired = false;
+
+    if (stream) {
+      await updateStream(streamId, {
+        rollbacks: [
+          ...(stream.rollbacks || []),
+          {
+            reason,
+            revertedCommits: commits,
+            revertCommit: response.revertCommitHash,
+            rolledBackAt: new Date().toISOString(),
+          },
+        ],
+      });
+    } else {
+      warnings.push('Stream is not in the state registry - rollback recorded in history archive only');
+    }
+    recordRollback(streamId, response.revertCommitHash);
+
+    // Step 5: Reopen worktree on top of main with the stream's changes restored
+    if (reopenWorktree) {
+      try {
+        const worktreePath = await reopenStreamWorktree(git, streamId, response.revertCommitHash);
+        response.worktreeReopened = true;
+
+        if (stream) {
+          // Rollback is the one sanctioned way back from completed/ready-for-merge
+          await updateStream(streamId, { status: 'active' });
+        }
+        await reactivateStreamDocs(worktreePath, streamId, warnings);
+      } catch (error) {
+        warnings.push(
+          `Could not reopen worktree: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    response.success = true;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatSuccess(response, reason, warnings),
+        },
+      ],
+    };
+  } catch (error) {
+    // Don't leave an unpushed revert on main for the next merge to build on
+    let resetNote = '';
+    if (unpushedSince) {
+      resetNote = await git.raw(['reset', '--hard', unpushedSince]).then(
+        () => `\nLocal main was reset to ${unpushedSince!.slice(0, 8)} (nothing was pushed)`,
+        (resetError) => `\nLocal main still has unpushed rollback commits - reset it manually: git reset --hard ${unpushedSince} (${resetError})`
+      );
+    }
+
+    if (lockAcquired) {
+      await releaseGitLock(git);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `rollback_merge failed: ${errorMessage}\n\nStream: ${streamId}\nMain: ${mainPath}${resetNote}`,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Recreate (if needed) and fast-forward the stream worktree to main,
+ * then revert the rollback commit inside it so the stream's changes are
+ * back on top of current main, ready for a fix.
+ */
+async function reopenStreamWorktree(git: SimpleGit, streamId: string, revertCommit: string): Promise<string> {
+  const worktreePath = join(config.WORKTREE_ROOT, streamId);
+
+  if (!existsSync(worktreePath)) {
+    console.error(`[rollback_merge] Recreating worktree ${streamId}...`);
+    const branches = await git.branchLocal();
+    if (branches.all.includes(streamId)) {
+      await git.raw(['worktree', 'add', worktreePath, streamId]);
+    } else {
+      await git.raw(['worktree', 'add', worktreePath, '-b', streamId, 'main']);
+    }
+  }
+
+  const worktreeGit = simpleGit(worktreePath);
+  const status = await worktreeGit.status();
+  if (!status.isClean()) {
+    throw new Error(`worktree ${worktreePath} has uncommitted changes`);
+  }
+
+  await worktreeGit.merge(['main', '--ff-only']);
+  await worktreeGit.raw(['revert', '--no-edit', revertCommit]);
+  return worktreePath;
+}
+
+/**
+ * Mark the reopened worktree's METADATA.json and STATUS.md active again,
+ * matching the registry
+ */
+async function reactivateStreamDocs(worktreePath: string, streamId: string, warnings: string[]): Promise<void> {
+  const metadata = readWorktreeMetadata(worktreePath);
+  if (!metadata) {
+    warnings.push(`METADATA.json not found in ${worktreePath} - only the registry was reactivated`);
+    return;
+  }
+
+  const previousStatus = metadata.status;
+  metadata.status = 'active';
+  metadata.completedAt = null;
+  metadata.blockedReason = null;
+  metadata.updatedAt = new Date().toISOString();
+  writeWorktreeMetadata(worktreePath, metadata);
+  writeStatusFile(worktreePath, metadata);
+
+  try {
+    await commitStreamDocs(worktreePath, `chore(${streamId}): status ${previousStatus} → active (rolled back)`);
+  } catch (error) {
+    warnings.push(
+      `Could not commit ${STREAM_DOC_FILES.join(', ')}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+function generateRollbackReport(
+  streamId: string,
+  reason: string,
+  commits: string[],
+  revertCommitHash: string
+): string {
+  return `# Stream Rolled Back: ${streamId}
+
+**Date**: ${new Date().toISOString().split('T')[0]}
+**Stream**: ${streamId}
+**Revert Commit**: ${revertCommitHash}
+
+---
+
+## Reason
+
+${reason}
+
+## Reverted Commits
+
+${commits.map((c) => `- ${c}`).join('\n')}
+
+---
+
+**Rolled back**: ${new Date().toISOString()}
+`;
+}
+
+function formatSuccess(response: RollbackMergeResponse, reason: string, warnings: string[]): string {
+  const worktreePath = join(config.WORKTREE_ROOT, response.streamId);
+
+  const nextSteps = response.worktreeReopened
+    ? `WORKTREE REOPENED (status: active):
+  cd ${worktreePath}
+  The stream's changes are restored on top of main. Fix, commit,
+  then prepare_merge and complete_merge as usual.`
+    : `NEXT STEP:
+  To fix and re-land the stream, call rollback_merge with reopenWorktree: true
+  or restore the changes manually with: git revert ${response.revertCommitHash}`;
+
+  return `
+ROLLBACK_MERGE SUCCESS
+
+Stream: ${response.streamId}
+Reason: ${reason}
+Reverted Commits: ${response.revertedCommits.length}
+Revert Commit: ${response.revertCommitHash}
+Pushed to Origin: ${response.pushedToOrigin ? 'Yes' : 'No'}
+Archived To: ${basename(response.archivedTo)}
+${warnings.length > 0 ? `\nWARNINGS:\n${warnings.map((w) => `  - ${w}`).join('\n')}\n` : ''}
+${nextSteps}
+`.trim();
+}
+
+function formatNoMergeRecord(streamId: string): string {
+  return `
+NO MERGE RECORD FOR ${streamId}
+
+The registry has no complete_merge record for this stream, so the commit
+range it added to main is unknown.
+
+TO FIX:
+1. Find the main commit just before the stream landed:
+   git log --oneline main
+
+2. Call rollback_merge again with targetCommit set to that commit:
+   rollback_merge({ streamId: "${streamId}", targetCommit: "<hash>", reason: "..." })
+`.trim();
+}
+
+function formatPushFailed(streamId: string, mainBefore: string, error: unknown): string {
+  const errorMsg = error instanceof Error ? error.message : String(error);
+  return `
+ROLLBACK PUSH FAILED
+
+Stream: ${streamId}
+Error: ${errorMsg}
+
+The revert could not be pushed to origin. Local main was reset to
+${mainBefore.slice(0, 8)} (its state before the rollback) and the lock was
+released - nothing was rolled back or recorded.
+
+TO FIX:
+1. Check access to origin: git push origin main --dry-run
+2. Call rollback_merge again
+`.trim();
+}
+
+function formatRevertConflict(streamId: string, commits: string[], error: unknown): string {
+  const errorMsg = error instanceof Error ? error.message : String(error);
+  return `
+ROLLBACK CONFLICT
+
+Stream: ${streamId}
+Error: ${errorMsg}
+
+Reverting ${commits.length} commit(s) conflicts with later work on main.
+The revert was aborted - main is unchanged and the lock was released.
+
+TO FIX:
+1. Identify which later commits touch the same files
+2. Revert manually in a worktree, resolve conflicts, and land via
+   prepare_merge / complete_merge
+`.trim();
+}
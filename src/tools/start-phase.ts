@@ -0,0 +1,110 @@
+/**
+ * start_phase - Mark a stream phase as in progress
+ *
+ * Updates the phase list in the worktree METADATA.json, re-renders STATUS.md
+ * and commits both. Starting the first phase of an `initializing` stream
+ * also moves the stream to `active`.
+ *
+ * @module tools/start-phase
+ */
+
+import { existsSync } from 'node:fs';
+
+import { updateStream } from '../state-manager.js';
+import {
+  resolveStreamLocation,
+  readWorktreeMetadata,
+  writeWorktreeMetadata,
+  writeStatusFile,
+  commitStreamDocs,
+  STREAM_DOC_FILES,
+} from '../utils/stream-metadata.js';
+import { findPhase, computePhaseProgress, formatUnknownPhase } from '../utils/phases.js';
+import { PHASE_TRACKING_STATUSES, formatPhaseStatusError } from '../utils/stream-status.js';
+import type { MCPResponse, StartPhaseArgs } from '../types.js';
+
+/**
+ * start_phase - Begin work on a named phase
+ *
+ * @param args Stream ID and phase name (matched case-insensitively)
+ * @returns MCP response with updated phase list
+ */
+export async function startPhase(args: StartPhaseArgs): Promise<MCPResponse> {
+  try {
+    const { streamId, worktreePath, registry } = await resolveStreamLocation(args.streamId);
+    const metadata = existsSync(worktreePath) ? readWorktreeMetadata(worktreePath) : null;
+
+    if (!metadata) {
+      throw new Error(`METADATA.json not found in ${worktreePath}. Cannot track phases.`);
+    }
+    const status = registry?.status ?? metadata.status;
+    if (status !== 'initializing' && !PHASE_TRACKING_STATUSES.includes(status)) {
+      throw new Error(formatPhaseStatusError(streamId, status, 'started'));
+    }
+
+    const phase = findPhase(metadata.phases, args.phaseName);
+    if (!phase) {
+      throw new Error(formatUnknownPhase(args.phaseName, metadata.phases));
+    }
+    if (phase.status === 'completed') {
+      throw new Error(`Phase "${phase.name}" is already completed (${phase.completedAt}).`);
+    }
+
+    const timestamp = new Date().toISOString();
+    const warnings: string[] = [];
+
+    phase.status = 'in_progress';
+    phase.startedAt = phase.startedAt ?? timestamp;
+    metadata.currentPhase = phase.name;
+    metadata.progress = computePhaseProgress(metadata.phases);
+    metadata.updatedAt = timestamp;
+
+    let activated = false;
+    if (registry?.status === 'initializing') {
+      await updateStream(streamId, { status: 'active' });
+      metadata.status = 'active';
+      activated = true;
+    } else if (!registry) {
+      warnings.push('Stream is not in the state registry - only METADATA.json was updated');
+    }
+
+    writeWorktreeMetadata(worktreePath, metadata);
+    writeStatusFile(worktreePath, metadata);
+
+    try {
+      await commitStreamDocs(worktreePath, `chore(${streamId}): start phase "${phase.name}"`);
+    } catch (error) {
+      warnings.push(
+        `Could not commit ${STREAM_DOC_FILES.join(', ')}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const warningText = warnings.length > 0
+      ? `\n\nWARNINGS:\n${warnings.map((w) => `⚠️  ${w}`).join('\n')}`
+      : '';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `▶️  PHASE STARTED: ${phase.name}
+
+Stream:    ${streamId}${activated ? ' (initializing → active)' : ''}
+Progress:  ${metadata.progress}%
+
+When the phase is done, call complete_phase with phaseName "${phase.name}".${warningText}`,
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `start_phase failed: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
@@ -38,6 +38,8 @@ import { simpleGit, type SimpleGit } from 'simple-git';
 import { config } from '../config.js';
 import { getNextStreamId, registerStream, setActiveStream } from '../state-manager.js';
 import { renderTemplate } from '../utils/template-renderer.js';
+import { createPhase } from '../utils/phases.js';
+import { installConflictMarkerHook } from '../utils/conflict-markers.js';
 import type { StartStreamArgs, MCPResponse } from '../types.js';
 import { categorizeFiles, generateUncommittedChangesError } from '../utils/file-categorizer.js';
 
@@ -295,7 +297,7 @@ async function createDocsetInWorktree(
     completedAt: null,
     branch: streamId,
     worktreePath,
-    phases: args.estimatedPhases || [],
+    phases: (args.estimatedPhases || []).map((phase) => createPhase(phase)),
     currentPhase: null,
     progress: 0,
     tags: args.tags || [],
@@ -513,6 +515,8 @@ async function updateState(
     createdAt: timestamp,
     worktreePath,
     branch: streamId,
+    parentStreamId: args.subStreamOf,
+    tags: args.tags || [],
   });
 }
 
@@ -633,8 +637,13 @@ export async function startStream(args: StartStreamArgs): Promise<MCPResponse> {
       args
     );
 
-    // Phase 7: Install post-commit hooks
+    // Phase 7: Install post-commit hooks (and the opt-in conflict marker pre-commit guard)
     const hooksInstalled = await installHooks(worktreePath);
+    if (config.FEATURES.conflictMarkerHook) {
+      await installConflictMarkerHook(simpleGit(worktreePath), worktreePath).catch((error) => {
+        console.error(`[start-stream] ⚠️  Failed to install conflict marker hook:`, error);
+      });
+    }
 
     // Phase 8: Register with dashboard API
     const dashboardRegistered = await registerStreamWithDashboard(
@@ -0,0 +1,187 @@
+/**
+ * sync_dashboard - Reconcile registry, worktrees, branches and active context
+ *
+ * Reports every discrepancy between:
+ * - Registry (.project/.stream-state.json streams)
+ * - git worktree list
+ * - Local/remote stream-* branches
+ * - activeStreams context entries
+ *
+ * With force: true, repairs what can be repaired safely:
+ * - Unregistered worktree → re-register from its METADATA.json
+ * - Registry entry with no worktree → mark archived
+ * - Prunable worktree → git worktree prune
+ * - Orphaned local branch → delete if merged into main (git branch -d)
+ * - Stale activeStreams entry → clear
+ *
+ * Remote branches and worktrees without METADATA.json are only reported.
+ */
+
+import { simpleGit, type SimpleGit } from 'simple-git';
+
+import { config } from '../config.js';
+import { loadState, registerStream, updateStream, clearActiveStream } from '../state-manager.js';
+import { readWorktreeMetadata } from '../utils/stream-metadata.js';
+import { collectSnapshot, findDiscrepancies, type Discrepancy } from '../utils/stream-reconciler.js';
+import type { MCPResponse, SyncDashboardArgs, SyncDashboardResponse } from '../types.js';
+
+export async function syncDashboard(args: SyncDashboardArgs = {}): Promise<MCPResponse> {
+  const { force = false } = args;
+  const git: SimpleGit = simpleGit(config.PROJECT_ROOT);
+
+  try {
+    try {
+      await git.fetch(['origin', '--prune']);
+    } catch {
+      console.error(`[sync_dashboard] Warning: Could not fetch origin - remote branches may be stale`);
+    }
+
+    const state = await loadState();
+    const snapshot = await collectSnapshot(git, state.streams, state.activeStreams || {});
+    const discrepancies = findDiscrepancies(snapshot);
+
+    const response: SyncDashboardResponse = {
+      success: true,
+      streamsFound: Object.keys(state.streams).length,
+      streamsUpdated: 0,
+      orphanedWorktrees: discrepancies
+        .filter((d) => d.kind === 'unregistered-worktree')
+        .map((d) => d.worktreePath!),
+      missingStreamFiles: discrepancies
+        .filter((d) => d.kind === 'missing-metadata')
+        .map((d) => d.worktreePath!),
+      discrepancies,
+      repaired: [],
+      repairFailures: [],
+    };
+
+    if (force) {
+      await repairDiscrepancies(git, discrepancies, response);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatReport(response, force),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `sync_dashboard failed: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Apply repairs for every repairable discrepancy
+ * Each repair is independent - one failure does not stop the rest.
+ */
+async function repairDiscrepancies(
+  git: SimpleGit,
+  discrepancies: Discrepancy[],
+  response: SyncDashboardResponse
+): Promise<void> {
+  let pruned = false;
+
+  for (const d of discrepancies) {
+    if (!d.repair) {
+      continue;
+    }
+
+    try {
+      switch (d.kind) {
+        case 'unregistered-worktree': {
+          const metadata = readWorktreeMetadata(d.worktreePath!);
+          if (!metadata) {
+            throw new Error('METADATA.json unreadable');
+          }
+          await registerStream({
+            streamId: d.streamId,
+            streamNumber: metadata.streamNumber,
+            title: metadata.title,
+            category: metadata.category,
+            priority: metadata.priority,
+            status: metadata.status,
+            createdAt: metadata.createdAt,
+            worktreePath: d.worktreePath!,
+            branch: metadata.branch || d.streamId,
+            tags: metadata.tags || [],
+          });
+          response.streamsUpdated++;
+          break;
+        }
+
+        case 'missing-worktree':
+          // Reconciliation records what already happened, so it is not bound by the status graph
+          await updateStream(d.streamId, { status: 'archived' });
+          response.streamsUpdated++;
+          break;
+
+        case 'prunable-worktree':
+          if (!pruned) {
+            await git.raw(['worktree', 'prune']);
+            pruned = true;
+          }
+          break;
+
+        case 'orphaned-branch':
+          await git.branch(['-d', d.streamId]);
+          break;
+
+        case 'stale-active-stream':
+          await clearActiveStream(d.streamId);
+          break;
+      }
+
+      response.repaired.push(`${d.streamId}: ${d.repair}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      response.repairFailures.push(`${d.streamId}: ${d.repair} failed - ${errorMessage.split('\n')[0]}`);
+    }
+  }
+}
+
+function formatReport(response: SyncDashboardResponse, force: boolean): string {
+  const { discrepancies } = response;
+
+  if (discrepancies.length === 0) {
+    return `
+SYNC_DASHBOARD: ALL CONSISTENT
+
+Registered streams: ${response.streamsFound}
+Registry, worktrees, branches and active context agree.
+`.trim();
+  }
+
+  const lines = discrepancies.map(
+    (d) => `  [${d.kind}] ${d.streamId}\n      ${d.detail}\n      repair: ${d.repair || 'manual'}`
+  );
+
+  const repairSection = force
+    ? `
+REPAIRED (${response.repaired.length}):
+${response.repaired.map((r) => `  ✓ ${r}`).join('\n') || '  (none)'}
+${response.repairFailures.length > 0 ? `\nFAILED (${response.repairFailures.length}):\n${response.repairFailures.map((r) => `  ✗ ${r}`).join('\n')}\n` : ''}
+Registry entries updated: ${response.streamsUpdated}`
+    : `
+TO FIX:
+  Run sync_dashboard with force: true to apply the repairs listed above.
+  Items marked "manual" need a human decision.`;
+
+  return `
+SYNC_DASHBOARD: ${discrepancies.length} DISCREPANCIES
+
+Registered streams: ${response.streamsFound}
+
+${lines.join('\n\n')}
+${repairSection}
+`.trim();
+}
@@ -0,0 +1,160 @@
+/**
+ * update_stream_status - Move a stream through its lifecycle
+ *
+ * Validates the change against the status state machine, then writes it to:
+ * 1. Registry (.project/.stream-state.json)
+ * 2. Worktree METADATA.json
+ * 3. Worktree STATUS.md (re-rendered from metadata)
+ *
+ * The two worktree files are committed on their own so the worktree stays
+ * clean for prepare_merge. Any other staged work is left untouched.
+ *
+ * @module tools/update-stream-status
+ */
+
+import { existsSync } from 'node:fs';
+
+import { updateStream } from '../state-manager.js';
+import {
+  resolveStreamLocation,
+  readWorktreeMetadata,
+  writeWorktreeMetadata,
+  writeStatusFile,
+  commitStreamDocs,
+  STREAM_DOC_FILES,
+} from '../utils/stream-metadata.js';
+import { isStreamStatus, isValidTransition, getAllowedTransitions } from '../utils/stream-status.js';
+import type {
+  MCPResponse,
+  StreamStatus,
+  UpdateStreamStatusArgs,
+  UpdateStreamStatusResponse,
+} from '../types.js';
+
+/**
+ * update_stream_status - Validated status transition
+ *
+ * @param args Stream ID, new status and optional phase/progress/blocked reason
+ * @returns MCP response describing the transition, or why it was rejected
+ */
+export async function updateStreamStatus(args: UpdateStreamStatusArgs): Promise<MCPResponse> {
+  try {
+    const { status, currentPhase, progress } = args;
+    const blockedReason = args.blockedReason?.trim();
+
+    if (!isStreamStatus(status)) {
+      throw new Error(`Unknown status "${status}"`);
+    }
+    if (status === 'blocked' && !blockedReason) {
+      throw new Error('blockedReason is required when setting status to "blocked"');
+    }
+    if (progress !== undefined && (progress < 0 || progress > 100)) {
+      throw new Error(`progress must be between 0 and 100 (got ${progress})`);
+    }
+
+    const { streamId, worktreePath, registry } = await resolveStreamLocation(args.streamId);
+    if (!registry) {
+      throw new Error(`Stream ${streamId} not found in state registry. Cannot update status.`);
+    }
+
+    const previousStatus = registry.status;
+    if (!isValidTransition(previousStatus, status)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatIllegalTransition(streamId, previousStatus, status),
+          },
+        ],
+      };
+    }
+
+    await updateStream(streamId, { status });
+
+    const warnings: string[] = [];
+    const metadata = existsSync(worktreePath) ? readWorktreeMetadata(worktreePath) : null;
+
+    if (metadata) {
+      const timestamp = new Date().toISOString();
+      metadata.status = status;
+      metadata.updatedAt = timestamp;
+      metadata.blockedReason = status === 'blocked' ? blockedReason! : null;
+      if (status === 'completed' && !metadata.completedAt) {
+        metadata.completedAt = timestamp;
+      }
+      if (currentPhase !== undefined) {
+        metadata.currentPhase = currentPhase;
+      }
+      if (progress !== undefined) {
+        metadata.progress = progress;
+      }
+
+      writeWorktreeMetadata(worktreePath, metadata);
+      writeStatusFile(worktreePath, metadata);
+
+      try {
+        await commitStreamDocs(worktreePath, `chore(${streamId}): status ${previousStatus} → ${status}`);
+      } catch (error) {
+        warnings.push(
+          `Could not commit ${STREAM_DOC_FILES.join(', ')}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    } else {
+      warnings.push(`METADATA.json not found in ${worktreePath} - only the registry was updated`);
+    }
+
+    const response: UpdateStreamStatusResponse = {
+      success: true,
+      streamId,
+      previousStatus,
+      newStatus: status,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatSuccess(response, warnings),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `update_stream_status failed: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
+
+function formatSuccess(response: UpdateStreamStatusResponse, warnings: string[]): string {
+  const { streamId, previousStatus, newStatus } = response;
+  const next = getAllowedTransitions(newStatus);
+
+  const warningText = warnings.length > 0
+    ? `\n\nWARNINGS:\n${warnings.map((w) => `⚠️  ${w}`).join('\n')}`
+    : '';
+
+  return `✅ STATUS UPDATED: ${streamId}
+
+${previousStatus} → ${newStatus}
+
+Allowed next: ${next.length > 0 ? next.join(', ') : '(none - terminal status)'}${warningText}`;
+}
+
+function formatIllegalTransition(streamId: string, from: StreamStatus, to: StreamStatus): string {
+  const allowed = getAllowedTransitions(from);
+
+  return `❌ ILLEGAL STATUS TRANSITION: ${streamId}
+
+Cannot move from "${from}" to "${to}".
+
+Allowed from "${from}": ${allowed.length > 0 ? allowed.join(', ') : '(none - terminal status)'}
+
+WHY: Status changes follow a fixed lifecycle so the registry always
+reflects what actually happened to the stream. Nothing was changed.`;
+}
@@ -0,0 +1,227 @@
+/**
+ * validate_stream - Stream health check
+ *
+ * Runs every check an agent would otherwise do by hand before prepare_merge:
+ * - Worktree exists and is a git worktree
+ * - Stream branch exists and is checked out
+ * - METADATA.json present and schema-valid
+ * - No unresolved conflicts or leftover MERGE_HEAD (or rebase/cherry-pick/revert)
+ * - Up to date with origin/main (divergence reported)
+ * - Branch tracks origin/<streamId>
+ * - post-commit hook installed
+ *
+ * Issues block prepare_merge; warnings are worth knowing about but do not.
+ * Read-only apart from an optional `git fetch origin`.
+ *
+ * @module tools/validate-stream
+ */
+
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { isAbsolute, join } from 'node:path';
+import { simpleGit, type SimpleGit } from 'simple-git';
+
+import { resolveStreamLocation, validateMetadataSchema } from '../utils/stream-metadata.js';
+import type { MCPResponse, ValidateStreamArgs, ValidateStreamResponse } from '../types.js';
+
+/**
+ * In-progress operation markers (relative to the worktree git dir)
+ */
+const IN_PROGRESS_MARKERS: Record<string, string> = {
+  MERGE_HEAD: 'merge',
+  CHERRY_PICK_HEAD: 'cherry-pick',
+  REVERT_HEAD: 'revert',
+  'rebase-merge': 'rebase',
+  'rebase-apply': 'rebase',
+};
+
+/**
+ * validate_stream - Report issues and warnings for one stream
+ *
+ * @param args streamId (optional, inferred from cwd) and fetch flag
+ * @returns MCP response with check results
+ */
+export async function validateStream(args: ValidateStreamArgs = {}): Promise<MCPResponse> {
+  const { fetch = true } = args;
+
+  try {
+    const { streamId, worktreePath, registry } = await resolveStreamLocation(args.streamId);
+
+    const response: ValidateStreamResponse = {
+      valid: false,
+      issues: [],
+      warnings: [],
+      checks: {
+        worktreeExists: false,
+        branchExists: false,
+        streamFileValid: false,
+        noConflicts: false,
+        upToDate: false,
+        tracksRemote: false,
+        hooksInstalled: false,
+      },
+      divergence: null,
+    };
+    const { issues, warnings, checks } = response;
+
+    if (!registry) {
+      warnings.push('Stream is not in the state registry - run sync_dashboard to reconcile');
+    }
+
+    // Worktree
+    checks.worktreeExists = existsSync(join(worktreePath, '.git'));
+    if (!checks.worktreeExists) {
+      issues.push(`Worktree missing or not a git worktree: ${worktreePath}`);
+      return formatResponse(streamId, worktreePath, response);
+    }
+
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    // Branch
+    const localBranches = await git.branchLocal();
+    checks.branchExists = localBranches.all.includes(streamId);
+    if (!checks.branchExists) {
+      issues.push(`Branch ${streamId} does not exist`);
+    } else if (localBranches.current !== streamId) {
+      issues.push(`Worktree is on "${localBranches.current || '(detached HEAD)'}" instead of ${streamId}`);
+    }
+
+    // METADATA.json
+    checkMetadata(worktreePath, streamId, response);
+
+    // Conflicts and interrupted operations
+    const unmerged = (await git.raw(['diff', '--name-only', '--diff-filter=U']))
+      .split('\n')
+      .filter(Boolean);
+    const inProgress = await findInProgressOperations(git, worktreePath);
+    checks.noConflicts = unmerged.length === 0 && inProgress.length === 0;
+    if (unmerged.length > 0) {
+      issues.push(`${unmerged.length} file(s) with unresolved conflicts: ${unmerged.slice(0, 5).join(', ')}`);
+    }
+    for (const operation of inProgress) {
+      issues.push(`Unfinished ${operation} in progress - finish it or run: git ${operation} --abort`);
+    }
+
+    const status = await git.status();
+    if (!status.isClean() && unmerged.length === 0) {
+      warnings.push(`${status.files.length} uncommitted file(s) - prepare_merge requires a clean worktree`);
+    }
+
+    // Divergence from origin/main
+    if (fetch) {
+      try {
+        await git.fetch('origin');
+      } catch {
+        warnings.push('Could not fetch origin - divergence uses last fetched refs');
+      }
+    }
+    try {
+      const counts = await git.raw(['rev-list', '--left-right', '--count', 'origin/main...HEAD']);
+      const [behind, ahead] = counts.trim().split(/\s+/).map((n) => parseInt(n, 10));
+      response.divergence = { ahead: ahead || 0, behind: behind || 0 };
+      checks.upToDate = response.divergence.behind === 0;
+      if (!checks.upToDate) {
+        warnings.push(`${response.divergence.behind} commit(s) behind origin/main - prepare_merge will merge them`);
+      }
+    } catch {
+      warnings.push('origin/main not available - cannot check divergence');
+    }
+
+    // Upstream tracking
+    const upstream = (
+      await git.raw(['for-each-ref', '--format=%(upstream:short)', `refs/heads/${streamId}`])
+    ).trim();
+    checks.tracksRemote = upstream === `origin/${streamId}`;
+    if (!upstream) {
+      warnings.push(`Branch has no upstream yet - prepare_merge pushes to origin/${streamId}`);
+    } else if (!checks.tracksRemote) {
+      issues.push(`Branch tracks ${upstream} instead of origin/${streamId}`);
+    }
+
+    // Hooks
+    const hookPath = (await git.raw(['rev-parse', '--git-path', 'hooks/post-commit'])).trim();
+    const resolvedHookPath = isAbsolute(hookPath) ? hookPath : join(worktreePath, hookPath);
+    checks.hooksInstalled = existsSync(resolvedHookPath) && (statSync(resolvedHookPath).mode & 0o111) !== 0;
+    if (!checks.hooksInstalled) {
+      warnings.push('post-commit hook not installed - dashboard will not sync automatically');
+    }
+
+    return formatResponse(streamId, worktreePath, response);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `validate_stream failed: ${errorMessage}`,
+        },
+      ],
+    };
+  }
+}
+
+function checkMetadata(worktreePath: string, streamId: string, response: ValidateStreamResponse): void {
+  const metadataPath = join(worktreePath, 'METADATA.json');
+  if (!existsSync(metadataPath)) {
+    response.issues.push('METADATA.json missing from worktree root');
+    return;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(metadataPath, 'utf-8'));
+  } catch (error) {
+    response.issues.push(`METADATA.json is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
+
+  const schemaErrors = validateMetadataSchema(raw, streamId);
+  response.checks.streamFileValid = schemaErrors.length === 0;
+  response.issues.push(...schemaErrors.map((e) => `METADATA.json: ${e}`));
+}
+
+async function findInProgressOperations(git: SimpleGit, worktreePath: string): Promise<string[]> {
+  const operations = new Set<string>();
+
+  for (const [marker, operation] of Object.entries(IN_PROGRESS_MARKERS)) {
+    const markerPath = (await git.raw(['rev-parse', '--git-path', marker])).trim();
+    if (existsSync(isAbsolute(markerPath) ? markerPath : join(worktreePath, markerPath))) {
+      operations.add(operation);
+    }
+  }
+
+  return [...operations];
+}
+
+function formatResponse(streamId: string, worktreePath: string, response: ValidateStreamResponse): MCPResponse {
+  response.valid = response.issues.length === 0;
+
+  const mark = (ok: boolean) => (ok ? '✅' : '❌');
+  const { checks, divergence } = response;
+
+  const text = `
+VALIDATE_STREAM: ${response.valid ? 'HEALTHY' : `${response.issues.length} ISSUE(S)`}
+
+Stream: ${streamId}
+Worktree: ${worktreePath}
+
+CHECKS:
+  ${mark(checks.worktreeExists)} Worktree exists
+  ${mark(checks.branchExists)} Branch exists
+  ${mark(checks.streamFileValid)} METADATA.json valid
+  ${mark(checks.noConflicts)} No conflicts or interrupted merge
+  ${mark(checks.upToDate)} Up to date with origin/main${divergence ? ` (${divergence.ahead} ahead, ${divergence.behind} behind)` : ''}
+  ${mark(checks.tracksRemote)} Tracks origin/${streamId}
+  ${mark(checks.hooksInstalled)} Hooks installed
+${response.issues.length > 0 ? `\nISSUES (fix before prepare_merge):\n${response.issues.map((i) => `  ❌ ${i}`).join('\n')}\n` : ''}${response.warnings.length > 0 ? `\nWARNINGS:\n${response.warnings.map((w) => `  ⚠️  ${w}`).join('\n')}\n` : ''}
+${response.valid ? 'Stream is ready for prepare_merge once work is committed.' : 'Resolve the issues above, then run validate_stream again.'}
+`.trim();
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text,
+      },
+    ],
+  };
+}
@@ -5,6 +5,9 @@
  * When adding new features, update these types accordingly.
  */
 
+import type { StreamMetadata } from './state-manager.js';
+import type { Discrepancy } from './utils/stream-reconciler.js';
+
 // Note: Anthropic and SimpleGit types are used in JSDoc/type annotations elsewhere
 // Keeping import structure for future use when full typing is needed
 
@@ -91,7 +94,49 @@ export type StreamCategory =
 
 export type StreamPriority = 'critical' | 'high' | 'medium' | 'low';
 
-export type StreamStatus = 'active' | 'blocked' | 'completed' | 'paused' | 'archived';
+export type StreamStatus =
+  | 'initializing'
+  | 'active'
+  | 'blocked'
+  | 'ready-for-merge'
+  | 'completed'
+  | 'paused'
+  | 'archived';
+
+/**
+ * Worktree METADATA.json - machine-readable stream metadata
+ * Written by start_stream as part of the stream docset (worktree root)
+ */
+export interface WorktreeMetadata {
+  streamId: string;
+  streamNumber: number | string;
+  title: string;
+  category: StreamCategory;
+  priority: StreamPriority;
+  status: StreamStatus;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  branch: string;
+  worktreePath: string;
+  phases: WorktreePhase[];
+  currentPhase: string | null;
+  progress: number;
+  tags: string[];
+  blockedReason: string | null;
+}
+
+/**
+ * Phase entry in METADATA.json
+ * Older docsets store phases as plain names; readers normalize those to pending entries.
+ */
+export interface WorktreePhase {
+  name: string;
+  status: StreamPhase['status'];
+  startedAt: string | null;
+  completedAt: string | null;
+  summary?: string;
+}
 
 export interface StreamPhase {
   name: string;
@@ -121,15 +166,89 @@ export interface LockInfo {
 export interface ConflictContext {
   file: string;
   streamId: string;
+  worktreePath: string; // Absolute path - merge in progress
   oursContent: string;
   theirsContent: string;
   conflictContent: string;
+  versions: ConflictVersions;
+  hunks: ConflictHunk[];
   mainCommits: GitCommit[];
   streamCommits: GitCommit[];
   fileType: string;
   conflictType: ConflictType;
 }
 
+/**
+ * Full file content at each index stage of a conflicted path
+ * null when the file does not exist on that side (added/deleted)
+ */
+export interface ConflictVersions {
+  base: string | null; // Stage 1 - merge base
+  ours: string | null; // Stage 2 - HEAD (the stream branch)
+  theirs: string | null; // Stage 3 - merged ref (origin/main)
+}
+
+/**
+ * Metadata for one side of a binary conflict (null side = deleted/absent)
+ */
+export interface BinarySideInfo {
+  size: number; // Bytes
+  sha256: string;
+  mimeType: string;
+  dimensions: { width: number; height: number } | null; // PNG/JPEG only
+}
+
+export interface BinaryConflict {
+  base: BinarySideInfo | null;
+  ours: BinarySideInfo | null;
+  theirs: BinarySideInfo | null;
+}
+
+/**
+ * Choices for resolve_binary_conflict
+ * both-renamed keeps each side next to the original as <name>.stream<ext> / <name>.main<ext>
+ */
+export type BinaryConflictChoice = 'ours' | 'theirs' | 'both-renamed';
+
+/**
+ * One conflict region of a file
+ * Line numbers are 1-based and refer to the conflicted file in the worktree.
+ */
+export interface ConflictHunk {
+  index: number; // 0-based position within the file
+  startLine: number; // <<<<<<< marker
+  endLine: number; // >>>>>>> marker
+  ours: string; // Stream side
+  base: string | null; // Common ancestor, null if unavailable
+  theirs: string; // Main side
+  contextBefore: string;
+  contextAfter: string;
+}
+
+/**
+ * git's unmerged status code (us = HEAD = stream, them = origin/main)
+ */
+export type UnmergedStatus = 'UU' | 'AA' | 'DD' | 'AU' | 'UA' | 'UD' | 'DU';
+
+/**
+ * Whole-file resolutions the agent can apply via apply_conflict_action
+ */
+export type ConflictAction = 'keep-ours' | 'keep-theirs' | 'keep-rename-target';
+
+/**
+ * A conflict marker line left in a file
+ */
+export interface ConflictMarkerLocation {
+  file: string;
+  line: number; // 1-based
+  marker: string; // The marker line as written
+}
+
+/**
+ * Per-hunk resolutions for resolve_conflict
+ */
+export type HunkResolution = 'ours' | 'theirs' | 'both-ours-first' | 'both-theirs-first' | 'custom';
+
 export type ConflictType =
   | 'code'
   | 'config'
@@ -152,6 +271,28 @@ export interface ResolutionResult {
   confidence: 'high' | 'medium' | 'low';
   reason?: string;
   warnings?: string[];
+  details?: string[]; // Informational lines for the prepare_merge report
+}
+
+/**
+ * A conflict a strategy resolved without the agent
+ */
+export interface AutoResolvedConflict {
+  file: string;
+  strategy: string;
+  confidence: ResolutionResult['confidence'];
+  reason?: string;
+  warnings?: string[];
+  details?: string[];
+}
+
+/**
+ * A stream migration moved after main's latest by prepare_merge
+ */
+export interface MigrationRename {
+  from: string;
+  to: string;
+  referencesUpdated: string[]; // Files where the old name was rewritten
 }
 
 export interface GitCommit {
@@ -160,15 +301,53 @@ export interface GitCommit {
   author: string;
   date: Date;
   files: string[];
+  diff?: string; // Diff of the conflicted file in this commit (may be truncated)
+}
+
+/**
+ * Conflict analytics store entries (FEATURES.conflictAnalytics)
+ * A merge is identified by stream + the main commit merged into it.
+ */
+export interface ConflictAnalyticsRecord {
+  type: 'conflict';
+  timestamp: string; // ISO timestamp
+  streamId: string;
+  mainCommit: string;
+  file: string;
+  conflictType: ConflictType;
+  strategy: string; // Strategy that auto-resolved the file, or 'agent'
+  confidence: ResolutionResult['confidence'] | null; // null when left to the agent
+  collidesWith: string[]; // Streams whose commits on main touched the file
+}
+
+export interface ValidationAnalyticsRecord {
+  type: 'validation';
+  timestamp: string;
+  streamId: string;
+  mainCommit: string;
+  passed: boolean;
+}
+
+export interface RollbackAnalyticsRecord {
+  type: 'rollback';
+  timestamp: string;
+  streamId: string;
+  revertCommit: string;
 }
 
+export type ConflictAnalyticsEvent = ConflictAnalyticsRecord | ValidationAnalyticsRecord | RollbackAnalyticsRecord;
+
 // ============================================================================
 // Validation Types
 // ============================================================================
 
 export interface Validator {
   name: string;
+  /** Failure blocks the merge (default: true); advisory failures are reported only */
+  required?: boolean;
   validate(workingDir: string): Promise<ValidationResult>;
+  /** Hash of everything besides the tree that the result depends on; results are only cached when set */
+  configHash?(): string;
 }
 
 export interface ValidationResult {
@@ -176,6 +355,49 @@ export interface ValidationResult {
   errors: string[];
   warnings: string[];
   details?: string;
+  testFailures?: TestFailure[]; // Set by the test validator
+  diagnostics?: Diagnostic[]; // Set by validators with a tsc/eslint output format
+  cacheable?: boolean; // false when the result may not repeat on the same tree (e.g. no baseline)
+}
+
+/**
+ * One compiler or linter finding
+ */
+export interface Diagnostic {
+  file: string; // Relative to the worktree root
+  line: number;
+  col: number;
+  code: string; // TS2322, or the ESLint rule id
+  message: string;
+  severity: 'error' | 'warning';
+  origin?: 'stream' | 'pre-existing'; // In a file the stream changed, or not
+}
+
+/**
+ * How diagnostics validators decide pass/fail
+ * - strict: any error fails
+ * - no-regressions: only errors not already on origin/main fail
+ */
+export type ValidationMode = 'strict' | 'no-regressions';
+
+export interface TestFailure {
+  file: string; // Relative to the worktree root
+  name: string; // Full test name (suites > test)
+  message: string; // First line of the failure
+}
+
+/**
+ * Command validator declared in the project's validator config
+ * (VALIDATOR_CONFIG_PATH)
+ */
+export interface ValidatorDefinition {
+  name: string;
+  command: string; // Run with the shell; exit code 0 = passed
+  cwd?: string; // Relative to the worktree root (default: root)
+  timeout?: number; // Milliseconds (default: VALIDATION_TIMEOUT)
+  required?: boolean; // Default: true
+  env?: Record<string, string>; // Added to the server's environment
+  format?: 'tsc' | 'eslint' | 'text'; // Output parser (default: inferred from command)
 }
 
 // ============================================================================
@@ -204,13 +426,18 @@ export interface UpdateStreamStatusArgs {
 
 export interface GetStreamInfoArgs {
   streamId?: string; // If omitted, uses current worktree
+  fetch?: boolean; // Fetch origin before computing ahead/behind (default: true)
 }
 
 export interface ListStreamsArgs {
   status?: StreamStatus;
   category?: StreamCategory;
+  priority?: StreamPriority;
+  tag?: string;
+  parentStreamId?: string;
   sortBy?: 'createdAt' | 'updatedAt' | 'priority';
   order?: 'asc' | 'desc';
+  format?: 'table' | 'json';
 }
 
 export interface CompletePhaseArgs {
@@ -219,9 +446,15 @@ export interface CompletePhaseArgs {
   summary?: string;
 }
 
+export interface StartPhaseArgs {
+  streamId: string;
+  phaseName: string;
+}
+
 export interface PrepareMergeArgs {
   streamId: string;
   validateBeforePush?: boolean;
+  clearValidationCache?: boolean;
 }
 
 export interface CompleteMergeArgs {
@@ -238,16 +471,50 @@ export interface CompleteStreamArgs {
 
 export interface ValidateStreamArgs {
   streamId?: string; // If omitted, uses current worktree
+  fetch?: boolean; // Fetch origin before checking divergence (default: true)
+}
+
+export interface ApplyConflictActionArgs {
+  streamId?: string; // If omitted, uses current worktree
+  file: string; // Conflicted path, relative to the worktree root
+  action: ConflictAction;
+}
+
+export interface GetConflictHunkArgs {
+  streamId?: string; // If omitted, uses current worktree
+  file: string; // Conflicted path, relative to the worktree root
+  hunk: number; // 1-based, as numbered in the prepare_merge report
+  contextLines?: number; // Unchanged lines around the hunk (default: 3)
+}
+
+export interface ResolveConflictArgs {
+  streamId?: string; // If omitted, uses current worktree
+  file: string; // Conflicted path, relative to the worktree root
+  hunk: number; // 1-based, as numbered in the prepare_merge report
+  resolution: HunkResolution;
+  content?: string; // Replacement text for 'custom'
+}
+
+export interface ResolveBinaryConflictArgs {
+  streamId?: string; // If omitted, uses current worktree
+  file: string; // Conflicted path, relative to the worktree root
+  choice: BinaryConflictChoice;
 }
 
 export interface SyncDashboardArgs {
   force?: boolean;
 }
 
+export interface ConflictReportArgs {
+  days?: number; // Only records from the last N days (default: all)
+  limit?: number; // Rows per section (default: 10)
+}
+
 export interface RollbackMergeArgs {
   streamId: string;
-  targetCommit?: string;
+  targetCommit?: string; // main commit before the stream landed (overrides the complete_merge record)
   reason: string;
+  reopenWorktree?: boolean;
 }
 
 /**
@@ -293,21 +560,39 @@ export interface UpdateStreamStatusResponse {
 }
 
 export interface GetStreamInfoResponse {
-  stream: Stream;
+  streamId: string;
+  registry: StreamMetadata | null;
+  metadata: WorktreeMetadata | null;
   location: {
     worktreePath: string;
+    worktreeExists: boolean;
+  };
+  git: {
     branch: string;
     isClean: boolean;
-  };
+    dirtyFiles: string[];
+    aheadOfMain: number;
+    behindMain: number;
+    lastCommit: {
+      hash: string;
+      message: string;
+      author: string;
+      date: string;
+    } | null;
+    remoteBranchExists: boolean;
+    unpushedCommits: number;
+    pushed: boolean;
+  } | null;
   progress: {
     phasesCompleted: number;
     totalPhases: number;
     percentage: number;
   };
+  warnings: string[];
 }
 
 export interface ListStreamsResponse {
-  streams: Stream[];
+  streams: StreamMetadata[];
   total: number;
   filtered: number;
 }
@@ -324,17 +609,9 @@ export interface PrepareMergeResponse {
   success: boolean;
   mergeType: 'clean' | 'with-conflicts';
   conflicts: string[];
-  resolved: Array<{
-    file: string;
-    strategy: string;
-    confidence: string;
-  }>;
-  validation: {
-    typecheck: 'passed' | 'failed';
-    build: 'passed' | 'failed';
-    lint: 'passed' | 'failed';
-    [key: string]: 'passed' | 'failed';
-  };
+  resolved: AutoResolvedConflict[];
+  migrationRenames: MigrationRename[];
+  validation: Record<string, 'passed' | 'failed'>; // Keyed by validator name
   commitHash: string;
   readyForMerge: boolean;
 }
@@ -347,6 +624,16 @@ export interface CompleteMergeResponse {
   remoteBranchDeleted: boolean;
 }
 
+export interface RollbackMergeResponse {
+  success: boolean;
+  streamId: string;
+  revertedCommits: string[];
+  revertCommitHash: string;
+  pushedToOrigin: boolean;
+  archivedTo: string;
+  worktreeReopened: boolean;
+}
+
 export interface CompleteStreamResponse {
   success: boolean;
   streamId: string;
@@ -364,7 +651,10 @@ export interface ValidateStreamResponse {
     streamFileValid: boolean;
     noConflicts: boolean;
     upToDate: boolean;
+    tracksRemote: boolean;
+    hooksInstalled: boolean;
   };
+  divergence: { ahead: number; behind: number } | null; // vs origin/main
 }
 
 export interface SyncDashboardResponse {
@@ -373,6 +663,9 @@ export interface SyncDashboardResponse {
   streamsUpdated: number;
   orphanedWorktrees: string[];
   missingStreamFiles: string[];
+  discrepancies: Discrepancy[];
+  repaired: string[]; // Human-readable repair log (force: true only)
+  repairFailures: string[];
 }
 
 /**
@@ -469,11 +762,16 @@ export interface Config {
   // File Processing
   MAX_FILE_SIZE: number;
   MAX_CONFLICTS_PER_MERGE: number;
+  CONFLICT_HISTORY_MAX_COMMITS: number;
+  CONFLICT_HISTORY_DIFF_BUDGET: number;
+  CONFLICT_RESPONSE_BUDGET: number;
+  CONFLICT_HUNK_MAX_CHARS: number;
 
   // Timeouts
   CONFLICT_RESOLUTION_TIMEOUT: number;
   MERGE_LOCK_TIMEOUT: number;
   VALIDATION_TIMEOUT: number;
+  LOCKFILE_INSTALL_TIMEOUT: number;
   SCREENSHOT_TIMEOUT: number;
 
   // AI Configuration
@@ -485,6 +783,11 @@ export interface Config {
   PROJECT_ROOT: string;
   WORKTREE_ROOT: string;
   STREAM_STATE_PATH: string;
+  CONFLICT_PROMPT_PATH: string;
+  CONFLICT_ANALYTICS_PATH: string;
+  VALIDATOR_CONFIG_PATH: string;
+  VALIDATION_BASELINE_DIR: string;
+  VALIDATION_CACHE_DIR: string;
 
   // Locking
   MERGE_LOCK_DIR: string;
@@ -493,18 +796,15 @@ export interface Config {
   LOCK_MAX_RETRIES: number;
 
   // Validation
-  VALIDATORS: {
-    typescript: boolean;
-    build: boolean;
-    lint: boolean;
-    [key: string]: boolean;
-  };
+  VALIDATORS: Record<string, boolean>;
+  TEST_VALIDATION_SCOPE: 'changed' | 'all';
 
   // Feature Flags
   FEATURES: {
     parallelConflictResolution: boolean;
     binaryFileSupport: boolean;
     conflictAnalytics: boolean;
+    conflictMarkerHook: boolean;
     [key: string]: boolean;
   };
 
@@ -0,0 +1,116 @@
+/**
+ * Binary File Info
+ *
+ * Detection and metadata for binary conflict reporting: size, SHA-256,
+ * MIME type and (PNG/JPEG) image dimensions. Enough for an agent to decide
+ * which side to keep without ever seeing the bytes.
+ *
+ * @module utils/binary-info
+ */
+
+import { createHash } from 'node:crypto';
+import { extname } from 'node:path';
+
+import type { BinarySideInfo } from '../types.js';
+
+/**
+ * Extensions treated as binary without looking at content
+ */
+export const BINARY_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.ico': 'image/x-icon',
+  '.tiff': 'image/tiff',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.tar': 'application/x-tar',
+  '.7z': 'application/x-7z-compressed',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.eot': 'application/vnd.ms-fontobject',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.wasm': 'application/wasm',
+};
+
+/**
+ * Bytes inspected for NUL when sniffing content (same heuristic as git)
+ */
+const SNIFF_BYTES = 8000;
+
+export function isBinaryPath(file: string): boolean {
+  return extname(file).toLowerCase() in BINARY_MIME_TYPES;
+}
+
+export function isBinaryContent(content: Buffer): boolean {
+  return content.subarray(0, SNIFF_BYTES).includes(0);
+}
+
+/**
+ * Describe one side of a binary conflict
+ *
+ * @param file - Path (for the MIME type)
+ * @param content - Blob content
+ */
+export function describeBinary(file: string, content: Buffer): BinarySideInfo {
+  return {
+    size: content.length,
+    sha256: createHash('sha256').update(content).digest('hex'),
+    mimeType: BINARY_MIME_TYPES[extname(file).toLowerCase()] || 'application/octet-stream',
+    dimensions: readImageDimensions(content),
+  };
+}
+
+/**
+ * Width and height of a PNG or JPEG image, null for anything else
+ */
+export function readImageDimensions(content: Buffer): { width: number; height: number } | null {
+  // PNG: signature, then IHDR with width/height as big-endian uint32
+  if (content.length >= 24 && content.readUInt32BE(0) === 0x89504e47 && content.toString('ascii', 12, 16) === 'IHDR') {
+    return { width: content.readUInt32BE(16), height: content.readUInt32BE(20) };
+  }
+
+  // JPEG: walk segments until a start-of-frame marker
+  if (content.length >= 4 && content[0] === 0xff && content[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < content.length) {
+      if (content[offset] !== 0xff) {
+        return null;
+      }
+      const marker = content[offset + 1];
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+      if (isStartOfFrame) {
+        return { width: content.readUInt16BE(offset + 7), height: content.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + content.readUInt16BE(offset + 2);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * One-line summary for reports
+ */
+export function formatBinarySide(info: BinarySideInfo | null): string {
+  if (!info) {
+    return '(deleted)';
+  }
+  const dimensions = info.dimensions ? `, ${info.dimensions.width}x${info.dimensions.height}` : '';
+  return `${formatSize(info.size)}${dimensions}, ${info.mimeType}, sha256 ${info.sha256.slice(0, 12)}`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,156 @@
+/**
+ * Conflict Marker Guard
+ *
+ * Keeps leftover conflict markers out of commits. prepare_merge scans the
+ * index before committing a merge. With FEATURES.conflictMarkerHook, the
+ * same check is installed as a pre-commit hook (hooks/conflict-marker-guard)
+ * for commits the agent makes itself.
+ *
+ * Git worktrees share one hooks directory; the hook only checks commits in
+ * linked (stream) worktrees and does nothing in the main checkout. A
+ * pre-commit hook that was already there is kept as pre-commit.chained and
+ * still runs after the check.
+ *
+ * Markers are lines starting with <<<<<<<, |||||||, ======= or >>>>>>>.
+ * In Markdown/RST/text files a lone ======= is a heading underline, so it
+ * only counts inside a <<<<<<< ... >>>>>>> block.
+ *
+ * @module utils/conflict-markers
+ */
+
+import { chmodSync, copyFileSync, existsSync, mkdirSync, readFileSync, renameSync } from 'node:fs';
+import { dirname, extname, isAbsolute, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { SimpleGit } from 'simple-git';
+
+import { isBinaryContent, isBinaryPath } from './binary-info.js';
+import type { ConflictMarkerLocation } from '../types.js';
+
+const PROSE_EXTENSIONS = ['.md', '.mdx', '.markdown', '.rst', '.txt', '.adoc'];
+
+/**
+ * Signature line in the hook script - identifies our hook when it is already installed
+ */
+const HOOK_SIGNATURE = '# stream-workflow: conflict-marker-guard';
+
+/**
+ * Marker locations reported before "... and N more"
+ */
+const REPORT_LIMIT = 50;
+
+/**
+ * Find conflict marker lines in file content
+ *
+ * @param content - File content
+ * @param file - Path, decides whether a lone ======= is prose
+ */
+export function scanConflictMarkers(content: string, file: string): ConflictMarkerLocation[] {
+  const prose = PROSE_EXTENSIONS.includes(extname(file).toLowerCase());
+  const locations: ConflictMarkerLocation[] = [];
+  let inBlock = false;
+
+  content.split('\n').forEach((raw, i) => {
+    const line = raw.replace(/\r$/, '');
+    let isMarker = false;
+
+    if (/^<{7}( |$)/.test(line)) {
+      isMarker = true;
+      inBlock = true;
+    } else if (/^>{7}( |$)/.test(line)) {
+      isMarker = true;
+      inBlock = false;
+    } else if (/^\|{7}( |$)/.test(line)) {
+      isMarker = true;
+    } else if (/^={7}[ \t]*$/.test(line)) {
+      isMarker = inBlock || !prose;
+    }
+
+    if (isMarker) {
+      locations.push({ file, line: i + 1, marker: line });
+    }
+  });
+
+  return locations;
+}
+
+/**
+ * Conflict markers in the staged version of every added/modified file
+ *
+ * @param git - SimpleGit instance in the worktree
+ */
+export async function findStagedConflictMarkers(git: SimpleGit): Promise<ConflictMarkerLocation[]> {
+  const staged = (await git.raw(['diff', '--cached', '--name-only', '--diff-filter=ACMR', '-z']))
+    .split('\0')
+    .filter(Boolean);
+  const locations: ConflictMarkerLocation[] = [];
+
+  for (const file of staged) {
+    if (isBinaryPath(file)) {
+      continue;
+    }
+    const blob = await git.binaryCatFile(['blob', `:${file}`]);
+    if (isBinaryContent(blob)) {
+      continue;
+    }
+    locations.push(...scanConflictMarkers(blob.toString('utf-8'), file));
+  }
+
+  return locations;
+}
+
+/**
+ * file:line list for reports
+ */
+export function formatConflictMarkers(locations: ConflictMarkerLocation[]): string {
+  const lines = locations.slice(0, REPORT_LIMIT).map((l) => `  ${l.file}:${l.line}: ${l.marker}`);
+  if (locations.length > REPORT_LIMIT) {
+    lines.push(`  ... and ${locations.length - REPORT_LIMIT} more`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Install hooks/conflict-marker-guard as the repository's pre-commit hook
+ *
+ * The hooks directory is shared by all worktrees; the hook itself skips the
+ * check in the main checkout. An existing pre-commit hook is renamed to pre-commit.chained and run by the
+ * guard once the check passes. A custom core.hooksPath (husky etc.) belongs
+ * to the project and is left alone.
+ *
+ * @param git - SimpleGit instance in the worktree
+ * @param worktreePath - Absolute worktree path
+ * @returns 'installed', 'chained' (installed in front of an existing hook),
+ *          'present' (already ours) or 'skipped'
+ */
+export async function installConflictMarkerHook(
+  git: SimpleGit,
+  worktreePath: string
+): Promise<'installed' | 'chained' | 'present' | 'skipped'> {
+  const hooksPath = (await git.raw(['config', '--get', 'core.hooksPath']).catch(() => '')).trim();
+  if (hooksPath) {
+    return 'skipped';
+  }
+
+  const hookPath = (await git.raw(['rev-parse', '--git-path', 'hooks/pre-commit'])).trim();
+  const destination = isAbsolute(hookPath) ? hookPath : join(worktreePath, hookPath);
+  const chained = `${destination}.chained`;
+  let result: 'installed' | 'chained' = 'installed';
+
+  if (existsSync(destination)) {
+    if (readFileSync(destination, 'utf-8').includes(HOOK_SIGNATURE)) {
+      return 'present';
+    }
+    if (existsSync(chained)) {
+      return 'skipped'; // Never overwrite a hook we already chained
+    }
+    renameSync(destination, chained);
+    result = 'chained';
+  }
+
+  // src/utils/conflict-markers.ts (or dist/utils/...) → package root
+  const packageDir = dirname(dirname(dirname(fileURLToPath(import.meta.url))));
+  mkdirSync(dirname(destination), { recursive: true });
+  copyFileSync(join(packageDir, 'hooks', 'conflict-marker-guard'), destination);
+  chmodSync(destination, 0o755);
+  return result;
+}
@@ -0,0 +1,36 @@
+/**
+ * Conflict Resolution Prompt
+ *
+ * Loads the template prepare_merge renders for each conflicted file and the
+ * MCP conflict_resolution prompt returns. A project replaces the bundled
+ * prompts/conflict-resolution.txt by adding its own copy at
+ * CONFLICT_PROMPT_PATH.
+ *
+ * @module utils/conflict-prompt
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { config } from '../config.js';
+
+export interface ConflictPrompt {
+  content: string;
+  source: string; // Absolute path the template was read from
+}
+
+/**
+ * Load the project's conflict prompt, falling back to the bundled one
+ */
+export function loadConflictPrompt(): ConflictPrompt {
+  const override = join(config.PROJECT_ROOT, config.CONFLICT_PROMPT_PATH);
+  if (existsSync(override)) {
+    return { content: readFileSync(override, 'utf-8'), source: override };
+  }
+
+  // src/utils/conflict-prompt.ts (or dist/utils/...) → package root
+  const packageDir = dirname(dirname(dirname(fileURLToPath(import.meta.url))));
+  const bundled = join(packageDir, 'prompts', 'conflict-resolution.txt');
+  return { content: readFileSync(bundled, 'utf-8'), source: bundled };
+}
@@ -14,12 +14,14 @@
 import type { SimpleGit } from 'simple-git';
 import { config } from '../config.js';
 
+export type GitLockOperation = 'prepare_merge' | 'complete_merge' | 'rollback_merge';
+
 export interface GitLockInfo {
   streamId: string;
   pid: number;
   hostname: string;
   timestamp: string; // ISO 8601
-  operation: 'prepare_merge' | 'complete_merge';
+  operation: GitLockOperation;
 }
 
 export interface GitLockResult {
@@ -36,13 +38,13 @@ const LOCK_TIMEOUT_MS = 300000; // 5 minutes
  *
  * @param git - SimpleGit instance (should be in main project directory)
  * @param streamId - Stream attempting to acquire lock
- * @param operation - Operation type (prepare_merge or complete_merge)
+ * @param operation - Operation type (prepare_merge, complete_merge or rollback_merge)
  * @returns Lock acquisition result
  */
 export async function acquireGitLock(
   git: SimpleGit,
   streamId: string,
-  operation: 'prepare_merge' | 'complete_merge'
+  operation: GitLockOperation
 ): Promise<GitLockResult> {
   const maxRetries = config.LOCK_MAX_RETRIES;
   const retryInterval = config.LOCK_RETRY_INTERVAL;
@@ -0,0 +1,75 @@
+/**
+ * Phase Tracking Utilities
+ *
+ * Pure helpers for the phase list stored in a worktree's METADATA.json.
+ *
+ * @module utils/phases
+ */
+
+import type { WorktreePhase } from '../types.js';
+
+/**
+ * Normalize phases read from METADATA.json
+ *
+ * Docsets created before phase tracking store phases as plain names.
+ * Those become pending entries; object entries get missing fields filled in.
+ *
+ * @param raw - Phases array as parsed from JSON
+ * @returns Phase entries in the current format
+ */
+export function normalizePhases(raw: unknown): WorktreePhase[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw.map((entry): WorktreePhase => {
+    if (typeof entry === 'string') {
+      return createPhase(entry);
+    }
+
+    const phase = entry as Partial<WorktreePhase>;
+    return {
+      ...phase,
+      name: String(phase.name ?? ''),
+      status: phase.status ?? 'pending',
+      startedAt: phase.startedAt ?? null,
+      completedAt: phase.completedAt ?? null,
+    };
+  });
+}
+
+/**
+ * Create a pending phase entry
+ */
+export function createPhase(name: string): WorktreePhase {
+  return { name, status: 'pending', startedAt: null, completedAt: null };
+}
+
+/**
+ * Find a phase by name (case-insensitive, surrounding whitespace ignored)
+ *
+ * @returns The phase entry, or undefined if no phase matches
+ */
+export function findPhase(phases: WorktreePhase[], name: string): WorktreePhase | undefined {
+  const wanted = name.trim().toLowerCase();
+  return phases.find((phase) => phase.name.trim().toLowerCase() === wanted);
+}
+
+/**
+ * Error message for a phase name that is not in the list
+ */
+export function formatUnknownPhase(phaseName: string, phases: WorktreePhase[]): string {
+  const known = phases.map((phase) => `  - ${phase.name}`).join('\n') || '  (none - stream has no phases)';
+  return `Phase "${phaseName}" not found.\n\nKnown phases:\n${known}`;
+}
+
+/**
+ * Progress percentage from completed phases (0 when there are no phases)
+ */
+export function computePhaseProgress(phases: WorktreePhase[]): number {
+  if (phases.length === 0) {
+    return 0;
+  }
+  const completed = phases.filter((phase) => phase.status === 'completed').length;
+  return Math.round((completed / phases.length) * 100);
+}
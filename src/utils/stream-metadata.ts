@@ -0,0 +1,246 @@
+/**
+ * Stream Metadata Utilities
+ *
+ * Helpers for locating a stream and reading/writing the METADATA.json
+ * and STATUS.md files that start_stream places in the worktree root.
+ *
+ * @module utils/stream-metadata
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { simpleGit } from 'simple-git';
+
+import { config } from '../config.js';
+import { getStream, type StreamMetadata } from '../state-manager.js';
+import { renderTemplate } from './template-renderer.js';
+import { normalizePhases } from './phases.js';
+import { isStreamStatus } from './stream-status.js';
+import type { WorktreeMetadata, WorktreePhase } from '../types.js';
+
+/**
+ * Docset files kept in sync with the registry
+ */
+export const STREAM_DOC_FILES = ['METADATA.json', 'STATUS.md'];
+
+/**
+ * HANDOFF.md objective characters included in conflict prompts
+ */
+const STREAM_PURPOSE_MAX_CHARS = 800;
+
+const PHASE_STATUS_LABELS: Record<WorktreePhase['status'], string> = {
+  pending: 'Pending',
+  in_progress: 'In progress',
+  completed: 'Completed',
+};
+
+/**
+ * Resolved stream location
+ */
+export interface StreamLocation {
+  streamId: string;
+  worktreePath: string;
+  registry: StreamMetadata | null;
+}
+
+/**
+ * Resolve which stream a tool call refers to
+ *
+ * Uses the explicit streamId if given, otherwise infers it from the current
+ * working directory (worktree paths contain the stream ID).
+ *
+ * @param streamId - Explicit stream ID (optional)
+ * @returns Stream ID, worktree path and registry entry (if registered)
+ * @throws Error if no stream ID given and cwd is not inside a stream worktree
+ */
+export async function resolveStreamLocation(streamId?: string): Promise<StreamLocation> {
+  const resolvedId = streamId || inferStreamIdFromPath(process.cwd());
+
+  if (!resolvedId) {
+    throw new Error(
+      `Could not determine stream.\n\n` +
+        `Current directory: ${process.cwd()}\n\n` +
+        `Either pass streamId explicitly or run from inside a stream worktree:\n` +
+        `  cd ${config.WORKTREE_ROOT}/stream-XXXX-name`
+    );
+  }
+
+  const registry = await getStream(resolvedId);
+  const worktreePath = registry?.worktreePath || join(config.WORKTREE_ROOT, resolvedId);
+
+  return { streamId: resolvedId, worktreePath, registry };
+}
+
+/**
+ * Extract stream ID from a worktree path
+ *
+ * @param path - Absolute directory path
+ * @returns Stream ID or null if path is not inside a stream worktree
+ */
+export function inferStreamIdFromPath(path: string): string | null {
+  const match = path.match(/stream-\d+[a-z]?-[^/]+/);
+  return match ? match[0] : null;
+}
+
+/**
+ * Read METADATA.json from a worktree
+ *
+ * @param worktreePath - Absolute path to worktree
+ * @returns Parsed metadata, or null if missing or unreadable
+ */
+export function readWorktreeMetadata(worktreePath: string): WorktreeMetadata | null {
+  const metadataPath = join(worktreePath, 'METADATA.json');
+  if (!existsSync(metadataPath)) {
+    return null;
+  }
+
+  try {
+    const metadata = JSON.parse(readFileSync(metadataPath, 'utf-8')) as WorktreeMetadata;
+    metadata.phases = normalizePhases(metadata.phases);
+    return metadata;
+  } catch (error) {
+    console.error(`[stream-metadata] Could not parse ${metadataPath}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Stream purpose from the worktree's HANDOFF.md: its title and Objective section
+ *
+ * Long objectives are cut at a line boundary after STREAM_PURPOSE_MAX_CHARS.
+ *
+ * @param worktreePath - Absolute path to worktree
+ * @returns Purpose text, or null if HANDOFF.md is missing or has neither
+ */
+export function readStreamPurpose(worktreePath: string): string | null {
+  const handoffPath = join(worktreePath, 'HANDOFF.md');
+  if (!existsSync(handoffPath)) {
+    return null;
+  }
+
+  const lines = readFileSync(handoffPath, 'utf-8').split('\n');
+  const title = lines.find((line) => line.startsWith('# '))?.replace(/^# (Stream Handoff:\s*)?/, '').trim();
+
+  const start = lines.findIndex((line) => /^## Objective\s*$/.test(line));
+  const end = start === -1 ? -1 : lines.findIndex((line, i) => i > start && /^(---|## )/.test(line));
+  let objective = start === -1 ? '' : lines.slice(start + 1, end === -1 ? undefined : end).join('\n').trim();
+  if (objective.length > STREAM_PURPOSE_MAX_CHARS) {
+    const cut = objective.slice(0, STREAM_PURPOSE_MAX_CHARS);
+    const lineEnd = cut.lastIndexOf('\n');
+    objective = `${lineEnd > 0 ? cut.slice(0, lineEnd) : cut}\n... (see HANDOFF.md)`;
+  }
+
+  const purpose = [title, objective].filter(Boolean).join('\n\n');
+  return purpose || null;
+}
+
+/**
+ * Check raw METADATA.json content against the shape start_stream writes
+ *
+ * @param raw - Parsed JSON (not yet normalized)
+ * @param streamId - Expected stream ID
+ * @returns Human-readable schema errors (empty if valid)
+ */
+export function validateMetadataSchema(raw: unknown, streamId: string): string[] {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return ['METADATA.json is not a JSON object'];
+  }
+
+  const data = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const field of ['streamId', 'title', 'category', 'priority', 'status', 'createdAt', 'branch']) {
+    if (typeof data[field] !== 'string' || data[field] === '') {
+      errors.push(`"${field}" must be a non-empty string`);
+    }
+  }
+
+  if (typeof data.streamId === 'string' && data.streamId !== streamId) {
+    errors.push(`"streamId" is "${data.streamId}" but the worktree belongs to ${streamId}`);
+  }
+  if (typeof data.status === 'string' && !isStreamStatus(data.status)) {
+    errors.push(`"status" has unknown value "${data.status}"`);
+  }
+  if (typeof data.progress !== 'number' || data.progress < 0 || data.progress > 100) {
+    errors.push('"progress" must be a number between 0 and 100');
+  }
+  if (!Array.isArray(data.phases)) {
+    errors.push('"phases" must be an array');
+  } else if (data.phases.some((p) => typeof p !== 'string' && (typeof p !== 'object' || p === null || typeof p.name !== 'string'))) {
+    errors.push('"phases" entries must be names or objects with a "name"');
+  }
+  if (data.tags !== undefined && (!Array.isArray(data.tags) || data.tags.some((t) => typeof t !== 'string'))) {
+    errors.push('"tags" must be an array of strings');
+  }
+
+  return errors;
+}
+
+/**
+ * Write METADATA.json to a worktree
+ *
+ * @param worktreePath - Absolute path to worktree
+ * @param metadata - Full metadata object (same shape start_stream writes)
+ */
+export function writeWorktreeMetadata(worktreePath: string, metadata: WorktreeMetadata): void {
+  const metadataPath = join(worktreePath, 'METADATA.json');
+  writeFileSync(metadataPath, JSON.stringify(metadata, null, 2), 'utf-8');
+}
+
+/**
+ * Re-render STATUS.md from metadata
+ *
+ * @param worktreePath - Absolute path to worktree
+ * @param metadata - Metadata to render
+ */
+export function writeStatusFile(worktreePath: string, metadata: WorktreeMetadata): void {
+  const phases = metadata.phases.map((phase) => ({
+    PHASE_NAME: phase.name,
+    PHASE_STATUS: PHASE_STATUS_LABELS[phase.status],
+    PHASE_COMPLETED_AT: phase.completedAt || '',
+  }));
+
+  const notes = [`**Stream status**: ${metadata.status}`];
+  if (metadata.blockedReason) {
+    notes.push(`**Blocked**: ${metadata.blockedReason}`);
+  }
+  for (const phase of metadata.phases) {
+    if (phase.summary) {
+      notes.push(`**${phase.name}**: ${phase.summary}`);
+    }
+  }
+
+  const content = renderTemplate('STATUS.template.md', {
+    STREAM_ID: metadata.streamId,
+    UPDATED_AT: metadata.updatedAt,
+    CURRENT_PHASE: metadata.currentPhase || describeIdlePhase(metadata.phases),
+    PROGRESS: metadata.progress,
+    PHASES: phases,
+    NOTES: notes.join('\n'),
+  });
+  writeFileSync(join(worktreePath, 'STATUS.md'), content, 'utf-8');
+}
+
+/**
+ * Current-phase label when no phase is in progress
+ */
+function describeIdlePhase(phases: WorktreePhase[]): string {
+  if (phases.length > 0 && phases.every((phase) => phase.status === 'completed')) {
+    return 'All phases complete';
+  }
+  return phases.some((phase) => phase.status === 'completed') ? 'Between phases' : 'Not started';
+}
+
+/**
+ * Commit METADATA.json and STATUS.md in the worktree
+ *
+ * Only these two files are committed; any other staged work is left alone.
+ *
+ * @param worktreePath - Absolute path to worktree
+ * @param message - Commit message
+ */
+export async function commitStreamDocs(worktreePath: string, message: string): Promise<void> {
+  const git = simpleGit(worktreePath);
+  await git.add(STREAM_DOC_FILES);
+  await git.commit(message, STREAM_DOC_FILES);
+}
@@ -0,0 +1,235 @@
+/**
+ * Stream Reconciler
+ *
+ * Compares the four places a stream can leave traces and reports where
+ * they disagree:
+ * 1. Registry (state.streams)
+ * 2. Git worktrees (git worktree list --porcelain)
+ * 3. Local and remote stream-* branches
+ * 4. activeStreams context entries
+ *
+ * Detection is pure (operates on a snapshot) so it can be tested without git.
+ *
+ * @module utils/stream-reconciler
+ */
+
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import type { SimpleGit } from 'simple-git';
+
+import type { StreamMetadata } from '../state-manager.js';
+import type { ActiveStreamsMap } from '../types.js';
+
+const STREAM_BRANCH_PATTERN = /^stream-\d+[a-z]?-/;
+
+/**
+ * One entry from `git worktree list --porcelain`
+ */
+export interface WorktreeEntry {
+  path: string;
+  branch: string | null; // Short branch name, null if detached
+  prunable: boolean; // Directory is gone, git still tracks it
+  hasMetadata: boolean; // METADATA.json present in worktree root
+}
+
+/**
+ * Everything the reconciler compares
+ */
+export interface ReconcileSnapshot {
+  registry: Record<string, StreamMetadata>;
+  activeStreams: ActiveStreamsMap;
+  worktrees: WorktreeEntry[];
+  localBranches: string[];
+  remoteBranches: string[]; // Without the "origin/" prefix
+}
+
+export type DiscrepancyKind =
+  | 'missing-worktree'
+  | 'missing-metadata'
+  | 'unregistered-worktree'
+  | 'prunable-worktree'
+  | 'orphaned-branch'
+  | 'stale-active-stream';
+
+export interface Discrepancy {
+  kind: DiscrepancyKind;
+  streamId: string;
+  detail: string;
+  repair: string | null; // What force: true does, null if it needs a human
+  worktreePath?: string;
+  branchLocation?: 'local' | 'remote' | 'both';
+}
+
+/**
+ * Parse `git worktree list --porcelain` output
+ *
+ * @param output - Raw porcelain output
+ * @returns Entries in listed order (main worktree first)
+ */
+export function parseWorktreeList(output: string): WorktreeEntry[] {
+  const entries: WorktreeEntry[] = [];
+
+  for (const block of output.split(/\n\s*\n/)) {
+    const lines = block.split('\n').map((line) => line.trim()).filter(Boolean);
+    const pathLine = lines.find((line) => line.startsWith('worktree '));
+    if (!pathLine) {
+      continue;
+    }
+
+    const branchLine = lines.find((line) => line.startsWith('branch '));
+    const path = pathLine.slice('worktree '.length);
+
+    entries.push({
+      path,
+      branch: branchLine ? branchLine.slice('branch '.length).replace(/^refs\/heads\//, '') : null,
+      prunable: lines.some((line) => line === 'prunable' || line.startsWith('prunable ')),
+      hasMetadata: false,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Gather a reconcile snapshot from git
+ *
+ * Registry and activeStreams come from the caller (already loaded state).
+ *
+ * @param git - SimpleGit instance in the main project directory
+ * @param registry - state.streams
+ * @param activeStreams - state.activeStreams
+ */
+export async function collectSnapshot(
+  git: SimpleGit,
+  registry: Record<string, StreamMetadata>,
+  activeStreams: ActiveStreamsMap
+): Promise<ReconcileSnapshot> {
+  const worktrees = parseWorktreeList(await git.raw(['worktree', 'list', '--porcelain'])).map((entry) => ({
+    ...entry,
+    hasMetadata: !entry.prunable && existsSync(join(entry.path, 'METADATA.json')),
+  }));
+
+  const local = await git.branchLocal();
+  const remote = await git.branch(['-r']);
+
+  return {
+    registry,
+    activeStreams,
+    worktrees,
+    localBranches: local.all.filter((name) => STREAM_BRANCH_PATTERN.test(name)),
+    remoteBranches: remote.all
+      .filter((name) => name.startsWith('origin/'))
+      .map((name) => name.slice('origin/'.length))
+      .filter((name) => STREAM_BRANCH_PATTERN.test(name)),
+  };
+}
+
+/**
+ * Find every disagreement between registry, worktrees, branches and activeStreams
+ *
+ * Completed and archived streams are expected to have no worktree.
+ *
+ * @param snapshot - Reconcile snapshot
+ * @returns Discrepancies, grouped by kind in a stable order
+ */
+export function findDiscrepancies(snapshot: ReconcileSnapshot): Discrepancy[] {
+  const { registry, activeStreams } = snapshot;
+  const discrepancies: Discrepancy[] = [];
+
+  // Stream worktrees keyed by stream ID (branch name, or directory name if detached)
+  const worktreesByStream = new Map<string, WorktreeEntry>();
+  for (const entry of snapshot.worktrees.slice(1)) {
+    const streamId = entry.branch || entry.path.split('/').pop() || '';
+    if (STREAM_BRANCH_PATTERN.test(streamId)) {
+      worktreesByStream.set(streamId, entry);
+    }
+  }
+
+  const isLive = (streamId: string) => {
+    const entry = worktreesByStream.get(streamId);
+    return !!entry && !entry.prunable;
+  };
+
+  for (const [streamId, entry] of worktreesByStream) {
+    if (entry.prunable) {
+      discrepancies.push({
+        kind: 'prunable-worktree',
+        streamId,
+        detail: `git still tracks worktree ${entry.path} but the directory is gone`,
+        repair: 'git worktree prune',
+        worktreePath: entry.path,
+      });
+    } else if (!registry[streamId]) {
+      discrepancies.push({
+        kind: 'unregistered-worktree',
+        streamId,
+        detail: `worktree ${entry.path} exists but the stream is not in the registry`,
+        repair: entry.hasMetadata ? 're-register from METADATA.json' : null,
+        worktreePath: entry.path,
+      });
+    } else if (!entry.hasMetadata) {
+      discrepancies.push({
+        kind: 'missing-metadata',
+        streamId,
+        detail: `worktree ${entry.path} has no METADATA.json`,
+        repair: null,
+        worktreePath: entry.path,
+      });
+    }
+  }
+
+  for (const stream of Object.values(registry)) {
+    if (isTerminal(stream) || isLive(stream.streamId)) {
+      continue;
+    }
+    discrepancies.push({
+      kind: 'missing-worktree',
+      streamId: stream.streamId,
+      detail: `registry says "${stream.status}" but there is no worktree at ${stream.worktreePath}`,
+      repair: 'mark archived',
+      worktreePath: stream.worktreePath,
+    });
+  }
+
+  const local = new Set(snapshot.localBranches);
+  const remote = new Set(snapshot.remoteBranches);
+  for (const branch of [...new Set([...local, ...remote])].sort()) {
+    if (registry[branch] || worktreesByStream.has(branch)) {
+      continue;
+    }
+    const location = local.has(branch) ? (remote.has(branch) ? 'both' : 'local') : 'remote';
+    discrepancies.push({
+      kind: 'orphaned-branch',
+      streamId: branch,
+      detail: `branch exists (${location}) with no registered stream or worktree`,
+      repair: location === 'remote' ? null : 'delete local branch if merged into main',
+      branchLocation: location,
+    });
+  }
+
+  for (const streamId of Object.keys(activeStreams)) {
+    const stream = registry[streamId];
+    const reason = !stream
+      ? 'stream is not in the registry'
+      : isTerminal(stream)
+        ? `stream is ${stream.status}`
+        : !isLive(streamId)
+          ? 'stream has no worktree'
+          : null;
+
+    if (reason) {
+      discrepancies.push({
+        kind: 'stale-active-stream',
+        streamId,
+        detail: `activeStreams entry is stale: ${reason}`,
+        repair: 'clear activeStreams entry',
+      });
+    }
+  }
+
+  return discrepancies;
+}
+
+function isTerminal(stream: StreamMetadata): boolean {
+  return stream.status === 'completed' || stream.status === 'archived';
+}
@@ -0,0 +1,69 @@
+/**
+ * Stream Status State Machine
+ *
+ * Explicit graph of legal StreamStatus transitions. Every status change
+ * goes through here so the registry never records an impossible jump
+ * (e.g. archived → active).
+ *
+ * @module utils/stream-status
+ */
+
+import type { StreamStatus } from '../state-manager.js';
+
+/**
+ * Legal transitions, keyed by current status
+ *
+ * - initializing: docset committed, work not yet started
+ * - ready-for-merge: may drop back to active if review finds more work
+ * - completed: merged to main, only archival remains
+ * - archived: terminal
+ */
+export const STATUS_TRANSITIONS: Record<StreamStatus, readonly StreamStatus[]> = {
+  initializing: ['active', 'paused', 'archived'],
+  active: ['blocked', 'paused', 'ready-for-merge', 'archived'],
+  blocked: ['active', 'paused', 'archived'],
+  paused: ['active', 'archived'],
+  'ready-for-merge': ['active', 'blocked', 'completed'],
+  completed: ['archived'],
+  archived: [],
+};
+
+/**
+ * Statuses in which phases can be started or completed
+ * (start_phase also activates an initializing stream)
+ */
+export const PHASE_TRACKING_STATUSES: readonly StreamStatus[] = ['active', 'paused'];
+
+/**
+ * Check whether a status change is allowed
+ *
+ * Staying in the same status is always allowed (used to update
+ * phase, progress or blocked reason without a transition).
+ */
+export function isValidTransition(from: StreamStatus, to: StreamStatus): boolean {
+  return from === to || STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Statuses reachable from the given status in one step
+ */
+export function getAllowedTransitions(from: StreamStatus): readonly StreamStatus[] {
+  return STATUS_TRANSITIONS[from];
+}
+
+/**
+ * Type guard for untrusted status strings (tool arguments, METADATA.json)
+ */
+export function isStreamStatus(value: unknown): value is StreamStatus {
+  return typeof value === 'string' && Object.hasOwn(STATUS_TRANSITIONS, value);
+}
+
+/**
+ * Error message for a phase change on a stream outside PHASE_TRACKING_STATUSES
+ */
+export function formatPhaseStatusError(streamId: string, status: StreamStatus, action: 'started' | 'completed'): string {
+  const hint = isValidTransition(status, 'active')
+    ? `\n\nMove it back to "active" with update_stream_status first.`
+    : '';
+  return `Stream ${streamId} is ${status}. Phases can only be ${action} on ${PHASE_TRACKING_STATUSES.join(' or ')} streams.${hint}`;
+}
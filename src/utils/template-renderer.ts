@@ -8,6 +8,9 @@
  * - Conditional rendering: {{#CONDITION}} ... {{/CONDITION}}
  * - Nested object access: {{OBJECT.PROPERTY}}
  *
+ * Stream docs use UPPER_SNAKE names; camelCase names ({{streamId}}) are
+ * accepted too, as used by prompts/conflict-resolution.txt.
+ *
  * @module template-renderer
  */
 
@@ -52,13 +55,16 @@ export interface RenderResult {
  */
 const PATTERNS = {
   /** Matches {{VARIABLE}} - simple variable substitution */
-  VARIABLE: /\{\{([A-Z_][A-Z0-9_]*)\}\}/g,
+  VARIABLE: /\{\{([A-Za-z_][A-Za-z0-9_]*)\}\}/g,
 
   /** Matches {{#ARRAY}} ... {{/ARRAY}} - array/conditional blocks */
-  BLOCK: /\{\{#([A-Z_][A-Z0-9_]*)\}\}([\s\S]*?)\{\{\/\1\}\}/g,
+  BLOCK: /\{\{#([A-Za-z_][A-Za-z0-9_]*)\}\}([\s\S]*?)\{\{\/\1\}\}/g,
 
   /** Matches {{OBJECT.PROPERTY}} - nested property access */
-  NESTED: /\{\{([A-Z_][A-Z0-9_]*(?:\.[A-Z_][A-Z0-9_]*)+)\}\}/g,
+  NESTED: /\{\{([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)+)\}\}/g,
+
+  /** Matches any of the above (block | nested | variable) in document order */
+  TAG: /\{\{#([A-Za-z_][A-Za-z0-9_]*)\}\}([\s\S]*?)\{\{\/\1\}\}|\{\{([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)+)\}\}|\{\{([A-Za-z_][A-Za-z0-9_]*)\}\}/g,
 } as const;
 
 // ============================================================================
@@ -126,19 +132,21 @@ export function renderTemplateWithMetadata(
  * @returns Rendered content
  */
 export function render(content: string, variables: TemplateVariables): string {
-  let result = content;
-
-  // Phase 1: Process block structures (arrays and conditionals)
-  // Must happen first because blocks can contain variables
-  result = renderBlocks(result, variables);
-
-  // Phase 2: Process nested property access (OBJECT.PROPERTY)
-  result = renderNestedProperties(result, variables);
-
-  // Phase 3: Process simple variables
-  result = renderVariables(result, variables);
-
-  return result;
+  // Single pass over blocks, nested properties and variables in document
+  // order. Inserted values are never expanded again - they may contain
+  // {{...}} themselves (e.g. a conflict hunk from a template file).
+  return content.replace(
+    PATTERNS.TAG,
+    (_match, blockName?: string, blockContent?: string, path?: string, variableName?: string) => {
+      if (blockName !== undefined) {
+        return renderBlock(blockName, blockContent ?? '', variables);
+      }
+      if (path !== undefined) {
+        return formatValue(getNestedValue(variables, path));
+      }
+      return formatValue(variables[variableName ?? '']);
+    }
+  );
 }
 
 // ============================================================================
@@ -191,51 +199,23 @@ function loadTemplate(templateName: string): string {
 // ============================================================================
 
 /**
- * Replace simple {{VARIABLE}} patterns with values
+ * String form of a {{VARIABLE}} or {{OBJECT.PROPERTY}} value
  *
- * @param content - Content to process
- * @param variables - Variable values
- * @returns Content with variables replaced
+ * @param value - Variable value
+ * @returns Empty string for missing values, JSON for arrays/objects
  */
-function renderVariables(content: string, variables: TemplateVariables): string {
-  return content.replace(PATTERNS.VARIABLE, (_match, variableName: string) => {
-    const value = variables[variableName];
-
-    // Handle missing variables
-    if (value === undefined || value === null) {
-      return ''; // Empty string for missing values
-    }
-
-    // Handle arrays/objects (shouldn't happen with simple variables, but be safe)
-    if (typeof value === 'object') {
-      return JSON.stringify(value);
-    }
-
-    return String(value);
-  });
-}
-
-/**
- * Replace {{OBJECT.PROPERTY}} patterns with nested values
- *
- * @param content - Content to process
- * @param variables - Variable values
- * @returns Content with nested properties replaced
- */
-function renderNestedProperties(content: string, variables: TemplateVariables): string {
-  return content.replace(PATTERNS.NESTED, (_match, path: string) => {
-    const value = getNestedValue(variables, path);
-
-    if (value === undefined || value === null) {
-      return '';
-    }
+function formatValue(value: TemplateValue): string {
+  // Handle missing variables
+  if (value === undefined || value === null) {
+    return ''; // Empty string for missing values
+  }
 
-    if (typeof value === 'object') {
-      return JSON.stringify(value);
-    }
+  // Handle arrays/objects (shouldn't happen with simple variables, but be safe)
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
 
-    return String(value);
-  });
+  return String(value);
 }
 
 /**
@@ -265,39 +245,38 @@ function getNestedValue(obj: TemplateVariables, path: string): TemplateValue {
 // ============================================================================
 
 /**
- * Process {{#BLOCK}} ... {{/BLOCK}} structures
+ * Render one {{#BLOCK}} ... {{/BLOCK}} structure
  *
  * Supports two use cases:
  * 1. Array iteration - renders block for each array item
  * 2. Conditional rendering - renders block if value is truthy
  *
- * @param content - Content to process
+ * @param blockName - Variable named by the block
+ * @param blockContent - Template content between the block tags
  * @param variables - Variables including arrays and conditionals
- * @returns Content with blocks rendered
+ * @returns Rendered block
  */
-function renderBlocks(content: string, variables: TemplateVariables): string {
-  return content.replace(PATTERNS.BLOCK, (_match, blockName: string, blockContent: string) => {
-    const value = variables[blockName];
+function renderBlock(blockName: string, blockContent: string, variables: TemplateVariables): string {
+  const value = variables[blockName];
 
-    // Case 1: Array iteration
-    if (Array.isArray(value)) {
-      return renderArrayBlock(blockContent, value);
-    }
+  // Case 1: Array iteration
+  if (Array.isArray(value)) {
+    return renderArrayBlock(blockContent, value);
+  }
 
-    // Case 2: Conditional rendering
-    // Render block if value is truthy (non-empty string, true, non-zero number)
-    if (isTruthy(value)) {
-      // If it's an object, use it as the context for rendering
-      if (typeof value === 'object' && value !== null) {
-        return render(blockContent, value as TemplateVariables);
-      }
-      // Otherwise just render with original variables
-      return render(blockContent, variables);
+  // Case 2: Conditional rendering
+  // Render block if value is truthy (non-empty string, true, non-zero number)
+  if (isTruthy(value)) {
+    // If it's an object, use it as the context for rendering
+    if (typeof value === 'object' && value !== null) {
+      return render(blockContent, value as TemplateVariables);
     }
+    // Otherwise just render with original variables
+    return render(blockContent, variables);
+  }
 
-    // Value is falsy, don't render block
-    return '';
-  });
+  // Value is falsy, don't render block
+  return '';
 }
 
 /**
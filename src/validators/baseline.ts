@@ -0,0 +1,129 @@
+/**
+ * Validation baselines on origin/main
+ *
+ * For "no-regressions" validation a diagnostics validator is also run on a
+ * detached checkout of origin/main; errors that exist there too are not the
+ * stream's to fix. Baselines are cached per main commit and validator
+ * definition (VALIDATION_BASELINE_DIR), so each main commit is checked once
+ * per validator no matter how many streams merge it.
+ *
+ * The checkout borrows the worktree's installed node_modules (symlinked),
+ * so nothing is installed.
+ *
+ * @module validators/baseline
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { simpleGit } from 'simple-git';
+
+import { config } from '../config.js';
+import type { Diagnostic, ValidatorDefinition } from '../types.js';
+import { listWorkspacePackages } from './test-validator.js';
+
+export interface Baseline {
+  commit: string; // origin/main commit the diagnostics were collected on
+  diagnostics: Diagnostic[];
+}
+
+// One baseline checkout at a time - each is a full validator run
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Diagnostics of origin/main for a validator, from cache or a fresh run
+ *
+ * @param workingDir - Absolute path to the stream worktree
+ * @param definition - Validator definition (part of the cache key)
+ * @param collect - Runs the validator in a checkout and returns its diagnostics
+ * @throws Error when origin/main can't be resolved or checked out
+ */
+export async function loadBaseline(
+  workingDir: string,
+  definition: ValidatorDefinition,
+  collect: (checkoutDir: string) => Promise<Diagnostic[]>
+): Promise<Baseline> {
+  const git = simpleGit(workingDir);
+  const commit = (await git.revparse(['origin/main'])).trim();
+  const cachePath = join(config.VALIDATION_BASELINE_DIR, commit, `${definition.name}-${definitionHash(definition)}.json`);
+
+  const cached = readCachedBaseline(cachePath);
+  if (cached) {
+    return { commit, diagnostics: cached };
+  }
+
+  const run = queue.then(async () => {
+    const again = readCachedBaseline(cachePath);
+    if (again) return again;
+
+    console.error(`[validators] Computing ${definition.name} baseline on origin/main (${commit.slice(0, 8)})...`);
+    const checkoutDir = join(mkdtempSync(join(tmpdir(), 'stream-baseline-')), 'main');
+    await git.raw(['worktree', 'add', '--detach', checkoutDir, commit]);
+    try {
+      linkNodeModules(workingDir, checkoutDir);
+      const diagnostics = await collect(checkoutDir);
+
+      mkdirSync(dirname(cachePath), { recursive: true });
+      writeFileSync(cachePath, JSON.stringify(diagnostics));
+      return diagnostics;
+    } finally {
+      await git.raw(['worktree', 'remove', '--force', checkoutDir]).catch(() => {});
+      rmSync(dirname(checkoutDir), { recursive: true, force: true });
+    }
+  });
+  queue = run.catch(() => {});
+
+  return { commit, diagnostics: await run };
+}
+
+/**
+ * Errors that are not on main (matched by file, code and message, so moved
+ * lines still match; each baseline error absorbs one occurrence)
+ */
+export function subtractBaseline(diagnostics: Diagnostic[], baseline: Diagnostic[]): Diagnostic[] {
+  const key = (d: Diagnostic) => `${d.file}\0${d.code}\0${d.message}`;
+  const remaining = new Map<string, number>();
+  for (const d of baseline) {
+    remaining.set(key(d), (remaining.get(key(d)) ?? 0) + 1);
+  }
+
+  return diagnostics.filter((d) => {
+    const count = remaining.get(key(d)) ?? 0;
+    if (count === 0) return true;
+    remaining.set(key(d), count - 1);
+    return false;
+  });
+}
+
+function readCachedBaseline(cachePath: string): Diagnostic[] | null {
+  if (!existsSync(cachePath)) {
+    return null;
+  }
+  try {
+    return JSON.parse(readFileSync(cachePath, 'utf-8')) as Diagnostic[];
+  } catch {
+    return null; // Partial write - recompute
+  }
+}
+
+/**
+ * Short hash of what a command validator's output depends on
+ */
+export function definitionHash(definition: ValidatorDefinition): string {
+  const { command, cwd, env, format } = definition;
+  return createHash('sha256').update(JSON.stringify({ command, cwd, env, format })).digest('hex').slice(0, 12);
+}
+
+/**
+ * Symlink the worktree's node_modules (root and workspace packages) into the checkout
+ */
+function linkNodeModules(workingDir: string, checkoutDir: string): void {
+  for (const dir of ['', ...listWorkspacePackages(workingDir)]) {
+    const source = join(workingDir, dir, 'node_modules');
+    const target = join(checkoutDir, dir, 'node_modules');
+    if (existsSync(source) && existsSync(dirname(target)) && !existsSync(target)) {
+      symlinkSync(source, target, 'dir');
+    }
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Validation result cache
+ *
+ * Results are stored per tree and validator in VALIDATION_CACHE_DIR:
+ *   <tree-hash>/<validator-name>-<key>.json
+ * - tree hash: `git write-tree` of the worktree (only when it has no
+ *   uncommitted or untracked changes - otherwise nothing is cached)
+ * - key: the validator's configHash() plus the origin/main commit, which
+ *   no-regressions baselines and the test validator's scope depend on
+ *
+ * Validators without configHash() are never cached, and neither are results
+ * that may not repeat: only passes, and failures that carry diagnostics or
+ * test failures, are stored (not timeouts, runner errors, exceptions or
+ * results marked cacheable: false, such as no-regressions without a baseline).
+ * clearValidationCache() drops everything, for when the toolchain itself
+ * changed.
+ *
+ * @module validators/cache
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { simpleGit } from 'simple-git';
+
+import { config } from '../config.js';
+import type { ValidationResult, Validator } from '../types.js';
+
+const MAX_CACHED_TREES = 200;
+
+export interface TreeKey {
+  tree: string;
+  main: string; // origin/main commit, '' when missing
+}
+
+/**
+ * Cache key of the worktree's current state, or null when it can't be cached
+ *
+ * @param workingDir - Absolute path to worktree root
+ */
+export async function getTreeKey(workingDir: string): Promise<TreeKey | null> {
+  try {
+    const git = simpleGit(workingDir);
+    if ((await git.raw(['status', '--porcelain'])).trim()) {
+      return null; // Validators see files the tree hash doesn't cover
+    }
+    const tree = (await git.raw(['write-tree'])).trim();
+    const main = await git.revparse(['origin/main']).then((hash) => hash.trim(), () => '');
+    return tree ? { tree, main } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Cached result of a validator for a tree, or null
+ */
+export function readCachedResult(key: TreeKey, validator: Validator): ValidationResult | null {
+  const path = resultPath(key, validator);
+  if (!path || !existsSync(path)) {
+    return null;
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as ValidationResult;
+  } catch {
+    return null; // Partial write - run again
+  }
+}
+
+/**
+ * Store a validator's result for a tree (no-op for uncacheable validators
+ * and results)
+ */
+export function writeCachedResult(key: TreeKey, validator: Validator, result: ValidationResult): void {
+  const path = resultPath(key, validator);
+  if (!path || !isDeterministic(result)) {
+    return;
+  }
+  try {
+    mkdirSync(join(config.VALIDATION_CACHE_DIR, key.tree), { recursive: true });
+    writeFileSync(path, JSON.stringify(result));
+    pruneCache();
+  } catch (error) {
+    console.error(`[validators] Could not cache ${validator.name} result: ${error}`);
+  }
+}
+
+/**
+ * Drop all cached validation results of this project
+ */
+export function clearValidationCache(): void {
+  rmSync(config.VALIDATION_CACHE_DIR, { recursive: true, force: true });
+  console.error(`[validators] Validation cache cleared (${config.VALIDATION_CACHE_DIR})`);
+}
+
+/**
+ * A pass, or a failure explained by diagnostics or failed tests - the same
+ * tree gives the same result again
+ */
+function isDeterministic(result: ValidationResult): boolean {
+  if (result.cacheable === false) {
+    return false;
+  }
+  return result.passed || (result.diagnostics?.length ?? 0) > 0 || (result.testFailures?.length ?? 0) > 0;
+}
+
+function resultPath(key: TreeKey, validator: Validator): string | null {
+  if (!validator.configHash) {
+    return null;
+  }
+  const hash = createHash('sha256').update(`${validator.configHash()}\0${key.main}`).digest('hex').slice(0, 12);
+  return join(config.VALIDATION_CACHE_DIR, key.tree, `${validator.name.replace(/[^\w.-]/g, '_')}-${hash}.json`);
+}
+
+/**
+ * Keep the most recently written MAX_CACHED_TREES trees
+ */
+function pruneCache(): void {
+  const trees = readdirSync(config.VALIDATION_CACHE_DIR);
+  if (trees.length <= MAX_CACHED_TREES) {
+    return;
+  }
+  const byAge = trees
+    .map((tree) => ({ tree, mtime: statSync(join(config.VALIDATION_CACHE_DIR, tree)).mtimeMs }))
+    .sort((a, b) => a.mtime - b.mtime);
+  for (const { tree } of byAge.slice(0, trees.length - MAX_CACHED_TREES)) {
+    rmSync(join(config.VALIDATION_CACHE_DIR, tree), { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Command Validator
+ *
+ * Runs one shell command in the worktree; exit code 0 = passed.
+ * Used for every validator declared in the project's validator config
+ * and for the built-in typescript/build/lint checks.
+ *
+ * On failure, tsc and eslint output is parsed into diagnostics (see
+ * ./diagnostics.ts); other output is reported as its last lines. In
+ * 'no-regressions' mode, diagnostics that origin/main has too are ignored
+ * (see ./baseline.ts).
+ *
+ * @module validators/command-validator
+ */
+
+import { exec, type ExecException } from 'node:child_process';
+import { resolve } from 'node:path';
+import { promisify } from 'node:util';
+
+import { config } from '../config.js';
+import type { Diagnostic, Validator, ValidationMode, ValidationResult, ValidatorDefinition } from '../types.js';
+import { definitionHash, loadBaseline, subtractBaseline, type Baseline } from './baseline.js';
+import { classifyDiagnostics, inferDiagnosticFormat, parseDiagnostics, summarizeDiagnostics } from './diagnostics.js';
+
+const execAsync = promisify(exec);
+
+const MAX_OUTPUT_LINES = 20;
+const MAX_BUFFER = 10 * 1024 * 1024;
+
+interface CommandRun {
+  passed: boolean;
+  timedOut: boolean;
+  output: string; // stdout + stderr
+  diagnostics: Diagnostic[]; // Parsed when the command failed
+}
+
+export class CommandValidator implements Validator {
+  name: string;
+  required: boolean;
+
+  /**
+   * @param mode - 'no-regressions' ignores tsc/eslint errors that origin/main has too
+   */
+  constructor(
+    private definition: ValidatorDefinition,
+    private mode: ValidationMode = 'strict'
+  ) {
+    this.name = definition.name;
+    this.required = definition.required ?? true;
+  }
+
+  async validate(workingDir: string): Promise<ValidationResult> {
+    const run = await this.run(workingDir);
+
+    if (run.passed) {
+      return { passed: true, errors: [], warnings: [], details: run.output };
+    }
+
+    if (run.timedOut) {
+      return { passed: false, errors: [`[${this.name}] Timed out after ${this.timeout}ms: ${this.definition.command}`], warnings: [], details: run.output };
+    }
+
+    if (!run.diagnostics.some((d) => d.severity === 'error')) {
+      return { passed: false, errors: outputTail(run.output, this.name), warnings: [], details: run.output };
+    }
+
+    if (this.mode === 'no-regressions') {
+      return this.compareWithBaseline(workingDir, run);
+    }
+
+    const classified = await classifyDiagnostics(run.diagnostics, workingDir);
+    return { passed: false, errors: [summarizeDiagnostics(this.name, classified)], warnings: [], details: run.output, diagnostics: classified };
+  }
+
+  configHash(): string {
+    return `${definitionHash(this.definition)}:${this.mode}`;
+  }
+
+  private get timeout(): number {
+    return this.definition.timeout ?? config.VALIDATION_TIMEOUT;
+  }
+
+  private async run(workingDir: string): Promise<CommandRun> {
+    const { command, cwd = '.', env = {} } = this.definition;
+    const format = this.definition.format ?? inferDiagnosticFormat(command);
+    const commandDir = resolve(workingDir, cwd);
+
+    try {
+      const { stdout, stderr } = await execAsync(command, {
+        cwd: commandDir,
+        timeout: this.timeout,
+        env: { ...process.env, ...env },
+        maxBuffer: MAX_BUFFER,
+      });
+      return { passed: true, timedOut: false, output: `${stdout}${stderr}`.trim(), diagnostics: [] };
+    } catch (error) {
+      const { stdout = '', stderr = '', killed, message } = error as ExecException & { stdout?: string; stderr?: string };
+      return {
+        passed: false,
+        timedOut: !!killed,
+        output: `${stdout}${stderr}`.trim() || message,
+        diagnostics: killed ? [] : parseDiagnostics(format, stdout, commandDir, workingDir),
+      };
+    }
+  }
+
+  /**
+   * Fail only for errors origin/main doesn't have; strict when no baseline
+   * (not cached - the baseline may load on the next run)
+   */
+  private async compareWithBaseline(workingDir: string, run: CommandRun): Promise<ValidationResult> {
+    const errors = run.diagnostics.filter((d) => d.severity === 'error');
+
+    let baseline: Baseline;
+    try {
+      baseline = await loadBaseline(workingDir, this.definition, async (checkoutDir) => {
+        const mainRun = await this.run(checkoutDir);
+        if (!mainRun.passed && (mainRun.timedOut || mainRun.diagnostics.length === 0)) {
+          throw new Error(mainRun.timedOut ? 'timed out' : `failed without diagnostics: ${mainRun.output.split('\n').pop()}`);
+        }
+        return mainRun.diagnostics;
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const classified = await classifyDiagnostics(run.diagnostics, workingDir);
+      return {
+        passed: false,
+        errors: [summarizeDiagnostics(this.name, classified)],
+        warnings: [`[${this.name}] No baseline on origin/main, validated strictly: ${errorMessage}`],
+        details: run.output,
+        diagnostics: classified,
+        cacheable: false,
+      };
+    }
+
+    const regressions = subtractBaseline(errors, baseline.diagnostics);
+    const ignored = errors.length - regressions.length;
+    const main = `origin/main (${baseline.commit.slice(0, 8)})`;
+    const warnings = ignored > 0 ? [`[${this.name}] ${ignored} error(s) also on ${main} ignored (no-regressions)`] : [];
+
+    if (regressions.length === 0) {
+      return { passed: true, errors: [], warnings, details: run.output };
+    }
+
+    const files = new Set(regressions.map((d) => d.file)).size;
+    return {
+      passed: false,
+      errors: [`[${this.name}] ${regressions.length} new error(s) vs ${main} in ${files} file(s)${ignored > 0 ? `; ${ignored} already on main ignored` : ''}`],
+      warnings,
+      details: run.output,
+      diagnostics: regressions,
+    };
+  }
+}
+
+/**
+ * Last lines of unparsed output - runners print the failure summary last
+ */
+function outputTail(output: string, name: string): string[] {
+  const lines = output.split('\n').map((line) => line.trimEnd()).filter((line) => line.trim());
+  if (lines.length === 0) return [`${name}: Failed (no output captured)`];
+
+  const tail = lines.slice(-MAX_OUTPUT_LINES).map((line) => `[${name}] ${line.trim()}`);
+  return lines.length > MAX_OUTPUT_LINES ? [`[${name}] ... ${lines.length - MAX_OUTPUT_LINES} earlier line(s) omitted`, ...tail] : tail;
+}
@@ -0,0 +1,164 @@
+/**
+ * Structured diagnostics for TypeScript and ESLint validators
+ *
+ * Parses `tsc --pretty false` output and `eslint --format json` output into
+ * Diagnostic records, marks each as in a file the stream changed or
+ * pre-existing, and formats them grouped by file.
+ *
+ * @module validators/diagnostics
+ */
+
+import { isAbsolute, join, normalize, relative } from 'node:path';
+
+import type { Diagnostic, ValidatorDefinition } from '../types.js';
+import { streamChangedFiles } from './stream-diff.js';
+
+export type DiagnosticFormat = NonNullable<ValidatorDefinition['format']>;
+
+// src/app.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.
+const TSC_LINE = /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/;
+
+/**
+ * Output format of a validator command when not declared
+ */
+export function inferDiagnosticFormat(command: string): DiagnosticFormat {
+  if (/\btsc\b/.test(command)) return 'tsc';
+  if (/\beslint\b.*(--format|-f)[ =]json\b/.test(command)) return 'eslint';
+  return 'text';
+}
+
+/**
+ * Parse diagnostics from validator output
+ *
+ * @param output - Command stdout (tsc and eslint write diagnostics there)
+ * @param cwd - Absolute directory the command ran in (tsc paths are relative to it)
+ * @param workingDir - Absolute worktree root (diagnostic paths are made relative to it)
+ */
+export function parseDiagnostics(format: DiagnosticFormat, output: string, cwd: string, workingDir: string): Diagnostic[] {
+  switch (format) {
+    case 'tsc':
+      return parseTscOutput(output, cwd, workingDir);
+    case 'eslint':
+      return parseEslintOutput(output, workingDir);
+    default:
+      return [];
+  }
+}
+
+function parseTscOutput(output: string, cwd: string, workingDir: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  for (const line of output.split('\n')) {
+    const match = line.match(TSC_LINE);
+    if (match) {
+      const [, file, lineNo, col, severity, code, message] = match;
+      diagnostics.push({
+        file: toWorktreePath(isAbsolute(file) ? file : join(cwd, file), workingDir),
+        line: Number(lineNo),
+        col: Number(col),
+        code,
+        message,
+        severity: severity as Diagnostic['severity'],
+      });
+    } else if (/^\s+\S/.test(line) && diagnostics.length > 0) {
+      // Indented continuation of a multi-line message
+      diagnostics[diagnostics.length - 1].message += ` ${line.trim()}`;
+    }
+  }
+
+  return diagnostics;
+}
+
+function parseEslintOutput(output: string, workingDir: string): Diagnostic[] {
+  // Package manager scripts may print a header before the JSON array
+  const start = output.indexOf('[');
+  const end = output.lastIndexOf(']');
+  if (start === -1 || end < start) return [];
+
+  let results: unknown;
+  try {
+    results = JSON.parse(output.slice(start, end + 1));
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(results)) return [];
+
+  return (results as { filePath: string; messages?: { ruleId: string | null; severity: number; message: string; line?: number; column?: number }[] }[]).flatMap(
+    (result) =>
+      (result.messages ?? []).map(
+        (m): Diagnostic => ({
+          file: toWorktreePath(result.filePath, workingDir),
+          line: m.line ?? 0,
+          col: m.column ?? 0,
+          code: m.ruleId ?? 'parse-error',
+          message: m.message,
+          severity: m.severity === 2 ? 'error' : 'warning',
+        })
+      )
+  );
+}
+
+/**
+ * Mark diagnostics in files the stream changed as 'stream', the rest as
+ * 'pre-existing' (left without origin when the diff is unavailable)
+ */
+export async function classifyDiagnostics(diagnostics: Diagnostic[], workingDir: string): Promise<Diagnostic[]> {
+  let changed: Set<string>;
+  try {
+    changed = new Set(await streamChangedFiles(workingDir));
+  } catch {
+    return diagnostics;
+  }
+  return diagnostics.map((d) => ({ ...d, origin: changed.has(d.file) ? 'stream' : 'pre-existing' }));
+}
+
+/**
+ * One-line summary for ValidationResult.errors
+ */
+export function summarizeDiagnostics(validator: string, diagnostics: Diagnostic[]): string {
+  const errors = diagnostics.filter((d) => d.severity === 'error');
+  const files = new Set(errors.map((d) => d.file)).size;
+  const stream = errors.filter((d) => d.origin === 'stream').length;
+  const split = errors.some((d) => d.origin) ? `: ${stream} in files this stream changed, ${errors.length - stream} pre-existing` : '';
+  return `[${validator}] ${errors.length} error(s) in ${files} file(s)${split}`;
+}
+
+/**
+ * Format diagnostics grouped by file, stream-introduced first
+ *
+ * @param limit - Maximum diagnostics shown (per origin group)
+ */
+export function formatDiagnostics(diagnostics: Diagnostic[], limit = 30): string {
+  const groups: [string, Diagnostic[]][] = diagnostics.some((d) => d.origin)
+    ? [
+        ['In files this stream changed (fix these):', diagnostics.filter((d) => d.origin === 'stream')],
+        ["Pre-existing (files the stream didn't change):", diagnostics.filter((d) => d.origin !== 'stream')],
+      ]
+    : [['', diagnostics]];
+
+  let output = '';
+  for (const [title, group] of groups) {
+    if (group.length === 0) continue;
+    const indent = title ? '    ' : '  ';
+    if (title) output += `  ${title}\n`;
+
+    const byFile = new Map<string, Diagnostic[]>();
+    for (const d of group.slice(0, limit)) {
+      byFile.set(d.file, [...(byFile.get(d.file) ?? []), d]);
+    }
+    for (const [file, fileDiagnostics] of byFile) {
+      output += `${indent}${file}\n`;
+      for (const d of fileDiagnostics) {
+        output += `${indent}  ${d.line}:${d.col}  ${d.severity}  ${d.code}  ${d.message}\n`;
+      }
+    }
+    if (group.length > limit) {
+      output += `${indent}... and ${group.length - limit} more\n`;
+    }
+  }
+  return output.trimEnd();
+}
+
+function toWorktreePath(file: string, workingDir: string): string {
+  return normalize(isAbsolute(file) ? relative(workingDir, file) : file);
+}
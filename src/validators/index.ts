@@ -1,138 +1,274 @@
 /**
  * Validation runners for post-merge checks
  *
- * Runs TypeScript, build, and lint validation after conflict resolution
- * to ensure the merge didn't break anything.
+ * Runs the project's validators after conflict resolution to ensure the
+ * merge didn't break anything. Validators come from:
+ * - The project's validator config (VALIDATOR_CONFIG_PATH), or the built-in
+ *   typescript/build/lint commands when there is none (build and lint run
+ *   the package.json script, and are advisory when there is none)
+ * - The test validator (test suites of the packages the stream changed),
+ *   unless the config declares a validator named "test"
+ * - registerValidator() for validators implemented in code
+ *
+ * config.VALIDATORS[name] === false skips a validator. Validators run one
+ * after another, in the order above (build before test). Required validators
+ * block the merge when they fail; advisory ones are only reported. In
+ * "no-regressions" mode, tsc/eslint validators only fail for errors that
+ * origin/main doesn't have (see ./baseline.ts). Results are cached per git
+ * tree (see ./cache.ts).
+ *
+ * @module validators
  */
 
-import { exec } from 'node:child_process';
-import { promisify } from 'node:util';
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
 
 import { config } from '../config.js';
+import type { Validator, ValidationMode, ValidationResult, ValidatorDefinition, PrepareMergeResponse } from '../types.js';
+import { CommandValidator } from './command-validator.js';
+import { TestValidator } from './test-validator.js';
+import type { DiagnosticFormat } from './diagnostics.js';
+import { clearValidationCache, getTreeKey, readCachedResult, writeCachedResult } from './cache.js';
 
-const execAsync = promisify(exec);
-
-interface ValidationResult {
-  typescript: boolean;
-  build: boolean;
-  lint: boolean;
-  allPassed: boolean;
-  errors: string[];
-}
+/**
+ * Used when the project has no validator config
+ */
+const DEFAULT_VALIDATORS: ValidatorDefinition[] = [
+  { name: 'typescript', command: 'npx tsc --noEmit --pretty false', required: true },
+  { name: 'build', command: 'pnpm build', required: true },
+  { name: 'lint', command: 'npx eslint . --format json', required: true },
+];
 
-export async function runValidation(workingDir: string): Promise<ValidationResult> {
-  const result: ValidationResult = {
-    typescript: true,
-    build: true,
-    lint: true,
-    allPassed: true,
-    errors: [],
-  };
+/**
+ * Built-in validators that run the package.json script of the same name
+ * when there is one, and are advisory when there is none
+ */
+const SCRIPT_VALIDATORS = ['build', 'lint'];
 
-  // Run validators in parallel
-  const [tsResult, buildResult, lintResult] = await Promise.all([
-    config.VALIDATORS.typescript ? runTypeScript(workingDir) : { passed: true, errors: [] },
-    config.VALIDATORS.build ? runBuild(workingDir) : { passed: true, errors: [] },
-    config.VALIDATORS.lint ? runLint(workingDir) : { passed: true, errors: [] },
-  ]);
+/**
+ * A lint script that is a single eslint command - it accepts --format json
+ */
+const ESLINT_SCRIPT = /^\s*eslint\b[^&|;]*$/;
 
-  result.typescript = tsResult.passed;
-  result.build = buildResult.passed;
-  result.lint = lintResult.passed;
+const DIAGNOSTIC_FORMATS: DiagnosticFormat[] = ['tsc', 'eslint', 'text'];
+const VALIDATION_MODES: ValidationMode[] = ['strict', 'no-regressions'];
 
-  result.errors = [...tsResult.errors, ...buildResult.errors, ...lintResult.errors];
+let registered: Validator[] = [];
 
-  result.allPassed = result.typescript && result.build && result.lint;
+/**
+ * Register a validator implemented in code (runs after the configured ones)
+ */
+export function registerValidator(validator: Validator): void {
+  if (registered.some((v) => v.name === validator.name)) {
+    throw new Error(`Validator "${validator.name}" is already registered`);
+  }
+  registered = [...registered, validator];
+}
 
-  return result;
+/**
+ * Drop validators added with registerValidator (used by tests)
+ */
+export function resetValidators(): void {
+  registered = [];
 }
 
-interface SingleValidationResult {
-  passed: boolean;
-  errors: string[];
+export interface ValidatorConfig {
+  mode: ValidationMode;
+  validators: ValidatorDefinition[];
 }
 
-async function runTypeScript(workingDir: string): Promise<SingleValidationResult> {
-  try {
-    console.error('[validators] Running TypeScript check...');
-    await execAsync('npx tsc --noEmit', {
-      cwd: workingDir,
-      timeout: config.VALIDATION_TIMEOUT,
-    });
-    console.error('[validators] TypeScript: PASSED');
-    return { passed: true, errors: [] };
-  } catch (error) {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const output = error instanceof Error ? (error as any).stdout || error.message : String(error);
-    console.error('[validators] TypeScript: FAILED');
-    return {
-      passed: false,
-      errors: parseErrors(output, 'TypeScript'),
-    };
+/**
+ * Read the project's validator config
+ *
+ * Format: {
+ *   "mode"?: "strict" | "no-regressions",
+ *   "validators": [{ "name", "command", "cwd"?, "timeout"?, "required"?, "env"?, "format"? }]
+ * }
+ *
+ * @returns Declared validators, or the built-in ones (strict) when the file is absent
+ * @throws Error naming the file and entry when the config is invalid
+ */
+export function loadValidatorConfig(): ValidatorConfig {
+  const configPath = join(config.PROJECT_ROOT, config.VALIDATOR_CONFIG_PATH);
+  if (!existsSync(configPath)) {
+    return { mode: 'strict', validators: defaultValidators() };
   }
-}
 
-async function runBuild(workingDir: string): Promise<SingleValidationResult> {
+  const invalid = (reason: string) => new Error(`Invalid validator config ${configPath}: ${reason}`);
+
+  let parsed: unknown;
   try {
-    console.error('[validators] Running build check...');
-    // Use --dry-run or turbo check if available
-    await execAsync('pnpm build --dry-run 2>/dev/null || pnpm turbo build --dry-run 2>/dev/null || echo "Build check skipped"', {
-      cwd: workingDir,
-      timeout: config.VALIDATION_TIMEOUT,
-    });
-    console.error('[validators] Build: PASSED');
-    return { passed: true, errors: [] };
+    parsed = JSON.parse(readFileSync(configPath, 'utf-8'));
   } catch (error) {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const output = error instanceof Error ? (error as any).stdout || error.message : String(error);
-    console.error('[validators] Build: FAILED');
-    return {
-      passed: false,
-      errors: parseErrors(output, 'Build'),
-    };
+    throw invalid(error instanceof Error ? error.message : String(error));
   }
+
+  const { mode = 'strict', validators: entries } = (parsed ?? {}) as { mode?: unknown; validators?: unknown };
+  if (!Array.isArray(entries)) {
+    throw invalid('expected { "validators": [...] }');
+  }
+  if (!VALIDATION_MODES.includes(mode as ValidationMode)) {
+    throw invalid(`mode must be one of ${VALIDATION_MODES.join(', ')}`);
+  }
+
+  const names = new Set<string>();
+  const validators = entries.map((entry, index) => {
+    const e = (entry ?? {}) as Record<string, unknown>;
+    const label = typeof e.name === 'string' ? `"${e.name}"` : `validators[${index}]`;
+
+    if (typeof e.name !== 'string' || !e.name) throw invalid(`${label}: name must be a non-empty string`);
+    if (names.has(e.name)) throw invalid(`${label}: duplicate name`);
+    if (typeof e.command !== 'string' || !e.command) throw invalid(`${label}: command must be a non-empty string`);
+    if (e.cwd !== undefined && typeof e.cwd !== 'string') throw invalid(`${label}: cwd must be a string`);
+    if (e.timeout !== undefined && (typeof e.timeout !== 'number' || !(e.timeout > 0))) {
+      throw invalid(`${label}: timeout must be a positive number of milliseconds`);
+    }
+    if (e.required !== undefined && typeof e.required !== 'boolean') throw invalid(`${label}: required must be true or false`);
+    if (
+      e.env !== undefined &&
+      (typeof e.env !== 'object' || e.env === null || Object.values(e.env).some((v) => typeof v !== 'string'))
+    ) {
+      throw invalid(`${label}: env must map names to strings`);
+    }
+    if (e.format !== undefined && !DIAGNOSTIC_FORMATS.includes(e.format as DiagnosticFormat)) {
+      throw invalid(`${label}: format must be one of ${DIAGNOSTIC_FORMATS.join(', ')}`);
+    }
+
+    names.add(e.name);
+    return e as unknown as ValidatorDefinition;
+  });
+
+  return { mode: mode as ValidationMode, validators };
 }
 
-async function runLint(workingDir: string): Promise<SingleValidationResult> {
+/**
+ * Built-in validators; build/lint run the package.json script, or are advisory without one
+ */
+function defaultValidators(): ValidatorDefinition[] {
+  let scripts: Record<string, unknown> = {};
   try {
-    console.error('[validators] Running lint check...');
-    await execAsync('pnpm lint 2>/dev/null || echo "Lint check skipped"', {
-      cwd: workingDir,
-      timeout: config.VALIDATION_TIMEOUT,
-    });
-    console.error('[validators] Lint: PASSED');
-    return { passed: true, errors: [] };
-  } catch (error) {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const output = error instanceof Error ? (error as any).stdout || error.message : String(error);
-    console.error('[validators] Lint: FAILED');
-    return {
-      passed: false,
-      errors: parseErrors(output, 'Lint'),
-    };
+    scripts = JSON.parse(readFileSync(join(config.PROJECT_ROOT, 'package.json'), 'utf-8')).scripts ?? {};
+  } catch {
+    // No package.json - nothing declares a build or lint step
   }
-}
 
-function parseErrors(output: string, type: string): string[] {
-  if (!output) return [`${type}: Unknown error`];
-
-  // Split output into lines and filter for error-like patterns
-  const lines = output.split('\n').filter((line) => {
-    const lower = line.toLowerCase();
-    return (
-      lower.includes('error') ||
-      lower.includes('fail') ||
-      line.includes('TS') || // TypeScript errors
-      line.includes(':') // File:line:col patterns
-    );
+  return DEFAULT_VALIDATORS.map((definition): ValidatorDefinition => {
+    if (!SCRIPT_VALIDATORS.includes(definition.name)) {
+      return definition;
+    }
+
+    const script = scripts[definition.name];
+    if (typeof script !== 'string') {
+      return { ...definition, required: false };
+    }
+    // Diagnostics (and no-regressions) only when the script's output format is known
+    return ESLINT_SCRIPT.test(script)
+      ? { ...definition, command: `pnpm ${definition.name} --format json`, format: 'eslint' }
+      : { ...definition, command: `pnpm ${definition.name}`, format: 'text' };
   });
+}
 
-  // Limit to first 50 errors
-  const errors = lines.slice(0, 50).map((line) => `[${type}] ${line.trim()}`);
+/**
+ * Validators prepare_merge runs, in order, after config.VALIDATORS toggles
+ */
+export function getValidators(): Validator[] {
+  const { mode, validators: definitions } = loadValidatorConfig();
+  const configured = definitions.map((d) => new CommandValidator(d, mode));
+  const builtIn = [new TestValidator()].filter((v) => !configured.some((c) => c.name === v.name));
+  const validators = [...configured, ...builtIn, ...registered];
+  return validators.filter((v) => config.VALIDATORS[v.name] !== false);
+}
 
-  if (lines.length > 50) {
-    errors.push(`[${type}] ... and ${lines.length - 50} more errors`);
+export interface ValidatorOutcome {
+  name: string;
+  required: boolean;
+  result: ValidationResult;
+  cached: boolean; // Result of an earlier run on the same tree
+}
+
+export interface ValidationRun {
+  outcomes: ValidatorOutcome[];
+  allPassed: boolean; // Every required validator passed
+  errors: string[]; // From failed required validators
+  warnings: string[]; // From failed advisory validators, plus validator warnings
+}
+
+/**
+ * Run all enabled validators one after another, in getValidators() order
+ *
+ * Sequential so build output exists before the tests run and the
+ * validators don't compete for the machine. A validator that throws counts as failed with the error message.
+ * Results cached for the same tree are returned without running.
+ *
+ * @param workingDir - Absolute path to worktree root
+ * @param options.clearCache - Drop all cached results first (toolchain changed)
+ */
+export async function runValidation(workingDir: string, options: { clearCache?: boolean } = {}): Promise<ValidationRun> {
+  if (options.clearCache) {
+    clearValidationCache();
+  }
+  const treeKey = await getTreeKey(workingDir);
+
+  const outcomes: ValidatorOutcome[] = [];
+  for (const validator of getValidators()) {
+    const required = validator.required ?? true;
+
+    const cached = treeKey && readCachedResult(treeKey, validator);
+    if (cached) {
+      console.error(`[validators] ${validator.name}: ${cached.passed ? 'PASSED' : 'FAILED'} (cached)`);
+      outcomes.push({ name: validator.name, required, result: cached, cached: true });
+      continue;
+    }
+
+    console.error(`[validators] Running ${validator.name}...`);
+
+    let result: ValidationResult;
+    try {
+      result = await validator.validate(workingDir);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      result = { passed: false, errors: [`[${validator.name}] ${errorMessage}`], warnings: [] };
+    }
+
+    console.error(`[validators] ${validator.name}: ${result.passed ? 'PASSED' : required ? 'FAILED' : 'FAILED (advisory)'}`);
+    if (treeKey) {
+      writeCachedResult(treeKey, validator, result);
+    }
+    outcomes.push({ name: validator.name, required, result, cached: false });
+  }
+
+  const failed = outcomes.filter((o) => !o.result.passed);
+  return {
+    outcomes,
+    allPassed: failed.every((o) => !o.required),
+    errors: failed.filter((o) => o.required).flatMap((o) => o.result.errors),
+    warnings: [
+      ...failed.filter((o) => !o.required).flatMap((o) => o.result.errors),
+      ...outcomes.flatMap((o) => o.result.warnings),
+    ],
+  };
+}
+
+/**
+ * Pass/fail per validator name (PrepareMergeResponse.validation)
+ */
+export function validationStatus(run: ValidationRun): PrepareMergeResponse['validation'] {
+  return Object.fromEntries(run.outcomes.map((o) => [o.name, o.result.passed ? 'passed' : 'failed']));
+}
+
+/**
+ * Format one line per validator for the prepare_merge response
+ */
+export function formatValidationResults(run: ValidationRun): string {
+  if (run.outcomes.length === 0) {
+    return '  No validators enabled';
   }
 
-  return errors.length > 0 ? errors : [`${type}: Failed (no specific errors captured)`];
+  const outcomes = new Map(run.outcomes.map((o) => [o.name, o]));
+  return Object.entries(validationStatus(run))
+    .map(([name, status]) => {
+      const { required, cached } = outcomes.get(name)!;
+      return `  ${name}: ${status.toUpperCase()}${required ? '' : ' (advisory)'}${cached ? ' (cached)' : ''}`;
+    })
+    .join('\n');
 }
@@ -0,0 +1,26 @@
+/**
+ * Files the stream changed, for scoping validators
+ *
+ * Diff of HEAD against its merge base with origin/main. After prepare_merge
+ * has merged main in, the merge base is main itself, so this is exactly what
+ * the stream would bring to main.
+ *
+ * @module validators/stream-diff
+ */
+
+import { simpleGit } from 'simple-git';
+
+/**
+ * Paths (relative to the worktree root) changed by the stream
+ *
+ * @param workingDir - Absolute path to worktree root
+ * @throws Error when there is no merge base with origin/main
+ */
+export async function streamChangedFiles(workingDir: string): Promise<string[]> {
+  const git = simpleGit(workingDir);
+  const base = (await git.raw(['merge-base', 'HEAD', 'origin/main'])).trim();
+  if (!base) {
+    throw new Error('no merge base with origin/main');
+  }
+  return (await git.raw(['diff', '--name-only', base, 'HEAD'])).split('\n').filter(Boolean);
+}
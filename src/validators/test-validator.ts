@@ -0,0 +1,387 @@
+/**
+ * Test Validator
+ *
+ * Runs the test suites of the workspace packages the stream changed:
+ * 1. Detect each package's runner from its package.json "test" script
+ *    (vitest, jest or node:test)
+ * 2. Map the stream's diff against main (merge-base..HEAD) to workspace
+ *    packages (pnpm-workspace.yaml or package.json "workspaces")
+ * 3. Run each package's runner with a JSON reporter and collect failed
+ *    tests with their files
+ *
+ * Runs everything when TEST_VALIDATION_SCOPE is 'all', when root config
+ * changed (package.json, lockfile, tsconfig, runner config), or when the
+ * diff can't be computed. Passes with a warning when there is nothing to run.
+ *
+ * @module validators/test-validator
+ */
+
+import { exec, type ExecException } from 'node:child_process';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { basename, isAbsolute, join, relative } from 'node:path';
+import { promisify } from 'node:util';
+import { parse as parseYaml } from 'yaml';
+
+import { config } from '../config.js';
+import type { TestFailure, ValidationResult, Validator } from '../types.js';
+import { streamChangedFiles } from './stream-diff.js';
+
+const execAsync = promisify(exec);
+
+const MAX_BUFFER = 20 * 1024 * 1024;
+const MAX_MESSAGE_CHARS = 200;
+
+export type TestRunner = 'vitest' | 'jest' | 'node';
+
+/**
+ * Root files whose change can affect every package's tests
+ */
+const ROOT_CONFIG_PATTERN =
+  /^(package\.json|pnpm-lock\.yaml|package-lock\.json|yarn\.lock|pnpm-workspace\.yaml|tsconfig[^/]*\.json|(vitest|vite|jest)\.(config|workspace)\.[cm]?[jt]s)$/;
+
+/**
+ * Reports node:test results in the same shape the other runners' JSON
+ * reporters are reduced to
+ */
+const NODE_JSON_REPORTER = `export default async function* reporter(source) {
+  const failed = [];
+  let passed = 0;
+  for await (const event of source) {
+    if (event.data?.details?.type === 'suite') continue;
+    if (event.type === 'test:pass') passed++;
+    if (event.type === 'test:fail') {
+      const error = event.data.details?.error;
+      failed.push({ file: event.data.file ?? '', name: event.data.name, message: String(error?.cause?.message ?? error?.message ?? '') });
+    }
+  }
+  yield JSON.stringify({ passed, failed });
+}
+`;
+
+interface TestTarget {
+  dir: string; // Relative to the worktree root ('' = root)
+  runner: TestRunner;
+}
+
+interface TestRun {
+  passed: number;
+  failures: TestFailure[];
+  error: string | null; // Runner failed without a usable report
+}
+
+export class TestValidator implements Validator {
+  name = 'test';
+  required = true;
+
+  configHash(): string {
+    return `${config.TEST_VALIDATION_SCOPE}:${config.VALIDATION_TIMEOUT}`;
+  }
+
+  async validate(workingDir: string): Promise<ValidationResult> {
+    const packages = listWorkspacePackages(workingDir);
+    const { targets, reason } =
+      config.TEST_VALIDATION_SCOPE === 'all'
+        ? { targets: allTargets(workingDir, packages), reason: 'full run (TEST_VALIDATION_SCOPE=all)' }
+        : await changedTargets(workingDir, packages);
+
+    if (targets.length === 0) {
+      return { passed: true, errors: [], warnings: [`[test] No tests run: ${reason}`], details: reason };
+    }
+
+    const errors: string[] = [];
+    const testFailures: TestFailure[] = [];
+    const summary: string[] = [`Scope: ${reason}`];
+
+    for (const target of targets) {
+      const label = `${target.dir || '.'} (${target.runner})`;
+      console.error(`[validators] Running tests in ${label}...`);
+      const run = await runTests(workingDir, target);
+
+      testFailures.push(...run.failures);
+      if (run.error) {
+        errors.push(`[test] ${label}: ${run.error}`);
+      } else if (run.failures.length > 0) {
+        errors.push(`[test] ${label}: ${run.failures.length} failed test(s)`);
+      }
+      summary.push(`${label}: ${run.passed} passed, ${run.failures.length} failed${run.error ? ' (runner error)' : ''}`);
+    }
+
+    return { passed: errors.length === 0, errors, warnings: [], details: summary.join('\n'), testFailures };
+  }
+}
+
+/**
+ * Test runner from a package's "test" script, or null if not recognised
+ */
+export function detectTestRunner(packageDir: string): TestRunner | null {
+  const script = readPackageJson(packageDir)?.scripts?.test;
+  if (typeof script !== 'string') return null;
+  if (/\bvitest\b/.test(script)) return 'vitest';
+  if (/\bjest\b/.test(script)) return 'jest';
+  if (/\bnode\b[^&|;]*\s--test\b/.test(script)) return 'node';
+  return null;
+}
+
+/**
+ * Workspace package directories (relative to root), from pnpm-workspace.yaml
+ * or package.json "workspaces"; empty for a single-package repo
+ */
+export function listWorkspacePackages(root: string): string[] {
+  let patterns: unknown;
+
+  const pnpmWorkspace = join(root, 'pnpm-workspace.yaml');
+  if (existsSync(pnpmWorkspace)) {
+    try {
+      patterns = (parseYaml(readFileSync(pnpmWorkspace, 'utf-8')) as { packages?: unknown } | null)?.packages;
+    } catch {
+      // Unreadable workspace file - treat as single package
+    }
+  } else {
+    const workspaces = readPackageJson(root)?.workspaces;
+    patterns = Array.isArray(workspaces) ? workspaces : (workspaces as { packages?: unknown } | undefined)?.packages;
+  }
+
+  if (!Array.isArray(patterns)) return [];
+
+  const dirs = new Set<string>();
+  for (const pattern of patterns) {
+    if (typeof pattern !== 'string' || pattern.startsWith('!')) continue;
+    for (const dir of expandPattern(root, pattern)) {
+      if (dir && existsSync(join(root, dir, 'package.json'))) dirs.add(dir);
+    }
+  }
+  return [...dirs].sort();
+}
+
+/**
+ * Reduce a vitest/jest JSON report (same format) to failed tests
+ */
+export function parseJsonReport(report: unknown, workingDir: string): Omit<TestRun, 'error'> {
+  const r = report as {
+    numPassedTests?: number;
+    testResults?: {
+      name: string;
+      status?: string;
+      message?: string;
+      assertionResults?: { fullName?: string; title?: string; status: string; failureMessages?: string[] }[];
+    }[];
+  };
+
+  const failures: TestFailure[] = [];
+  for (const file of r.testResults ?? []) {
+    const failed = (file.assertionResults ?? []).filter((a) => a.status === 'failed');
+    for (const assertion of failed) {
+      failures.push({
+        file: toRelative(file.name, workingDir),
+        name: assertion.fullName || assertion.title || '(unnamed test)',
+        message: firstLine(assertion.failureMessages?.[0] ?? ''),
+      });
+    }
+    if (failed.length === 0 && file.status === 'failed') {
+      failures.push({ file: toRelative(file.name, workingDir), name: '(test file failed to run)', message: firstLine(file.message ?? '') });
+    }
+  }
+
+  return { passed: r.numPassedTests ?? 0, failures };
+}
+
+/**
+ * Format failed tests grouped by file, for the prepare_merge failure response
+ */
+export function formatTestFailures(failures: TestFailure[], limit = 20): string {
+  const byFile = new Map<string, TestFailure[]>();
+  for (const failure of failures.slice(0, limit)) {
+    byFile.set(failure.file, [...(byFile.get(failure.file) ?? []), failure]);
+  }
+
+  let output = '';
+  for (const [file, fileFailures] of byFile) {
+    output += `  ${file || '(unknown file)'}\n`;
+    for (const f of fileFailures) {
+      output += `    ✗ ${f.name}${f.message ? ` - ${f.message}` : ''}\n`;
+    }
+  }
+  if (failures.length > limit) {
+    output += `  ... and ${failures.length - limit} more\n`;
+  }
+  return output.trimEnd();
+}
+
+async function changedTargets(
+  workingDir: string,
+  packages: string[]
+): Promise<{ targets: TestTarget[]; reason: string }> {
+  let changed: string[];
+  try {
+    changed = await streamChangedFiles(workingDir);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { targets: allTargets(workingDir, packages), reason: `full run (diff unavailable: ${errorMessage.trim()})` };
+  }
+
+  if (changed.length === 0) {
+    return { targets: [], reason: 'stream changes no files' };
+  }
+
+  const rootConfig = changed.find((file) => ROOT_CONFIG_PATTERN.test(file));
+  if (packages.length === 0 || rootConfig) {
+    return {
+      targets: allTargets(workingDir, packages),
+      reason: packages.length === 0 ? 'full run (single package)' : `full run (${rootConfig} changed)`,
+    };
+  }
+
+  const touched = packages.filter((dir) => changed.some((file) => file.startsWith(`${dir}/`)));
+  const targets = touched.flatMap((dir) => target(workingDir, dir));
+  return {
+    targets,
+    reason:
+      touched.length === 0
+        ? 'stream changes no workspace package'
+        : `changed packages: ${touched.join(', ')}${targets.length < touched.length ? ' (some without a recognised test script)' : ''}`,
+  };
+}
+
+/**
+ * The root suite when its test script is recognised, else every package's
+ */
+function allTargets(workingDir: string, packages: string[]): TestTarget[] {
+  const root = target(workingDir, '');
+  return root.length > 0 ? root : packages.flatMap((dir) => target(workingDir, dir));
+}
+
+function target(workingDir: string, dir: string): TestTarget[] {
+  const runner = detectTestRunner(join(workingDir, dir));
+  return runner ? [{ dir, runner }] : [];
+}
+
+async function runTests(workingDir: string, target: TestTarget): Promise<TestRun> {
+  const outDir = mkdtempSync(join(tmpdir(), 'stream-tests-'));
+  const outFile = join(outDir, 'results.json');
+
+  let command: string;
+  switch (target.runner) {
+    case 'vitest':
+      command = `npx --no-install vitest run --reporter=json --outputFile=${JSON.stringify(outFile)}`;
+      break;
+    case 'jest':
+      command = `npx --no-install jest --ci --json --outputFile=${JSON.stringify(outFile)}`;
+      break;
+    case 'node': {
+      const reporter = join(outDir, 'reporter.mjs');
+      writeFileSync(reporter, NODE_JSON_REPORTER);
+      command = `node --test --test-reporter=${JSON.stringify(reporter)} --test-reporter-destination=${JSON.stringify(outFile)}`;
+      break;
+    }
+  }
+
+  let execError: (ExecException & { stdout?: string; stderr?: string }) | null = null;
+  try {
+    await execAsync(command, {
+      cwd: join(workingDir, target.dir),
+      timeout: config.VALIDATION_TIMEOUT,
+      env: { ...process.env, CI: 'true' },
+      maxBuffer: MAX_BUFFER,
+    });
+  } catch (error) {
+    execError = error as ExecException & { stdout?: string; stderr?: string };
+  }
+
+  try {
+    if (execError?.killed) {
+      return { passed: 0, failures: [], error: `timed out after ${config.VALIDATION_TIMEOUT}ms` };
+    }
+
+    let report: unknown = null;
+    try {
+      report = JSON.parse(readFileSync(outFile, 'utf-8'));
+    } catch {
+      // No report - runner failed before writing it
+    }
+
+    if (report) {
+      const run =
+        target.runner === 'node'
+          ? parseNodeReport(report, join(workingDir, target.dir), workingDir)
+          : parseJsonReport(report, workingDir);
+      const error = execError && run.failures.length === 0 ? firstLine(execError.stderr || execError.message) : null;
+      return { ...run, error };
+    }
+
+    return {
+      passed: 0,
+      failures: [],
+      error: execError ? firstLine(execError.stderr || execError.stdout || execError.message) : null,
+    };
+  } finally {
+    rmSync(outDir, { recursive: true, force: true });
+  }
+}
+
+function parseNodeReport(report: unknown, packageDir: string, workingDir: string): Omit<TestRun, 'error'> {
+  const r = report as { passed: number; failed: TestFailure[] };
+  return {
+    passed: r.passed,
+    failures: r.failed.map((f) => ({
+      file: f.file ? toRelative(isAbsolute(f.file) ? f.file : join(packageDir, f.file), workingDir) : '',
+      name: f.name,
+      message: firstLine(f.message),
+    })),
+  };
+}
+
+/**
+ * Directories matching a workspace pattern ('*' = one level, '**' = any depth)
+ */
+function expandPattern(root: string, pattern: string): string[] {
+  let dirs = [''];
+  for (const part of pattern.replace(/^\.\//, '').replace(/\/+$/, '').split('/')) {
+    const next: string[] = [];
+    for (const dir of dirs) {
+      if (part === '**') {
+        next.push(dir, ...subdirectories(root, dir, true));
+      } else if (part.includes('*')) {
+        const re = new RegExp(`^${part.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`);
+        next.push(...subdirectories(root, dir, false).filter((d) => re.test(basename(d))));
+      } else {
+        next.push(dir ? `${dir}/${part}` : part);
+      }
+    }
+    dirs = next;
+  }
+  return dirs;
+}
+
+function subdirectories(root: string, dir: string, recursive: boolean): string[] {
+  let entries;
+  try {
+    entries = readdirSync(join(root, dir), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  return entries
+    .filter((e) => e.isDirectory() && e.name !== 'node_modules' && !e.name.startsWith('.'))
+    .flatMap((e) => {
+      const path = dir ? `${dir}/${e.name}` : e.name;
+      return recursive ? [path, ...subdirectories(root, path, true)] : [path];
+    });
+}
+
+function readPackageJson(dir: string): { scripts?: Record<string, unknown>; workspaces?: unknown } | null {
+  try {
+    return JSON.parse(readFileSync(join(dir, 'package.json'), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function toRelative(file: string, workingDir: string): string {
+  return isAbsolute(file) ? relative(workingDir, file) : file;
+}
+
+function firstLine(text: string): string {
+  const line = text.replace(/\x1b\[[0-9;]*m/g, '').split('\n').map((l) => l.trim()).find(Boolean) ?? '';
+  return line.length > MAX_MESSAGE_CHARS ? `${line.slice(0, MAX_MESSAGE_CHARS)}...` : line;
+}
@@ -32,8 +32,11 @@ export class MyStrategy implements ConflictStrategy {
    *
    * Available in context:
    * - file: string (path to conflicted file)
-   * - oursContent: string (main's version)
-   * - theirsContent: string (stream's version)
+   * - worktreePath: string (absolute path, merge in progress)
+   * - versions: { base, ours, theirs } (full file at each index stage;
+   *   ours = stream, theirs = main, null if the file is absent on that side)
+   * - hunks: ConflictHunk[] (per-hunk ours/base/theirs with line ranges)
+   * - oursContent / theirsContent: string (all hunks of one side, joined)
    * - conflictContent: string (with <<<<<<< markers)
    * - mainCommits: GitCommit[] (what main was doing)
    * - streamCommits: GitCommit[] (what stream was doing)
@@ -41,8 +44,11 @@ export class MyStrategy implements ConflictStrategy {
    * Your job:
    * 1. Understand both sides
    * 2. Merge them intelligently (preserve both intents)
-   * 3. Write resolved content to the file
-   * 4. Return success
+   * 3. Return the resolved content - do NOT write the file yourself
+   *
+   * The strategy registry (src/strategies/index.ts) writes and stages the
+   * content only when confidence is 'high'. Medium/low results are shown
+   * to the agent as suggestions.
    *
    * @param context - Full conflict context
    * @returns Resolution result
@@ -6,6 +6,7 @@ import { Validator, ValidationResult } from '../types';
  */
 export class MyValidator implements Validator {
   name = 'my-validator';  // TODO: Give this a descriptive name
+  required = true;  // TODO: false = advisory (reported, never blocks the merge)
 
   /**
    * TODO: Run your validation checks
@@ -50,6 +51,14 @@ export class MyValidator implements Validator {
     };
   }
 
+  /**
+   * Optional: enables result caching per git tree. Return a hash of every
+   * setting the result depends on besides the tree (omit to never cache).
+   */
+  // configHash(): string {
+  //   return 'v1';
+  // }
+
   // TODO: Add any helper methods you need
   // private async runCommand(...) { }
   // private parseOutput(...) { }
@@ -0,0 +1,93 @@
+/**
+ * apply_conflict_action Tool Tests
+ *
+ * Test Coverage:
+ * 1. keep-rename-target resolves a rename/rename conflict
+ * 2. keep-theirs on modify/delete deletes the file
+ * 3. Rejects paths that are not in conflict
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const location = vi.hoisted(() => ({ worktreePath: '' }));
+
+vi.mock('../src/utils/stream-metadata.js', () => ({
+  resolveStreamLocation: async (streamId?: string) => ({
+    streamId: streamId || 'stream-1500-test',
+    worktreePath: location.worktreePath,
+    registry: null,
+  }),
+}));
+
+vi.mock('../src/config.js', () => ({
+  config: { CONFLICT_HISTORY_MAX_COMMITS: 10, CONFLICT_HISTORY_DIFF_BUDGET: 1000 },
+}));
+
+import { createTestGitRepo, cleanupTestEnv, type TestEnvironment } from './test-helpers.js';
+import { applyConflictAction } from '../src/tools/apply-conflict-action.js';
+
+describe('apply_conflict_action', () => {
+  let env: TestEnvironment;
+
+  beforeEach(async () => {
+    env = await createTestGitRepo();
+    location.worktreePath = env.projectRoot;
+
+    const { git, projectRoot } = env;
+    const mainBranch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    const lines = (tag: string) => Array.from({ length: 20 }, (_, i) => `${tag} line ${i}`).join('\n') + '\n';
+
+    writeFileSync(join(projectRoot, 'old-name.ts'), lines('rename'));
+    writeFileSync(join(projectRoot, 'notes.md'), lines('notes'));
+    await git.add('.');
+    await git.commit('base');
+
+    await git.checkoutLocalBranch('stream-1500-test');
+    await git.mv('old-name.ts', 'stream-name.ts');
+    writeFileSync(join(projectRoot, 'notes.md'), lines('notes') + 'stream edit\n');
+    await git.add('.');
+    await git.commit('stream rename and edit');
+
+    await git.checkout(mainBranch);
+    await git.mv('old-name.ts', 'main-name.ts');
+    unlinkSync(join(projectRoot, 'notes.md'));
+    await git.add('.');
+    await git.commit('main rename and delete');
+
+    await git.checkout('stream-1500-test');
+    await git.merge([mainBranch]).catch(() => {});
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('keeps one rename target and removes the source and the other name', async () => {
+    const result = await applyConflictAction({ file: 'stream-name.ts', action: 'keep-rename-target' });
+    const text = result.content[0].text!;
+
+    expect(text).toContain('CONFLICT ACTION APPLIED');
+    expect(text).toContain('removed old-name.ts');
+    expect(text).toContain('removed main-name.ts');
+    expect(text).toContain('Remaining conflicts: 1');
+
+    expect(existsSync(join(env.projectRoot, 'stream-name.ts'))).toBe(true);
+    expect(existsSync(join(env.projectRoot, 'main-name.ts'))).toBe(false);
+    expect((await env.git.status()).conflicted).toEqual(['notes.md']);
+  });
+
+  it('deletes the file when keeping the side that deleted it', async () => {
+    const result = await applyConflictAction({ file: 'notes.md', action: 'keep-theirs' });
+
+    expect(result.content[0].text).toContain('delete the file (main deleted it)');
+    expect(existsSync(join(env.projectRoot, 'notes.md'))).toBe(false);
+    expect((await env.git.status()).conflicted).not.toContain('notes.md');
+  });
+
+  it('rejects files that are not in conflict', async () => {
+    const result = await applyConflictAction({ file: 'README.md', action: 'keep-ours' });
+    expect(result.content[0].text).toContain('apply_conflict_action failed: README.md is not in conflict');
+  });
+});
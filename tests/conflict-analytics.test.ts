@@ -0,0 +1,153 @@
+/**
+ * Conflict Analytics Tests
+ *
+ * Test Coverage:
+ * 1. Hotspots, colliding stream pairs and strategy outcomes from store events
+ * 2. Rollbacks count against the stream's latest merge only
+ * 3. prepare_merge conflicts are recorded with strategy and colliding streams
+ * 4. Nothing is recorded while FEATURES.conflictAnalytics is off
+ * 5. conflict_report formats the summary
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const mockConfig = vi.hoisted(() => ({
+  CONFLICT_HISTORY_MAX_COMMITS: 10,
+  CONFLICT_HISTORY_DIFF_BUDGET: 1000,
+  CONFLICT_ANALYTICS_PATH: '',
+  FEATURES: { binaryFileSupport: false, conflictAnalytics: true },
+}));
+const registry = vi.hoisted(() => ({ streams: [] as unknown[] }));
+
+vi.mock('../src/config.js', () => ({ config: mockConfig }));
+vi.mock('../src/state-manager.js', () => ({ listStreams: async () => registry.streams }));
+
+import { createTestGitRepo, cleanupTestEnv, type TestEnvironment } from './test-helpers.js';
+import { extractConflicts } from '../src/conflict-resolver.js';
+import {
+  appendConflictAnalytics,
+  readConflictAnalytics,
+  recordMergeConflicts,
+  summarizeConflictAnalytics,
+} from '../src/conflict-analytics.js';
+import { conflictReport } from '../src/tools/conflict-report.js';
+import type { ConflictAnalyticsEvent, ConflictAnalyticsRecord } from '../src/types.js';
+
+function conflict(streamId: string, mainCommit: string, file: string, strategy: string, timestamp: string, collidesWith: string[] = []): ConflictAnalyticsRecord {
+  return { type: 'conflict', timestamp, streamId, mainCommit, file, conflictType: 'code', strategy, confidence: null, collidesWith };
+}
+
+const events: ConflictAnalyticsEvent[] = [
+  conflict('stream-1', 'm1', 'src/app.ts', 'agent', '2026-09-01T10:00:00Z', ['stream-2']),
+  conflict('stream-1', 'm1', 'package.json', 'json-merge', '2026-09-01T10:00:00Z'),
+  { type: 'validation', timestamp: '2026-09-01T11:00:00Z', streamId: 'stream-1', mainCommit: 'm1', passed: true },
+  conflict('stream-3', 'm2', 'src/app.ts', 'agent', '2026-10-02T10:00:00Z', ['stream-2']),
+  { type: 'validation', timestamp: '2026-10-02T11:00:00Z', streamId: 'stream-3', mainCommit: 'm2', passed: false },
+  { type: 'validation', timestamp: '2026-10-02T12:00:00Z', streamId: 'stream-3', mainCommit: 'm2', passed: true },
+  conflict('stream-1', 'm3', 'src/app.ts', 'agent', '2026-10-05T10:00:00Z'),
+  { type: 'validation', timestamp: '2026-10-05T11:00:00Z', streamId: 'stream-1', mainCommit: 'm3', passed: true },
+  { type: 'rollback', timestamp: '2026-10-06T10:00:00Z', streamId: 'stream-1', revertCommit: 'r1' },
+];
+
+describe('summarizeConflictAnalytics', () => {
+  it('ranks hotspot files and colliding stream pairs', () => {
+    const summary = summarizeConflictAnalytics(events);
+
+    expect(summary).toMatchObject({ conflicts: 4, merges: 3 });
+    expect(summary.hotspots[0]).toEqual({ file: 'src/app.ts', conflicts: 3, streams: 2, lastSeen: '2026-10-05T10:00:00Z' });
+    expect(summary.collisions).toEqual([{ streams: ['stream-1', 'stream-2'], conflicts: 1, files: 1 }, { streams: ['stream-2', 'stream-3'], conflicts: 1, files: 1 }]);
+  });
+
+  it('uses the last validation result and charges rollbacks to the latest merge', () => {
+    const agent = summarizeConflictAnalytics(events).strategies.find((s) => s.strategy === 'agent');
+
+    expect(agent?.outcomes).toEqual({ passed: 2, failed: 0, 'rolled-back': 1, unknown: 0 });
+    expect(agent?.byMonth).toEqual([
+      { month: '2026-09', passed: 1, decided: 1 },
+      { month: '2026-10', passed: 1, decided: 2 },
+    ]);
+  });
+
+  it('only counts conflicts recorded after since', () => {
+    const summary = summarizeConflictAnalytics(events, new Date('2026-10-01T00:00:00Z'));
+
+    expect(summary.conflicts).toBe(2);
+    expect(summary.strategies.map((s) => s.strategy)).toEqual(['agent']);
+  });
+});
+
+describe('conflict analytics store', () => {
+  let env: TestEnvironment;
+
+  beforeEach(async () => {
+    env = await createTestGitRepo();
+    mockConfig.CONFLICT_ANALYTICS_PATH = join(env.worktreeRoot, '..', 'analytics', 'conflicts.jsonl');
+    mockConfig.FEATURES.conflictAnalytics = true;
+  });
+
+  afterEach(() => {
+    registry.streams = [];
+    cleanupTestEnv(env);
+  });
+
+  it('records merge conflicts with the stream whose commits on main collided', async () => {
+    const { git, projectRoot } = env;
+    const mainBranch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    writeFileSync(join(projectRoot, 'app.ts'), 'export const a = 1;\n');
+    await git.add('.');
+    await git.commit('base');
+    const base = (await git.revparse(['HEAD'])).trim();
+
+    await git.checkoutLocalBranch('stream-2000-test');
+    writeFileSync(join(projectRoot, 'app.ts'), 'export const a = 2;\n');
+    await git.commit('stream change', ['.']);
+
+    await git.checkout(mainBranch);
+    writeFileSync(join(projectRoot, 'app.ts'), 'export const a = 3;\n');
+    await git.commit('other stream change', ['.']);
+    const landed = (await git.revparse(['HEAD'])).trim();
+    registry.streams = [{ streamId: 'stream-1999-other', lastMerge: { baseCommit: base, headCommit: landed, mergedAt: '' } }];
+
+    await git.checkout('stream-2000-test');
+    await git.merge([mainBranch]).catch(() => {});
+    const conflicts = await extractConflicts(projectRoot, ['app.ts'], 'stream-2000-test');
+
+    await recordMergeConflicts(git, 'stream-2000-test', conflicts, []);
+
+    expect(readConflictAnalytics()).toEqual([
+      expect.objectContaining({
+        type: 'conflict',
+        streamId: 'stream-2000-test',
+        mainCommit: landed,
+        file: 'app.ts',
+        strategy: 'agent',
+        confidence: null,
+        collidesWith: ['stream-1999-other'],
+      }),
+    ]);
+  });
+
+  it('records nothing while the feature is off', () => {
+    mockConfig.FEATURES.conflictAnalytics = false;
+
+    appendConflictAnalytics(events);
+
+    expect(existsSync(mockConfig.CONFLICT_ANALYTICS_PATH)).toBe(false);
+  });
+
+  it('reports hotspots, pairs and strategy success rates', async () => {
+    appendConflictAnalytics(events);
+
+    const text = (await conflictReport({})).content[0].text!;
+
+    expect(text).toContain('4 conflicted file(s) in 3 merge(s)');
+    expect(text).toContain('     3  src/app.ts  (2 stream(s), last 2026-10-05)');
+    expect(text).toContain('     1  stream-1 ↔ stream-2  (1 file(s))');
+    expect(text).toContain('  agent: 3 conflict(s) - 67% success');
+    expect(text).toContain('      passed 2, validation failed 0, rolled back 1, no result yet 0');
+    expect(text).toContain('      2026-09: 1/1  2026-10: 1/2');
+    expect((await conflictReport({ days: 0 })).content[0].text).toBe('conflict_report failed: days must be a positive number (got 0)');
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Conflict Marker Guard Tests
+ *
+ * Test Coverage:
+ * 1. Marker detection, with ======= allowed as a Markdown/RST heading underline
+ * 2. Staged files are scanned, binary files skipped
+ * 3. The pre-commit hook is installed once and blocks commits with markers in
+ *    stream worktrees; the main checkout skips the check
+ * 4. An existing pre-commit hook is chained after the check; a custom core.hooksPath is left alone
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { simpleGit } from 'simple-git';
+
+import { createTestGitRepo, cleanupTestEnv, type TestEnvironment } from './test-helpers.js';
+import {
+  findStagedConflictMarkers,
+  installConflictMarkerHook,
+  scanConflictMarkers,
+} from '../src/utils/conflict-markers.js';
+
+const leaked = ['const a = 1;', '<<<<<<< HEAD', 'const b = 2;', '=======', 'const b = 3;', '>>>>>>> origin/main', ''].join('\n');
+
+describe('scanConflictMarkers', () => {
+  it('reports every marker line with its location', () => {
+    expect(scanConflictMarkers(leaked, 'src/a.ts')).toEqual([
+      { file: 'src/a.ts', line: 2, marker: '<<<<<<< HEAD' },
+      { file: 'src/a.ts', line: 4, marker: '=======' },
+      { file: 'src/a.ts', line: 6, marker: '>>>>>>> origin/main' },
+    ]);
+  });
+
+  it('treats a lone ======= as a heading underline in Markdown and RST only', () => {
+    const heading = 'Title\n=======\n\nBody\n';
+
+    expect(scanConflictMarkers(heading, 'docs/guide.md')).toEqual([]);
+    expect(scanConflictMarkers(heading, 'docs/guide.rst')).toEqual([]);
+    expect(scanConflictMarkers(heading, 'src/guide.ts')).toHaveLength(1);
+    expect(scanConflictMarkers(leaked, 'docs/guide.md').map((m) => m.line)).toEqual([2, 4, 6]);
+  });
+
+  it('ignores marker-like text that is not at the start of a line', () => {
+    expect(scanConflictMarkers("  '<<<<<<< HEAD',\n// =======\n<<<<<<<<<< arrows", 'src/a.ts')).toEqual([]);
+  });
+});
+
+describe('staged conflict markers', () => {
+  let env: TestEnvironment;
+
+  beforeEach(async () => {
+    // Ignore config injected through the environment (e.g. core.hooksPath=/dev/null)
+    vi.stubEnv('GIT_CONFIG_COUNT', '0');
+    env = await createTestGitRepo();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    cleanupTestEnv(env);
+  });
+
+  it('scans staged files and skips binaries', async () => {
+    writeFileSync(join(env.projectRoot, 'a.ts'), leaked);
+    writeFileSync(join(env.projectRoot, 'notes.md'), 'Notes\n=======\n');
+    writeFileSync(join(env.projectRoot, 'blob.dat'), Buffer.concat([Buffer.from('<<<<<<< HEAD\n'), Buffer.alloc(4)]));
+    await env.git.add('.');
+
+    const locations = await findStagedConflictMarkers(env.git);
+
+    expect(locations.map((l) => `${l.file}:${l.line}`)).toEqual(['a.ts:2', 'a.ts:4', 'a.ts:6']);
+  });
+
+  /**
+   * Linked worktree on a stream branch - the hook only checks commits there
+   */
+  const addStreamWorktree = async () => {
+    const worktreePath = join(env.worktreeRoot, 'stream-2100-guard');
+    await env.git.raw(['worktree', 'add', '-b', 'stream-2100-guard', worktreePath]);
+    return { worktreePath, stream: simpleGit(worktreePath) };
+  };
+
+  it('installs the pre-commit hook once and blocks commits with markers', async () => {
+    const { worktreePath, stream } = await addStreamWorktree();
+    expect(await installConflictMarkerHook(stream, worktreePath)).toBe('installed');
+    expect(await installConflictMarkerHook(stream, worktreePath)).toBe('present');
+
+    writeFileSync(join(worktreePath, 'a.ts'), leaked);
+    await stream.add('.');
+    await expect(stream.commit('leak')).rejects.toThrow(/a\.ts:2: <<<<<<< HEAD/);
+
+    writeFileSync(join(worktreePath, 'a.ts'), 'const b = 3;\n');
+    writeFileSync(join(worktreePath, 'notes.md'), 'Notes\n=======\n');
+    await stream.add('.');
+    await expect(stream.commit('clean')).resolves.toBeTruthy();
+  });
+
+  it('chains an existing pre-commit hook after the check', async () => {
+    const { worktreePath, stream } = await addStreamWorktree();
+    const hookPath = join(env.projectRoot, '.git/hooks/pre-commit');
+    const ran = join(env.projectRoot, '.git/chained-ran');
+    writeFileSync(hookPath, `#!/bin/sh\ntouch '${ran}'\nexit 0\n`, { mode: 0o755 });
+
+    expect(await installConflictMarkerHook(stream, worktreePath)).toBe('chained');
+    expect(readFileSync(`${hookPath}.chained`, 'utf-8')).toContain('chained-ran');
+    expect(await installConflictMarkerHook(stream, worktreePath)).toBe('present');
+
+    writeFileSync(join(worktreePath, 'a.ts'), leaked);
+    await stream.add('.');
+    await expect(stream.commit('leak')).rejects.toThrow(/a\.ts:2: <<<<<<< HEAD/);
+    expect(existsSync(ran)).toBe(false);
+
+    writeFileSync(join(worktreePath, 'a.ts'), 'const b = 3;\n');
+    await stream.add('.');
+    await stream.commit('clean');
+    expect(existsSync(ran)).toBe(true);
+  });
+
+  it('skips the check in the main checkout but still runs the chained hook', async () => {
+    const { worktreePath, stream } = await addStreamWorktree();
+    const ran = join(env.projectRoot, '.git/chained-ran');
+    writeFileSync(join(env.projectRoot, '.git/hooks/pre-commit'), `#!/bin/sh\ntouch '${ran}'\nexit 0\n`, { mode: 0o755 });
+    await installConflictMarkerHook(stream, worktreePath);
+
+    writeFileSync(join(env.projectRoot, 'a.ts'), leaked);
+    await env.git.add('.');
+
+    await expect(env.git.commit('main commit')).resolves.toBeTruthy();
+    expect(existsSync(ran)).toBe(true);
+  });
+
+  it('leaves a custom core.hooksPath alone', async () => {
+    await env.git.addConfig('core.hooksPath', '.husky');
+
+    expect(await installConflictMarkerHook(env.git, env.projectRoot)).toBe('skipped');
+    expect(existsSync(join(env.projectRoot, '.husky'))).toBe(false);
+  });
+});
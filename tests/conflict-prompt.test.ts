@@ -0,0 +1,161 @@
+/**
+ * Conflict Prompt Tests
+ *
+ * Test Coverage:
+ * 1. Stream purpose is read from HANDOFF.md (title + Objective)
+ * 2. The conflict report renders prompts/conflict-resolution.txt per file,
+ *    with the rules once and hunk text inserted verbatim
+ * 3. Whole-file content variables are filled only while they fit the budget
+ * 4. A per-project prompt at CONFLICT_PROMPT_PATH replaces the bundled one
+ * 5. prompts/get renders the prompt for one conflicted file
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const location = vi.hoisted(() => ({ worktreePath: '' }));
+const mockConfig = vi.hoisted(() => ({
+  CONFLICT_HISTORY_MAX_COMMITS: 10,
+  CONFLICT_HISTORY_DIFF_BUDGET: 1000,
+  CONFLICT_RESPONSE_BUDGET: 60000,
+  CONFLICT_HUNK_MAX_CHARS: 8000,
+  MAX_FILE_SIZE: 100 * 1024,
+  PROJECT_ROOT: '',
+  CONFLICT_PROMPT_PATH: '.project/prompts/conflict-resolution.txt',
+  FEATURES: { binaryFileSupport: false },
+}));
+
+vi.mock('../src/utils/stream-metadata.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/utils/stream-metadata.js')>()),
+  resolveStreamLocation: async (streamId?: string) => ({
+    streamId: streamId || 'stream-1900-test',
+    worktreePath: location.worktreePath,
+    registry: null,
+  }),
+}));
+
+vi.mock('../src/config.js', () => ({ config: mockConfig }));
+
+import { createTestGitRepo, cleanupTestEnv, type TestEnvironment } from './test-helpers.js';
+import { extractConflicts, formatConflictsForAgent, renderConflictPrompt } from '../src/conflict-resolver.js';
+import { getPrompt } from '../src/mcp-prompts.js';
+import { readStreamPurpose } from '../src/utils/stream-metadata.js';
+
+const handoff = [
+  '# Stream Handoff: Add escrow payments',
+  '',
+  '**Stream ID**: stream-1900-test',
+  '',
+  '---',
+  '',
+  '## Objective',
+  '',
+  'Hold buyer funds until delivery is confirmed.',
+  '',
+  '---',
+  '',
+  '## Resources',
+  '',
+].join('\n');
+
+describe('conflict prompt', () => {
+  let env: TestEnvironment;
+
+  beforeEach(async () => {
+    env = await createTestGitRepo();
+    location.worktreePath = env.projectRoot;
+    mockConfig.PROJECT_ROOT = join(env.projectRoot, 'main-checkout');
+
+    const { git, projectRoot } = env;
+    const mainBranch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    const write = (tag: string) => {
+      writeFileSync(join(projectRoot, 'a.ts'), `export const a = '${tag}';\n`);
+      writeFileSync(join(projectRoot, 'b.hbs'), `<p>{{title}} ${tag}</p>\n`);
+    };
+
+    write('base');
+    await git.add('.');
+    await git.commit('base');
+
+    await git.checkoutLocalBranch('stream-1900-test');
+    write('stream');
+    writeFileSync(join(projectRoot, 'HANDOFF.md'), handoff);
+    await git.add('.');
+    await git.commit('feat: escrow values');
+
+    await git.checkout(mainBranch);
+    write('main');
+    await git.commit('refactor: rename values', ['.']);
+
+    await git.checkout('stream-1900-test');
+    await git.merge([mainBranch]).catch(() => {});
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('reads the stream purpose from HANDOFF.md', () => {
+    expect(readStreamPurpose(env.projectRoot)).toBe('Add escrow payments\n\nHold buyer funds until delivery is confirmed.');
+    expect(readStreamPurpose(join(env.projectRoot, 'missing'))).toBeNull();
+  });
+
+  it('renders the prompt template for each conflicted file', async () => {
+    const conflicts = await extractConflicts(env.projectRoot, ['a.ts', 'b.hbs'], 'stream-1900-test');
+
+    const report = formatConflictsForAgent(conflicts, 'stream-1900-test', readStreamPurpose(env.projectRoot));
+
+    expect(report).toContain('- **File**: a.ts');
+    expect(report).toContain('- **File**: b.hbs');
+    expect(report).toContain('- **Conflict**: UU - both modified');
+    expect(report).toContain('Hold buyer funds until delivery is confirmed.');
+    expect(report).toMatch(/- [0-9a-f]{8} refactor: rename values \(Test User, \d{4}-\d{2}-\d{2}\)/);
+    expect(report).toMatch(/- [0-9a-f]{8} feat: escrow values/);
+    expect(report).toContain('- keep-ours: keep the stream version');
+    expect(report.match(/## Resolution Requirements/g)).toHaveLength(1);
+    // Hunk content is inserted as-is, not treated as template tags
+    expect(report).toContain('<p>{{title}} stream</p>');
+    expect(report.match(/egirl-platform Specific Patterns/g)).toHaveLength(1);
+  });
+
+  it('fills the file content variables while they fit the budget', async () => {
+    const [conflict] = await extractConflicts(env.projectRoot, ['a.ts'], 'stream-1900-test');
+    const template = '{{hunks}}```{{fileExtension}}\n{{oursContent}}\n{{theirsContent}}\n{{conflictContent}}```\n';
+    const options = { streamId: 'stream-1900-test', streamPurpose: null, guidance: false };
+
+    const { text } = renderConflictPrompt(template, conflict, { ...options, available: 10000 });
+    expect(text).toContain("```ts\nexport const a = 'stream';\nexport const a = 'main';\n<<<<<<< HEAD\n");
+
+    const tight = renderConflictPrompt(template, conflict, { ...options, available: text.length - 1 });
+    expect(tight.text).toContain('HUNK 1/1');
+    expect(tight.text).toContain('```ts\n(not shown - see Conflicting Hunks above, or the file in the worktree)\n');
+    expect(tight.text).not.toContain('<<<<<<<');
+  });
+
+  it('uses the project prompt at CONFLICT_PROMPT_PATH when present', async () => {
+    const promptDir = join(mockConfig.PROJECT_ROOT, '.project/prompts');
+    mkdirSync(promptDir, { recursive: true });
+    writeFileSync(join(promptDir, 'conflict-resolution.txt'), 'Custom prompt for {{filePath}} in {{streamId}}\n');
+    const conflicts = await extractConflicts(env.projectRoot, ['a.ts'], 'stream-1900-test');
+
+    const report = formatConflictsForAgent(conflicts, 'stream-1900-test');
+
+    expect(report).toContain('Custom prompt for a.ts in stream-1900-test');
+    expect(report).not.toContain('# Merge Conflict Resolution Task');
+  });
+
+  it('serves the rendered prompt through prompts/get', async () => {
+    const result = await getPrompt('conflict_resolution', { file: 'a.ts' });
+
+    expect(result.messages).toHaveLength(1);
+    expect(result.messages[0].role).toBe('user');
+    const text = result.messages[0].content.type === 'text' ? result.messages[0].content.text : '';
+    expect(text).toContain('- **File**: a.ts');
+    expect(text).toContain('## Resolution Requirements');
+    expect(text).toContain('resolve_conflict({ streamId: "stream-1900-test", file: "a.ts", hunk, resolution })');
+
+    await expect(getPrompt('conflict_resolution', { file: 'HANDOFF.md' })).rejects.toThrow('HANDOFF.md is not in conflict');
+    await expect(getPrompt('unknown', {})).rejects.toThrow('Unknown prompt: unknown');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * conflict_report Tool Tests
+ *
+ * Test Coverage:
+ * 1. Hotspots, colliding stream pairs and strategy success rates from the store
+ * 2. days limits the period, limit the rows per section
+ * 3. Empty store and disabled recording are reported
+ * 4. Invalid days/limit are rejected
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const mockConfig = vi.hoisted(() => ({
+  CONFLICT_ANALYTICS_PATH: '',
+  FEATURES: { conflictAnalytics: true },
+}));
+
+vi.mock('../src/config.js', () => ({ config: mockConfig }));
+vi.mock('../src/state-manager.js', () => ({ listStreams: async () => [] }));
+
+import { conflictReport } from '../src/tools/conflict-report.js';
+import type { ConflictAnalyticsEvent } from '../src/types.js';
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+function conflict(streamId: string, mainCommit: string, file: string, strategy: string, timestamp: string, collidesWith: string[] = []): ConflictAnalyticsEvent {
+  return { type: 'conflict', timestamp, streamId, mainCommit, file, conflictType: 'code', strategy, confidence: null, collidesWith };
+}
+
+const events: ConflictAnalyticsEvent[] = [
+  conflict('stream-1', 'm1', 'src/app.ts', 'agent', daysAgo(40), ['stream-2']),
+  conflict('stream-1', 'm1', 'package.json', 'structured-merge', daysAgo(40)),
+  { type: 'validation', timestamp: daysAgo(40), streamId: 'stream-1', mainCommit: 'm1', passed: true },
+  conflict('stream-3', 'm2', 'src/app.ts', 'agent', daysAgo(2), ['stream-2']),
+  conflict('stream-3', 'm2', 'src/routes.ts', 'agent', daysAgo(2)),
+  { type: 'validation', timestamp: daysAgo(2), streamId: 'stream-3', mainCommit: 'm2', passed: false },
+];
+
+describe('conflict_report', () => {
+  let dir: string;
+
+  const report = async (args: Parameters<typeof conflictReport>[0] = {}) => (await conflictReport(args)).content[0].text!;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcp-conflict-report-'));
+    mockConfig.CONFLICT_ANALYTICS_PATH = join(dir, 'conflicts.jsonl');
+    mockConfig.FEATURES.conflictAnalytics = true;
+    writeFileSync(mockConfig.CONFLICT_ANALYTICS_PATH, events.map((e) => JSON.stringify(e)).join('\n') + '\n');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports hotspots, colliding pairs and strategy success rates', async () => {
+    const text = await report();
+
+    expect(text).toContain('Period: all records');
+    expect(text).toContain(`Store: ${mockConfig.CONFLICT_ANALYTICS_PATH}`);
+    expect(text).not.toContain('Recording: DISABLED');
+    expect(text).toContain('4 conflicted file(s) in 2 merge(s)');
+    expect(text).toContain('     2  src/app.ts  (2 stream(s), last');
+    expect(text).toContain('     1  stream-1 ↔ stream-2  (1 file(s))');
+    expect(text).toContain('     1  stream-2 ↔ stream-3  (1 file(s))');
+    expect(text).toContain('  agent: 3 conflict(s) - 33% success');
+    expect(text).toContain('  structured-merge: 1 conflict(s) - 100% success');
+  });
+
+  it('limits the period to the last days and the rows to limit', async () => {
+    const text = await report({ days: 7, limit: 1 });
+
+    expect(text).toContain('Period: last 7 day(s)');
+    expect(text).toContain('2 conflicted file(s) in 1 merge(s)');
+    expect(text).toContain('  ... and 1 more');
+    expect(text).not.toContain('structured-merge');
+    expect(text).toContain('  agent: 2 conflict(s) - 0% success');
+  });
+
+  it('reports an empty store and disabled recording', async () => {
+    rmSync(mockConfig.CONFLICT_ANALYTICS_PATH);
+    mockConfig.FEATURES.conflictAnalytics = false;
+
+    const text = await report();
+
+    expect(text).toContain('Recording: DISABLED - set ENABLE_CONFLICT_ANALYTICS=true to record new merges');
+    expect(text).toMatch(/No conflicts recorded in this period\.$/);
+  });
+
+  it('rejects invalid days and limit', async () => {
+    expect(await report({ days: 0 })).toBe('conflict_report failed: days must be a positive number (got 0)');
+    expect(await report({ limit: 1.5 })).toBe('conflict_report failed: limit must be a positive integer (got 1.5)');
+  });
+});
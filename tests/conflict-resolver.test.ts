@@ -0,0 +1,213 @@
+/**
+ * Conflict Extraction Tests
+ *
+ * Test Coverage:
+ * 1. Hunk parsing for merge and diff3 marker styles
+ * 2. Line ranges and surrounding context per hunk
+ * 3. Merge base recovered from index stages for merge-style markers
+ * 4. Per-side commit history since the merge base, with diffs
+ * 5. Unmerged status, rename groups and actions for markerless conflicts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    CONFLICT_HISTORY_MAX_COMMITS: 10,
+    CONFLICT_HISTORY_DIFF_BUDGET: 200,
+    FEATURES: { binaryFileSupport: false },
+  },
+}));
+
+import { createTestGitRepo, cleanupTestEnv, type TestEnvironment } from './test-helpers.js';
+import { extractConflicts, parseConflictHunks } from '../src/conflict-resolver.js';
+
+describe('parseConflictHunks', () => {
+  it('parses each merge-style hunk separately with line ranges', () => {
+    const content = [
+      'a',
+      '<<<<<<< HEAD',
+      'stream 1',
+      '=======',
+      'main 1',
+      '>>>>>>> origin/main',
+      'b',
+      'c',
+      '<<<<<<< HEAD',
+      'stream 2',
+      '=======',
+      '>>>>>>> origin/main',
+      'd',
+    ].join('\n');
+
+    const hunks = parseConflictHunks(content, 1);
+
+    expect(hunks).toEqual([
+      {
+        index: 0,
+        startLine: 2,
+        endLine: 6,
+        ours: 'stream 1',
+        base: null,
+        theirs: 'main 1',
+        contextBefore: 'a',
+        contextAfter: 'b',
+      },
+      {
+        index: 1,
+        startLine: 9,
+        endLine: 12,
+        ours: 'stream 2',
+        base: null,
+        theirs: '',
+        contextBefore: 'c',
+        contextAfter: 'd',
+      },
+    ]);
+  });
+
+  it('captures the base section of diff3 markers', () => {
+    const content = ['<<<<<<< HEAD', 'x = 2', '||||||| base', 'x = 1', '=======', 'x = 3', '>>>>>>> origin/main'].join(
+      '\n'
+    );
+
+    const [hunk] = parseConflictHunks(content);
+
+    expect(hunk.ours).toBe('x = 2');
+    expect(hunk.base).toBe('x = 1');
+    expect(hunk.theirs).toBe('x = 3');
+  });
+
+  it('does not let context cross into a neighbouring hunk', () => {
+    const content = ['<<<<<<< a', '1', '=======', '2', '>>>>>>> b', 'shared', '<<<<<<< a', '3', '=======', '4', '>>>>>>> b'].join(
+      '\n'
+    );
+
+    const hunks = parseConflictHunks(content);
+
+    expect(hunks[0].contextAfter).toBe('shared');
+    expect(hunks[1].contextBefore).toBe('shared');
+  });
+});
+
+describe('extractConflicts', () => {
+  let env: TestEnvironment;
+
+  beforeEach(async () => {
+    env = await createTestGitRepo();
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('reads stage blobs and recovers the base for merge-style markers', async () => {
+    const { git, projectRoot } = env;
+    const mainBranch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    const file = join(projectRoot, 'app.ts');
+    const body = (top: string, bottom: string) => [top, '1', '2', '3', '4', '5', '6', '7', '8', bottom, ''].join('\n');
+
+    writeFileSync(file, body('const top = 0;', 'const bottom = 0;'));
+    await git.add('.');
+    await git.commit('base');
+
+    await git.checkoutLocalBranch('stream-1500-test');
+    writeFileSync(file, body('const top = 1;', 'const bottom = 1;'));
+    await git.commit('stream change', ['app.ts']);
+
+    await git.checkout(mainBranch);
+    writeFileSync(file, body('const top = 2;', 'const bottom = 2;'));
+    await git.commit('main change', ['app.ts']);
+
+    await git.checkout('stream-1500-test');
+    await git.raw(['-c', 'merge.conflictStyle=merge', 'merge', mainBranch]).catch(() => {});
+
+    const [conflict] = await extractConflicts(projectRoot, ['app.ts'], 'stream-1500-test');
+
+    expect(conflict.versions.base).toBe(body('const top = 0;', 'const bottom = 0;'));
+    expect(conflict.versions.ours).toBe(body('const top = 1;', 'const bottom = 1;'));
+    expect(conflict.versions.theirs).toBe(body('const top = 2;', 'const bottom = 2;'));
+
+    expect(conflict.hunks.map((h) => [h.ours, h.base, h.theirs])).toEqual([
+      ['const top = 1;', 'const top = 0;', 'const top = 2;'],
+      ['const bottom = 1;', 'const bottom = 0;', 'const bottom = 2;'],
+    ]);
+    expect(conflict.hunks[1].contextBefore).toBe('6\n7\n8');
+  });
+
+  it('reports each side\'s own commits since the merge base', async () => {
+    const { git, projectRoot } = env;
+    const mainBranch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    const file = join(projectRoot, 'app.ts');
+
+    writeFileSync(file, 'const value = 0;\n');
+    await git.add('.');
+    await git.commit('base');
+
+    await git.checkoutLocalBranch('stream-1500-test');
+    writeFileSync(file, 'const value = 1;\n');
+    await git.commit(['feat: stream value', '', 'Needed by the new dashboard.'], ['app.ts']);
+
+    await git.checkout(mainBranch);
+    writeFileSync(join(projectRoot, 'other.ts'), 'unrelated\n');
+    await git.add('other.ts');
+    await git.commit('chore: unrelated main commit');
+    writeFileSync(file, 'const value = 2;\n' + 'x'.repeat(500) + '\n');
+    await git.commit('fix: main value', ['app.ts']);
+
+    await git.checkout('stream-1500-test');
+    await git.merge([mainBranch]).catch(() => {});
+
+    const [conflict] = await extractConflicts(projectRoot, ['app.ts'], 'stream-1500-test');
+
+    expect(conflict.streamCommits.map((c) => c.message)).toEqual(['feat: stream value\n\nNeeded by the new dashboard.']);
+    expect(conflict.streamCommits[0].diff).toContain('+const value = 1;');
+
+    expect(conflict.mainCommits.map((c) => c.message)).toEqual(['fix: main value']);
+    expect(conflict.mainCommits[0].diff).toContain('... (diff truncated)');
+  });
+
+  it('reports rename/rename and modify/delete conflicts instead of dropping them', async () => {
+    const { git, projectRoot } = env;
+    const mainBranch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    const lines = (tag: string) => Array.from({ length: 20 }, (_, i) => `${tag} line ${i}`).join('\n') + '\n';
+
+    writeFileSync(join(projectRoot, 'old-name.ts'), lines('rename'));
+    writeFileSync(join(projectRoot, 'notes.md'), lines('notes'));
+    await git.add('.');
+    await git.commit('base');
+
+    await git.checkoutLocalBranch('stream-1500-test');
+    await git.mv('old-name.ts', 'stream-name.ts');
+    writeFileSync(join(projectRoot, 'notes.md'), lines('notes') + 'stream edit\n');
+    await git.add('.');
+    await git.commit('stream rename and edit');
+
+    await git.checkout(mainBranch);
+    await git.mv('old-name.ts', 'main-name.ts');
+    unlinkSync(join(projectRoot, 'notes.md'));
+    await git.add('.');
+    await git.commit('main rename and delete');
+
+    await git.checkout('stream-1500-test');
+    await git.merge([mainBranch]).catch(() => {});
+
+    const conflicted = (await git.status()).conflicted.sort();
+    const conflicts = await extractConflicts(projectRoot, conflicted, 'stream-1500-test');
+    const byFile = Object.fromEntries(conflicts.map((c) => [c.file, c]));
+
+    expect(Object.keys(byFile).sort()).toEqual(['main-name.ts', 'notes.md', 'old-name.ts', 'stream-name.ts']);
+
+    expect(byFile['notes.md']).toMatchObject({ status: 'UD', renamedFrom: null, actions: ['keep-ours', 'keep-theirs'] });
+    expect(byFile['old-name.ts']).toMatchObject({ status: 'DD', relatedPaths: ['stream-name.ts', 'main-name.ts'] });
+    expect(byFile['stream-name.ts']).toMatchObject({
+      status: 'AU',
+      renamedFrom: 'old-name.ts',
+      relatedPaths: ['old-name.ts', 'main-name.ts'],
+      actions: ['keep-ours', 'keep-theirs', 'keep-rename-target'],
+    });
+    expect(byFile['main-name.ts']).toMatchObject({ status: 'UA', renamedFrom: 'old-name.ts' });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Validator Diagnostics Tests
+ *
+ * Test Coverage:
+ * 1. tsc --pretty false and eslint --format json output parsing
+ * 2. Diagnostics split into stream-introduced vs pre-existing, grouped by file
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+vi.mock('../src/config.js', () => ({ config: { VALIDATION_TIMEOUT: 10000 } }));
+
+import { createTestGitRepo, cleanupTestEnv, type TestEnvironment } from './test-helpers.js';
+import { CommandValidator } from '../src/validators/command-validator.js';
+import { formatDiagnostics, inferDiagnosticFormat, parseDiagnostics } from '../src/validators/diagnostics.js';
+
+const tscOutput = [
+  "src/a.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+  "src/b.ts(10,1): error TS2345: Argument of type '{ id: string; }' is not assignable to parameter of type 'User'.",
+  "  Property 'name' is missing in type '{ id: string; }' but required in type 'User'.",
+  '',
+].join('\n');
+
+describe('validator diagnostics', () => {
+  it('parses tsc and eslint output with paths relative to the worktree', () => {
+    expect(inferDiagnosticFormat('npx tsc --noEmit --pretty false')).toBe('tsc');
+    expect(inferDiagnosticFormat('pnpm exec eslint src --format json')).toBe('eslint');
+    expect(inferDiagnosticFormat('pnpm lint')).toBe('text');
+
+    expect(parseDiagnostics('tsc', tscOutput, '/wt/packages/api', '/wt')).toEqual([
+      { file: 'packages/api/src/a.ts', line: 3, col: 7, code: 'TS2322', message: "Type 'string' is not assignable to type 'number'.", severity: 'error' },
+      {
+        file: 'packages/api/src/b.ts',
+        line: 10,
+        col: 1,
+        code: 'TS2345',
+        message:
+          "Argument of type '{ id: string; }' is not assignable to parameter of type 'User'. Property 'name' is missing in type '{ id: string; }' but required in type 'User'.",
+        severity: 'error',
+      },
+    ]);
+
+    const eslintOutput =
+      '\n> app@1.0.0 lint /wt\n> eslint . --format json\n\n' +
+      JSON.stringify([
+        { filePath: '/wt/src/a.ts', messages: [{ ruleId: 'no-unused-vars', severity: 2, message: "'x' is defined but never used.", line: 1, column: 7 }] },
+        { filePath: '/wt/src/c.ts', messages: [{ ruleId: 'prefer-const', severity: 1, message: "'y' is never reassigned.", line: 4, column: 5 }] },
+        { filePath: '/wt/src/d.ts', messages: [] },
+      ]);
+
+    expect(parseDiagnostics('eslint', eslintOutput, '/wt', '/wt')).toEqual([
+      { file: 'src/a.ts', line: 1, col: 7, code: 'no-unused-vars', message: "'x' is defined but never used.", severity: 'error' },
+      { file: 'src/c.ts', line: 4, col: 5, code: 'prefer-const', message: "'y' is never reassigned.", severity: 'warning' },
+    ]);
+  });
+
+  describe('in a stream worktree', () => {
+    let env: TestEnvironment;
+
+    beforeEach(async () => {
+      env = await createTestGitRepo();
+      const { git, projectRoot } = env;
+      mkdirSync(join(projectRoot, 'src'));
+      writeFileSync(join(projectRoot, 'src/b.ts'), 'export const b = 1;\n');
+      writeFileSync(join(projectRoot, 'tsc-output.txt'), tscOutput);
+      await git.add('.');
+      await git.commit('main');
+      await git.raw(['update-ref', 'refs/remotes/origin/main', 'HEAD']);
+
+      await git.checkoutLocalBranch('stream-2200-test');
+      writeFileSync(join(projectRoot, 'src/a.ts'), 'export const a: number = "1";\n');
+      await git.add('.');
+      await git.commit('feat: a');
+    });
+
+    afterEach(() => {
+      cleanupTestEnv(env);
+    });
+
+    it('separates errors in files the stream changed from pre-existing ones', async () => {
+      const validator = new CommandValidator({ name: 'typescript', command: 'cat tsc-output.txt; exit 2', format: 'tsc' });
+
+      const result = await validator.validate(env.projectRoot);
+
+      expect(result.passed).toBe(false);
+      expect(result.errors).toEqual(['[typescript] 2 error(s) in 2 file(s): 1 in files this stream changed, 1 pre-existing']);
+      expect(result.diagnostics?.map((d) => [d.file, d.origin])).toEqual([
+        ['src/a.ts', 'stream'],
+        ['src/b.ts', 'pre-existing'],
+      ]);
+      expect(formatDiagnostics(result.diagnostics!)).toBe(
+        [
+          '  In files this stream changed (fix these):',
+          '    src/a.ts',
+          "      3:7  error  TS2322  Type 'string' is not assignable to type 'number'.",
+          "  Pre-existing (files the stream didn't change):",
+          '    src/b.ts',
+          `      10:1  error  TS2345  ${result.diagnostics![1].message}`,
+        ].join('\n')
+      );
+    });
+
+    it('falls back to the output tail for other commands', async () => {
+      const validator = new CommandValidator({ name: 'build', command: 'echo compiling; echo "Build failed: 1 module missing" >&2; exit 1' });
+
+      const result = await validator.validate(env.projectRoot);
+
+      expect(result.errors).toEqual(['[build] compiling', '[build] Build failed: 1 module missing']);
+      expect(result.diagnostics).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Large Conflict Report Tests
+ *
+ * Test Coverage:
+ * 1. Files above MAX_FILE_SIZE show the first hunk plus an index of the rest
+ * 2. The report stops adding hunks once CONFLICT_RESPONSE_BUDGET is spent,
+ *    and lists the remaining files one line each
+ * 3. Long hunk sides are cut at a line boundary
+ * 4. get_conflict_hunk pages through hunks and rejects out-of-range numbers
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+
+const location = vi.hoisted(() => ({ worktreePath: '' }));
+const mockConfig = vi.hoisted(() => ({
+  CONFLICT_HISTORY_MAX_COMMITS: 10,
+  CONFLICT_HISTORY_DIFF_BUDGET: 1000,
+  CONFLICT_RESPONSE_BUDGET: 60000,
+  CONFLICT_HUNK_MAX_CHARS: 8000,
+  MAX_FILE_SIZE: 100 * 1024,
+  PROJECT_ROOT: '/nonexistent',
+  CONFLICT_PROMPT_PATH: '.project/prompts/conflict-resolution.txt',
+  FEATURES: { binaryFileSupport: false },
+}));
+
+vi.mock('../src/utils/stream-metadata.js', () => ({
+  resolveStreamLocation: async (streamId?: string) => ({
+    streamId: streamId || 'stream-1700-test',
+    worktreePath: location.worktreePath,
+    registry: null,
+  }),
+}));
+
+vi.mock('../src/config.js', () => ({ config: mockConfig }));
+
+import { createTestGitRepo, cleanupTestEnv, type TestEnvironment } from './test-helpers.js';
+import { extractConflicts, formatConflictsForAgent, formatHunk } from '../src/conflict-resolver.js';
+import { getConflictHunk } from '../src/tools/get-conflict-hunk.js';
+
+/**
+ * 3 conflicting lines, each separated by 10 unchanged lines → 3 hunks
+ */
+function generated(tag: string): string {
+  const lines: string[] = [];
+  for (let block = 0; block < 3; block++) {
+    lines.push(`export const value${block} = '${tag} ${block}';`);
+    for (let i = 0; i < 10; i++) {
+      lines.push(`// unchanged ${block}.${i}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+describe('large conflict reports', () => {
+  let env: TestEnvironment;
+  const file = 'generated.ts';
+
+  beforeEach(async () => {
+    mockConfig.MAX_FILE_SIZE = 100 * 1024;
+    mockConfig.CONFLICT_RESPONSE_BUDGET = 60000;
+    env = await createTestGitRepo();
+    location.worktreePath = env.projectRoot;
+
+    const { git, projectRoot } = env;
+    const mainBranch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+
+    writeFileSync(join(projectRoot, file), generated('base'));
+    await git.add('.');
+    await git.commit('base');
+
+    await git.checkoutLocalBranch('stream-1700-test');
+    writeFileSync(join(projectRoot, file), generated('stream'));
+    await git.commit('stream', ['.']);
+
+    await git.checkout(mainBranch);
+    writeFileSync(join(projectRoot, file), generated('main'));
+    await git.commit('main', ['.']);
+
+    await git.checkout('stream-1700-test');
+    await git.merge([mainBranch]).catch(() => {});
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('shows only the first hunk of files above MAX_FILE_SIZE', async () => {
+    mockConfig.MAX_FILE_SIZE = 100;
+    const conflicts = await extractConflicts(env.projectRoot, [file], 'stream-1700-test');
+
+    const report = formatConflictsForAgent(conflicts, 'stream-1700-test');
+
+    expect(report).toContain('Hunks: 3');
+    expect(report).toMatch(/Large file \(\d+ KB > 0 KB\): only the first hunk is shown/);
+    expect(report).toContain('HUNK 1/3 (lines');
+    expect(report).not.toMatch(/HUNK 2\/3 \(lines \d+-\d+\):/);
+    expect(report).toContain('2 more hunk(s) - get_conflict_hunk({ streamId: "stream-1700-test", file: "generated.ts", hunk: N })');
+    expect(report).toMatch(/ {2}- HUNK 2\/3 \(lines \d+-\d+\)/);
+  });
+
+  it('stops adding hunks once the response budget is spent', async () => {
+    const conflicts = await extractConflicts(env.projectRoot, [file], 'stream-1700-test');
+    const full = formatConflictsForAgent(conflicts, 'stream-1700-test');
+    expect(full).toContain('HUNK 3/3 (lines');
+
+    mockConfig.CONFLICT_RESPONSE_BUDGET = 700;
+    const limited = formatConflictsForAgent(conflicts, 'stream-1700-test');
+
+    expect(limited.length).toBeLessThan(full.length);
+    expect(limited).toContain('more hunk(s) - get_conflict_hunk');
+    expect(limited).toContain('Commit history omitted (response budget reached)');
+    expect(limited).toContain('Report limited to 700 characters');
+  });
+
+  it('lists files past the response budget one line each', async () => {
+    const [conflict] = await extractConflicts(env.projectRoot, [file], 'stream-1700-test');
+    const conflicts = Array.from({ length: 200 }, (_, i) => ({ ...conflict, file: `gen/file${i}.ts` }));
+    mockConfig.CONFLICT_RESPONSE_BUDGET = 12000;
+
+    const report = formatConflictsForAgent(conflicts, 'stream-1700-test');
+
+    const footer = report.slice(report.indexOf('more file(s) not shown'));
+    expect(report.length - footer.length).toBeLessThanOrEqual(12000);
+    expect(footer.length).toBeLessThan(3000);
+    expect(report).toMatch(/\d+ more file\(s\) not shown \(response budget reached\):\n {2}- gen\/file\d+\.ts \(UU, 3 hunk\(s\)\)/);
+    expect(report).toMatch(/ {2}\.\.\. and \d+ more files\n/);
+    expect(report).toContain('Report limited to 12000 characters');
+  });
+
+  it('cuts long hunk sides at a line boundary', () => {
+    const ours = Array.from({ length: 100 }, (_, i) => `line ${i}`).join('\n');
+    const text = formatHunk(
+      { index: 0, startLine: 1, endLine: 205, ours, base: null, theirs: 'x', contextBefore: '', contextAfter: '' },
+      1,
+      500
+    );
+
+    expect(text).toContain('line 0\nline 1\n');
+    expect(text).toMatch(/\.\.\. \(truncated, \d+ more line\(s\) - see the worktree file\)/);
+    expect(text).not.toContain('line 99');
+  });
+
+  it('returns one hunk at a time with a pointer to the next', async () => {
+    const second = (await getConflictHunk({ file, hunk: 2 })).content[0].text!;
+    expect(second).toContain('CONFLICT HUNK');
+    expect(second).toContain('HUNK 2/3');
+    expect(second).toContain("export const value1 = 'stream 1';");
+    expect(second).toContain("export const value1 = 'main 1';");
+    expect(second).toContain("export const value1 = 'base 1';");
+    expect(second).toContain('Next: get_conflict_hunk({ streamId: "stream-1700-test", file: "generated.ts", hunk: 3 })');
+
+    const last = (await getConflictHunk({ file, hunk: 3, contextLines: 0 })).content[0].text!;
+    expect(last).toContain('This is the last hunk.');
+    expect(last).not.toContain('Context before');
+  });
+
+  it('rejects hunk numbers out of range and files not in conflict', async () => {
+    expect((await getConflictHunk({ file, hunk: 4 })).content[0].text).toBe(
+      `get_conflict_hunk failed: Hunk 4 out of range - ${file} has 3 hunk(s)`
+    );
+    expect((await getConflictHunk({ file: 'README.md', hunk: 1 })).content[0].text).toContain(
+      'get_conflict_hunk failed: README.md is not in conflict'
+    );
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * get_stream_info Tool Tests
+ *
+ * Test Coverage:
+ * 1. Push state of a stream whose branch exists on origin
+ * 2. Push state of a stream whose branch was never pushed
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { simpleGit } from 'simple-git';
+
+const mockConfig = vi.hoisted(() => ({ PROJECT_ROOT: '', WORKTREE_ROOT: '' }));
+
+vi.mock('../src/config.js', () => ({ config: mockConfig }));
+vi.mock('../src/state-manager.js');
+
+import { createTestGitRepo, cleanupTestEnv, type TestEnvironment } from './test-helpers.js';
+import { getStreamInfo } from '../src/tools/get-stream-info.js';
+import { getStream } from '../src/state-manager.js';
+
+const STREAM_ID = 'stream-2300-push-state';
+
+describe('get_stream_info', () => {
+  let env: TestEnvironment;
+  let worktreePath: string;
+
+  const infoText = async () => (await getStreamInfo({ streamId: STREAM_ID, fetch: false })).content[0].text!;
+
+  beforeEach(async () => {
+    env = await createTestGitRepo();
+    mockConfig.PROJECT_ROOT = env.projectRoot;
+    mockConfig.WORKTREE_ROOT = env.worktreeRoot;
+    vi.mocked(getStream).mockResolvedValue(null);
+
+    const origin = join(env.worktreeRoot, '..', 'origin.git');
+    await simpleGit().init(true, [origin]);
+    await env.git.branch(['-M', 'main']);
+    await env.git.addRemote('origin', origin);
+    await env.git.push('origin', 'main');
+
+    worktreePath = join(env.worktreeRoot, STREAM_ID);
+    await env.git.raw(['worktree', 'add', '-b', STREAM_ID, worktreePath, 'main']);
+    writeFileSync(join(worktreePath, 'feature.ts'), 'export const feature = 1;\n');
+    await simpleGit(worktreePath).add('.').commit('feat: feature');
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('reports a pushed branch with its unpushed commits', async () => {
+    const stream = simpleGit(worktreePath);
+    await stream.push('origin', STREAM_ID);
+    writeFileSync(join(worktreePath, 'feature.ts'), 'export const feature = 2;\n');
+    await stream.add('.').commit('feat: more');
+
+    const text = await infoText();
+
+    expect(text).toContain('vs origin/main:  2 ahead, 0 behind');
+    expect(text).toContain('Pushed:          No (1 unpushed commit(s))');
+  });
+
+  it('reports a branch that is not on origin', async () => {
+    const text = await infoText();
+
+    expect(text).toContain('Pushed:          No (no remote branch)');
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * list_streams Tool Tests
+ *
+ * Test Coverage:
+ * 1. Filtering (status, category, priority, tag, parent stream)
+ * 2. Sorting (createdAt, updatedAt, priority, asc/desc)
+ * 3. Output formats (table and JSON)
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    PROJECT_ROOT: '/test/project',
+    WORKTREE_ROOT: '/test/worktrees',
+    STREAM_STATE_PATH: '.project/.stream-state.json',
+  },
+}));
+
+vi.mock('../src/state-manager.js');
+
+import { listStreams } from '../src/tools/list-streams.js';
+import { listStreams as listRegisteredStreams, getAllActiveStreams } from '../src/state-manager.js';
+import type { StreamMetadata } from '../src/state-manager.js';
+
+function makeStream(streamId: string, overrides: Partial<StreamMetadata> = {}): StreamMetadata {
+  return {
+    streamId,
+    streamNumber: streamId.match(/\d+/)?.[0] || '1500',
+    title: `Title for ${streamId}`,
+    category: 'backend',
+    priority: 'medium',
+    status: 'active',
+    createdAt: '2025-12-10T10:00:00.000Z',
+    updatedAt: '2025-12-10T10:00:00.000Z',
+    worktreePath: `/test/worktrees/${streamId}`,
+    branch: streamId,
+    ...overrides,
+  };
+}
+
+const STREAMS: StreamMetadata[] = [
+  makeStream('stream-1500-auth', {
+    priority: 'high',
+    tags: ['Security', 'auth'],
+    createdAt: '2025-12-01T10:00:00.000Z',
+    updatedAt: '2025-12-05T10:00:00.000Z',
+  }),
+  makeStream('stream-1500a-auth-tests', {
+    category: 'testing',
+    priority: 'low',
+    parentStreamId: 'stream-1500-auth',
+    createdAt: '2025-12-02T10:00:00.000Z',
+    updatedAt: '2025-12-09T10:00:00.000Z',
+  }),
+  makeStream('stream-1501-dashboard', {
+    category: 'frontend',
+    priority: 'critical',
+    status: 'blocked',
+    createdAt: '2025-12-03T10:00:00.000Z',
+    updatedAt: undefined,
+  }),
+];
+
+function parseJson(result: Awaited<ReturnType<typeof listStreams>>) {
+  return JSON.parse(result.content[0].text!);
+}
+
+describe('list_streams', () => {
+  beforeEach(() => {
+    vi.mocked(listRegisteredStreams).mockResolvedValue(STREAMS);
+    vi.mocked(getAllActiveStreams).mockResolvedValue({});
+  });
+
+  describe('filtering', () => {
+    it('returns every stream when no filters are given', async () => {
+      const json = parseJson(await listStreams({ format: 'json' }));
+      expect(json.total).toBe(3);
+      expect(json.filtered).toBe(3);
+    });
+
+    it('filters by status, category and priority', async () => {
+      expect(parseJson(await listStreams({ format: 'json', status: 'blocked' })).streams
+        .map((s: StreamMetadata) => s.streamId)).toEqual(['stream-1501-dashboard']);
+      expect(parseJson(await listStreams({ format: 'json', category: 'testing' })).filtered).toBe(1);
+      expect(parseJson(await listStreams({ format: 'json', priority: 'high' })).filtered).toBe(1);
+    });
+
+    it('matches tags case-insensitively', async () => {
+      const json = parseJson(await listStreams({ format: 'json', tag: 'security' }));
+      expect(json.streams.map((s: StreamMetadata) => s.streamId)).toEqual(['stream-1500-auth']);
+    });
+
+    it('filters by parent stream', async () => {
+      const json = parseJson(await listStreams({ format: 'json', parentStreamId: 'stream-1500-auth' }));
+      expect(json.streams.map((s: StreamMetadata) => s.streamId)).toEqual(['stream-1500a-auth-tests']);
+    });
+  });
+
+  describe('sorting', () => {
+    it('sorts by createdAt descending by default', async () => {
+      const ids = parseJson(await listStreams({ format: 'json' })).streams.map((s: StreamMetadata) => s.streamId);
+      expect(ids).toEqual(['stream-1501-dashboard', 'stream-1500a-auth-tests', 'stream-1500-auth']);
+    });
+
+    it('sorts by priority with critical first', async () => {
+      const ids = parseJson(await listStreams({ format: 'json', sortBy: 'priority' }))
+        .streams.map((s: StreamMetadata) => s.streamId);
+      expect(ids).toEqual(['stream-1501-dashboard', 'stream-1500-auth', 'stream-1500a-auth-tests']);
+    });
+
+    it('falls back to createdAt when updatedAt is missing', async () => {
+      const ids = parseJson(await listStreams({ format: 'json', sortBy: 'updatedAt', order: 'asc' }))
+        .streams.map((s: StreamMetadata) => s.streamId);
+      expect(ids).toEqual(['stream-1501-dashboard', 'stream-1500-auth', 'stream-1500a-auth-tests']);
+    });
+  });
+
+  describe('table output', () => {
+    it('renders a row per stream and marks active streams', async () => {
+      vi.mocked(getAllActiveStreams).mockResolvedValue({
+        'stream-1500-auth': {
+          streamId: 'stream-1500-auth',
+          worktreePath: '/test/worktrees/stream-1500-auth',
+          lastAccessedAt: new Date().toISOString(),
+        },
+      });
+
+      const text = (await listStreams()).content[0].text!;
+      expect(text).toContain('STREAMS (3 of 3)');
+      expect(text).toContain('* stream-1500-auth');
+      expect(text).toContain('  stream-1501-dashboard');
+      expect(text).toContain('By status: blocked: 1, active: 2');
+    });
+
+    it('reports when nothing matches', async () => {
+      const text = (await listStreams({ status: 'archived' })).content[0].text!;
+      expect(text).toContain('No streams match.');
+    });
+  });
+});
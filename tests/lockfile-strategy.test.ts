@@ -0,0 +1,144 @@
+/**
+ * Lockfile Strategy Tests
+ *
+ * Test Coverage:
+ * 1. Package manager detection
+ * 2. Dependency change reporting
+ * 3. End-to-end: package.json merged first, lockfile regenerated with npm
+ * 4. A failed regeneration leaves the conflicted lockfile as it was
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+vi.mock('../src/config.js', () => ({
+  config: { LOCKFILE_INSTALL_TIMEOUT: 180000, FEATURES: { binaryFileSupport: false } },
+}));
+
+import { createTestGitRepo, cleanupTestEnv, type TestEnvironment } from './test-helpers.js';
+import { extractConflicts } from '../src/conflict-resolver.js';
+import { runStrategies, resetStrategies } from '../src/strategies/index.js';
+import { diffDependencies, getLockfileCommand, isLockfile } from '../src/strategies/lockfile.js';
+
+describe('lockfile detection', () => {
+  it('recognises lockfiles by name', () => {
+    expect(isLockfile('pnpm-lock.yaml')).toBe(true);
+    expect(isLockfile('apps/web/package-lock.json')).toBe(true);
+    expect(isLockfile('yarn.lock')).toBe(true);
+    expect(isLockfile('package.json')).toBe(false);
+    expect(isLockfile('src/constructor')).toBe(false);
+    expect(isLockfile('toString')).toBe(false);
+  });
+
+  it('picks the lockfile-only command for the package manager', () => {
+    expect(getLockfileCommand('pnpm-lock.yaml', '/nonexistent')).toContain('pnpm install --lockfile-only');
+    expect(getLockfileCommand('package-lock.json', '/nonexistent')).toContain('npm install --package-lock-only');
+    expect(getLockfileCommand('yarn.lock', '/nonexistent')).toBeNull();
+  });
+});
+
+describe('diffDependencies', () => {
+  it('reports added, removed and changed dependencies', () => {
+    const before = JSON.stringify({ dependencies: { react: '^18.2.0', lodash: '^4.0.0' } });
+    const after = JSON.stringify({ dependencies: { react: '^19.0.0' }, devDependencies: { vitest: '^2.1.5' } });
+
+    expect(diffDependencies(before, after)).toEqual([
+      '~ react ^18.2.0 → ^19.0.0',
+      '+ vitest (devDependencies) ^2.1.5',
+      '- lodash',
+    ]);
+  });
+
+  it('treats a missing manifest as empty', () => {
+    expect(diffDependencies(null, JSON.stringify({ dependencies: { zod: '^3.0.0' } }))).toEqual(['+ zod ^3.0.0']);
+  });
+});
+
+describe('LockfileStrategy', () => {
+  let env: TestEnvironment;
+
+  beforeEach(async () => {
+    env = await createTestGitRepo();
+    resetStrategies();
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  /**
+   * Local file: dependencies keep npm offline
+   */
+  function writePackage(dependencies: Record<string, string>): void {
+    writeFileSync(
+      join(env.projectRoot, 'package.json'),
+      JSON.stringify({ name: 'app', version: '1.0.0', dependencies }, null, 2) + '\n'
+    );
+  }
+
+  /**
+   * Conflicted package.json and package-lock.json: the stream adds `left`
+   * (with the given spec), main adds `right`
+   */
+  async function createLockfileConflict(leftSpec: string): Promise<string[]> {
+    const { git, projectRoot } = env;
+    const mainBranch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+
+    for (const name of ['left', 'right']) {
+      mkdirSync(join(projectRoot, name));
+      writeFileSync(join(projectRoot, name, 'package.json'), JSON.stringify({ name, version: '1.0.0' }));
+    }
+    writePackage({});
+    writeFileSync(join(projectRoot, 'package-lock.json'), '{}\n');
+    await git.add('.');
+    await git.commit('base');
+
+    await git.checkoutLocalBranch('stream-1500-test');
+    writePackage({ left: leftSpec });
+    writeFileSync(join(projectRoot, 'package-lock.json'), '{"stream":true}\n');
+    await git.commit('add left', ['package.json', 'package-lock.json']);
+
+    await git.checkout(mainBranch);
+    writePackage({ right: 'file:right' });
+    writeFileSync(join(projectRoot, 'package-lock.json'), '{"main":true}\n');
+    await git.commit('add right', ['package.json', 'package-lock.json']);
+
+    await git.checkout('stream-1500-test');
+    await git.merge([mainBranch]).catch(() => {});
+
+    return (await git.status()).conflicted;
+  }
+
+  it('regenerates the lockfile after merging package.json', async () => {
+    const { projectRoot } = env;
+    const conflicted = await createLockfileConflict('file:left');
+    expect(conflicted.sort()).toEqual(['package-lock.json', 'package.json']);
+
+    const conflicts = await extractConflicts(projectRoot, conflicted, 'stream-1500-test');
+    const run = await runStrategies(projectRoot, conflicts, 'stream-1500-test');
+
+    expect(run.remaining).toEqual([]);
+    expect(run.autoResolved.map((r) => r.strategy)).toEqual(['structured-merge', 'lockfile-regenerate']);
+    expect(run.autoResolved[1].details).toEqual([
+      'stream: + left file:left (package.json)',
+      'main: + right file:right (package.json)',
+    ]);
+
+    const lockfile = JSON.parse(readFileSync(join(projectRoot, 'package-lock.json'), 'utf-8'));
+    expect(Object.keys(lockfile.packages[''].dependencies).sort()).toEqual(['left', 'right']);
+  }, 120000);
+
+  it('puts the conflicted lockfile back when the package manager fails', async () => {
+    const { projectRoot } = env;
+    const conflicted = await createLockfileConflict('not a valid spec!');
+    const before = readFileSync(join(projectRoot, 'package-lock.json'), 'utf-8');
+
+    const conflicts = await extractConflicts(projectRoot, conflicted, 'stream-1500-test');
+    const run = await runStrategies(projectRoot, conflicts, 'stream-1500-test');
+
+    expect(run.remaining.map((c) => c.file)).toEqual(['package-lock.json']);
+    expect(readFileSync(join(projectRoot, 'package-lock.json'), 'utf-8')).toBe(before);
+    expect(before).toContain('<<<<<<<');
+  }, 120000);
+});
@@ -0,0 +1,196 @@
+/**
+ * Migration Renumbering Tests
+ *
+ * Test Coverage:
+ * 1. Migration detection and prefix formats
+ * 2. Renumbering plan keeps the stream's order after main's latest
+ * 3. End-to-end: clean merge with colliding numbers, references rewritten
+ *    (whole names, stream files only)
+ * 4. add/add conflict on the same migration name
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+vi.mock('../src/config.js', () => ({ config: { MAX_FILE_SIZE: 100 * 1024 } }));
+
+import { createTestGitRepo, cleanupTestEnv, type TestEnvironment } from './test-helpers.js';
+import {
+  findMigrationUnit,
+  nextMigrationPrefix,
+  planRenumbering,
+  renumberMigrations,
+} from '../src/strategies/migrations.js';
+
+describe('findMigrationUnit', () => {
+  it('finds numbered files and directories below a migrations directory', () => {
+    expect(findMigrationUnit('db/migrations/0042_add_users.sql')).toMatchObject({
+      path: 'db/migrations/0042_add_users.sql',
+      dir: 'db/migrations',
+      number: 42,
+      digits: '0042',
+    });
+    expect(findMigrationUnit('prisma/migrations/20240101120000_init/migration.sql')?.path).toBe(
+      'prisma/migrations/20240101120000_init'
+    );
+    expect(findMigrationUnit('src/0042_not_a_migration.ts')).toBeNull();
+    expect(findMigrationUnit('db/migrations/README.md')).toBeNull();
+  });
+});
+
+describe('nextMigrationPrefix', () => {
+  it('keeps zero padding for sequence numbers', () => {
+    expect(nextMigrationPrefix('0042', '0007')).toBe('0043');
+  });
+
+  it('advances timestamps by one second, rolling over correctly', () => {
+    expect(nextMigrationPrefix('20241231235959', '20240101000000')).toBe('20250101000000');
+  });
+});
+
+describe('planRenumbering', () => {
+  it('moves colliding stream migrations after main, keeping their order', () => {
+    const plan = planRenumbering(
+      [
+        { name: '0042_add_posts.sql', number: 42, digits: '0042' },
+        { name: '0043_posts_index.sql', number: 43, digits: '0043' },
+        { name: '0050_later.sql', number: 50, digits: '0050' },
+      ],
+      '0043'
+    );
+
+    expect([...plan]).toEqual([
+      ['0042_add_posts.sql', '0044_add_posts.sql'],
+      ['0043_posts_index.sql', '0045_posts_index.sql'],
+    ]);
+  });
+
+  it('does nothing when main has no migrations in the directory', () => {
+    expect(planRenumbering([{ name: '0001_init.sql', number: 1, digits: '0001' }], null).size).toBe(0);
+  });
+});
+
+describe('renumberMigrations', () => {
+  let env: TestEnvironment;
+  let mainBranch: string;
+
+  beforeEach(async () => {
+    env = await createTestGitRepo();
+    mainBranch = (await env.git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    mkdirSync(join(env.projectRoot, 'db/migrations'), { recursive: true });
+    writeMigration('0001_init.sql', 'create table base;\n');
+    await env.git.add('.');
+    await env.git.commit('base');
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  function writeMigration(name: string, content: string): void {
+    writeFileSync(join(env.projectRoot, 'db/migrations', name), content);
+  }
+
+  it('renumbers stream migrations that collide without a textual conflict', async () => {
+    const { git, projectRoot } = env;
+
+    await git.checkoutLocalBranch('stream-1500-test');
+    writeMigration('0002_add_posts.sql', 'create table posts;\n');
+    writeMigration('0003_posts_index.sql', '-- depends on 0002_add_posts\ncreate index posts_idx;\n');
+    await git.add('.');
+    await git.commit('stream migrations');
+    const streamTip = (await git.revparse(['HEAD'])).trim();
+
+    await git.checkout(mainBranch);
+    writeMigration('0002_add_users.sql', 'create table users;\n');
+    await git.add('.');
+    await git.commit('main migration');
+
+    await git.checkout('stream-1500-test');
+    await git.merge([mainBranch, '--no-edit']);
+
+    const renames = await renumberMigrations(git, projectRoot, streamTip, mainBranch);
+
+    expect(renames).toEqual([
+      {
+        from: 'db/migrations/0002_add_posts.sql',
+        to: 'db/migrations/0003_add_posts.sql',
+        referencesUpdated: ['db/migrations/0004_posts_index.sql'],
+      },
+      { from: 'db/migrations/0003_posts_index.sql', to: 'db/migrations/0004_posts_index.sql', referencesUpdated: [] },
+    ]);
+
+    const dir = join(projectRoot, 'db/migrations');
+    expect(existsSync(join(dir, '0002_add_posts.sql'))).toBe(false);
+    expect(readFileSync(join(dir, '0002_add_users.sql'), 'utf-8')).toBe('create table users;\n');
+    expect(readFileSync(join(dir, '0004_posts_index.sql'), 'utf-8')).toContain('depends on 0003_add_posts');
+
+    const indexed = (await git.raw(['ls-files', 'db/migrations'])).trim().split('\n');
+    expect(indexed).toEqual([
+      'db/migrations/0001_init.sql',
+      'db/migrations/0002_add_users.sql',
+      'db/migrations/0003_add_posts.sql',
+      'db/migrations/0004_posts_index.sql',
+    ]);
+  });
+
+  it('rewrites whole names in the stream\'s files only', async () => {
+    const { git, projectRoot } = env;
+
+    await git.checkoutLocalBranch('stream-1500-test');
+    writeMigration('0002_add.sql', 'alter table base add column a;\n');
+    writeMigration('0003_backfill.sql', '-- after 0002_add.sql, not 0002_add_users\n');
+    await git.add('.');
+    await git.commit('stream migrations');
+    const streamTip = (await git.revparse(['HEAD'])).trim();
+
+    await git.checkout(mainBranch);
+    writeMigration('0002_add_users.sql', '-- written while 0002_add was in review\ncreate table users;\n');
+    await git.add('.');
+    await git.commit('main migration');
+
+    await git.checkout('stream-1500-test');
+    await git.merge([mainBranch, '--no-edit']);
+
+    const renames = await renumberMigrations(git, projectRoot, streamTip, mainBranch);
+
+    expect(renames[0]).toEqual({
+      from: 'db/migrations/0002_add.sql',
+      to: 'db/migrations/0003_add.sql',
+      referencesUpdated: ['db/migrations/0004_backfill.sql'],
+    });
+    const dir = join(projectRoot, 'db/migrations');
+    expect(readFileSync(join(dir, '0004_backfill.sql'), 'utf-8')).toBe('-- after 0003_add.sql, not 0002_add_users\n');
+    expect(readFileSync(join(dir, '0002_add_users.sql'), 'utf-8')).toBe(
+      '-- written while 0002_add was in review\ncreate table users;\n'
+    );
+  });
+
+  it('resolves an add/add conflict on the same migration name', async () => {
+    const { git, projectRoot } = env;
+
+    await git.checkoutLocalBranch('stream-1500-test');
+    writeMigration('0002_add_table.sql', 'create table posts;\n');
+    await git.add('.');
+    await git.commit('stream migration');
+    const streamTip = (await git.revparse(['HEAD'])).trim();
+
+    await git.checkout(mainBranch);
+    writeMigration('0002_add_table.sql', 'create table users;\n');
+    await git.add('.');
+    await git.commit('main migration');
+
+    await git.checkout('stream-1500-test');
+    await git.merge([mainBranch]).catch(() => {});
+    expect((await git.status()).conflicted).toEqual(['db/migrations/0002_add_table.sql']);
+
+    const renames = await renumberMigrations(git, projectRoot, streamTip, mainBranch);
+
+    expect(renames.map((r) => r.to)).toEqual(['db/migrations/0003_add_table.sql']);
+    expect((await git.status()).conflicted).toEqual([]);
+    const dir = join(projectRoot, 'db/migrations');
+    expect(readFileSync(join(dir, '0002_add_table.sql'), 'utf-8')).toBe('create table users;\n');
+    expect(readFileSync(join(dir, '0003_add_table.sql'), 'utf-8')).toBe('create table posts;\n');
+  });
+});
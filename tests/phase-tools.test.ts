@@ -0,0 +1,88 @@
+/**
+ * start_phase / complete_phase Tool Tests
+ *
+ * Test Coverage:
+ * 1. Phases are tracked on active streams
+ * 2. Completed, archived and blocked streams are rejected without changes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const mockConfig = vi.hoisted(() => ({ PROJECT_ROOT: '', WORKTREE_ROOT: '' }));
+
+vi.mock('../src/config.js', () => ({ config: mockConfig }));
+vi.mock('../src/state-manager.js');
+
+import { createTestGitRepo, cleanupTestEnv, createMockStreamMetadata, type TestEnvironment } from './test-helpers.js';
+import { startPhase } from '../src/tools/start-phase.js';
+import { completePhase } from '../src/tools/complete-phase.js';
+import { getStream, updateStream } from '../src/state-manager.js';
+import type { StreamStatus } from '../src/types.js';
+
+const STREAM_ID = 'stream-2500-phases';
+
+describe('phase tools', () => {
+  let env: TestEnvironment;
+
+  const metadata = () => JSON.parse(readFileSync(join(env.projectRoot, 'METADATA.json'), 'utf-8'));
+
+  const setStatus = (status: StreamStatus) => {
+    vi.mocked(getStream).mockResolvedValue(createMockStreamMetadata(STREAM_ID, { status, worktreePath: env.projectRoot }));
+  };
+
+  beforeEach(async () => {
+    env = await createTestGitRepo();
+    mockConfig.PROJECT_ROOT = env.projectRoot;
+    mockConfig.WORKTREE_ROOT = env.worktreeRoot;
+    vi.mocked(updateStream).mockReset();
+    setStatus('active');
+
+    writeFileSync(
+      join(env.projectRoot, 'METADATA.json'),
+      JSON.stringify({
+        ...createMockStreamMetadata(STREAM_ID, { worktreePath: env.projectRoot }),
+        completedAt: null,
+        phases: ['Build', 'Test'],
+        currentPhase: null,
+        progress: 0,
+        tags: [],
+        blockedReason: null,
+      })
+    );
+    await env.git.add('.');
+    await env.git.commit('docset');
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('tracks phases on an active stream', async () => {
+    await startPhase({ streamId: STREAM_ID, phaseName: 'build' });
+    const result = await completePhase({ streamId: STREAM_ID, phaseName: 'Build' });
+
+    expect(result.content[0].text).toContain('Progress:  50% (1/2 phases)');
+    expect(metadata().phases[0]).toMatchObject({ name: 'Build', status: 'completed' });
+  });
+
+  it('rejects phase changes on streams that are not active or paused', async () => {
+    const head = (await env.git.log({ maxCount: 1 })).latest?.hash;
+
+    setStatus('completed');
+    const start = await startPhase({ streamId: STREAM_ID, phaseName: 'Build' });
+    setStatus('archived');
+    const complete = await completePhase({ streamId: STREAM_ID, phaseName: 'Build' });
+    setStatus('blocked');
+    const blocked = await completePhase({ streamId: STREAM_ID, phaseName: 'Build' });
+
+    expect(start.content[0].text).toBe(
+      `start_phase failed: Stream ${STREAM_ID} is completed. Phases can only be started on active or paused streams.`
+    );
+    expect(complete.content[0].text).toContain(`Stream ${STREAM_ID} is archived.`);
+    expect(blocked.content[0].text).toContain('Move it back to "active" with update_stream_status first.');
+    expect(metadata().phases[0]).toBe('Build');
+    expect((await env.git.log({ maxCount: 1 })).latest?.hash).toBe(head);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Phase Tracking Tests
+ *
+ * Test Coverage:
+ * 1. Normalizing legacy (string) and partial phase entries
+ * 2. Case-insensitive phase lookup
+ * 3. Progress computation
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { normalizePhases, findPhase, computePhaseProgress, createPhase } from '../src/utils/phases.js';
+
+describe('phase tracking', () => {
+  it('converts legacy string phases to pending entries', () => {
+    expect(normalizePhases(['Design', 'Build'])).toEqual([
+      { name: 'Design', status: 'pending', startedAt: null, completedAt: null },
+      { name: 'Build', status: 'pending', startedAt: null, completedAt: null },
+    ]);
+  });
+
+  it('keeps existing phase objects and fills missing fields', () => {
+    const [phase] = normalizePhases([{ name: 'Design', status: 'completed', completedAt: '2025-12-10', summary: 'done' }]);
+    expect(phase).toEqual({
+      name: 'Design',
+      status: 'completed',
+      startedAt: null,
+      completedAt: '2025-12-10',
+      summary: 'done',
+    });
+  });
+
+  it('returns an empty list for missing phases', () => {
+    expect(normalizePhases(undefined)).toEqual([]);
+  });
+
+  it('finds phases case-insensitively', () => {
+    const phases = [createPhase('API Design'), createPhase('Implementation')];
+    expect(findPhase(phases, ' api design ')?.name).toBe('API Design');
+    expect(findPhase(phases, 'Testing')).toBeUndefined();
+  });
+
+  it('computes progress from completed phases', () => {
+    const phases = [createPhase('A'), createPhase('B'), createPhase('C')];
+    expect(computePhaseProgress(phases)).toBe(0);
+    phases[0].status = 'completed';
+    phases[1].status = 'in_progress';
+    expect(computePhaseProgress(phases)).toBe(33);
+    phases[1].status = 'completed';
+    phases[2].status = 'completed';
+    expect(computePhaseProgress(phases)).toBe(100);
+    expect(computePhaseProgress([])).toBe(0);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Binary Conflict Tests
+ *
+ * Test Coverage:
+ * 1. PNG/JPEG dimensions and binary detection
+ * 2. prepare_merge extraction reports size/hash/dimensions per side
+ * 3. resolve_binary_conflict keeps one side or both (renamed)
+ * 4. Rejected while FEATURES.binaryFileSupport is off
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+
+const location = vi.hoisted(() => ({ worktreePath: '' }));
+const mockConfig = vi.hoisted(() => ({
+  CONFLICT_HISTORY_MAX_COMMITS: 10,
+  CONFLICT_HISTORY_DIFF_BUDGET: 1000,
+  CONFLICT_RESPONSE_BUDGET: 60000,
+  CONFLICT_HUNK_MAX_CHARS: 8000,
+  MAX_FILE_SIZE: 100 * 1024,
+  PROJECT_ROOT: '/nonexistent',
+  CONFLICT_PROMPT_PATH: '.project/prompts/conflict-resolution.txt',
+  FEATURES: { binaryFileSupport: true },
+}));
+
+vi.mock('../src/utils/stream-metadata.js', () => ({
+  resolveStreamLocation: async (streamId?: string) => ({
+    streamId: streamId || 'stream-1600-test',
+    worktreePath: location.worktreePath,
+    registry: null,
+  }),
+}));
+
+vi.mock('../src/config.js', () => ({ config: mockConfig }));
+
+import { createTestGitRepo, cleanupTestEnv, type TestEnvironment } from './test-helpers.js';
+import { extractConflicts, formatConflictsForAgent } from '../src/conflict-resolver.js';
+import { resolveBinaryConflict } from '../src/tools/resolve-binary-conflict.js';
+import { isBinaryContent, isBinaryPath, readImageDimensions } from '../src/utils/binary-info.js';
+
+/**
+ * Minimal PNG: signature + IHDR header (enough for dimension parsing)
+ */
+function png(width: number, height: number, fill: number): Buffer {
+  const header = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header, 0);
+  header.writeUInt32BE(13, 8);
+  header.write('IHDR', 12, 'ascii');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return Buffer.concat([header, Buffer.alloc(64, fill)]);
+}
+
+describe('binary info', () => {
+  it('reads PNG dimensions', () => {
+    expect(readImageDimensions(png(1280, 800, 1))).toEqual({ width: 1280, height: 800 });
+  });
+
+  it('reads JPEG dimensions from the start-of-frame segment', () => {
+    const jpeg = Buffer.from([
+      0xff, 0xd8, // SOI
+      0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, // APP0, 2 bytes of payload
+      0xff, 0xc0, 0x00, 0x11, 0x08, 0x02, 0x58, 0x03, 0x20, 0x03, // SOF0: 600 high, 800 wide
+      ...Array(12).fill(0),
+    ]);
+    expect(readImageDimensions(jpeg)).toEqual({ width: 800, height: 600 });
+  });
+
+  it('detects binary files by extension or NUL bytes', () => {
+    expect(isBinaryPath('product/screenshots/home.PNG')).toBe(true);
+    expect(isBinaryPath('src/index.ts')).toBe(false);
+    expect(isBinaryContent(Buffer.from([0x41, 0x00, 0x42]))).toBe(true);
+    expect(isBinaryContent(Buffer.from('plain text'))).toBe(false);
+    expect(readImageDimensions(Buffer.from('plain text'))).toBeNull();
+  });
+});
+
+describe('binary conflicts', () => {
+  let env: TestEnvironment;
+  const shot = 'product/screenshots/home.png';
+
+  beforeEach(async () => {
+    mockConfig.FEATURES.binaryFileSupport = true;
+    env = await createTestGitRepo();
+    location.worktreePath = env.projectRoot;
+
+    const { git, projectRoot } = env;
+    const mainBranch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    mkdirSync(join(projectRoot, 'product/screenshots'), { recursive: true });
+
+    writeFileSync(join(projectRoot, shot), png(1280, 720, 1));
+    await git.add('.');
+    await git.commit('base screenshot');
+
+    await git.checkoutLocalBranch('stream-1600-test');
+    writeFileSync(join(projectRoot, shot), png(1280, 800, 2));
+    await git.add('.');
+    await git.commit('stream screenshot');
+
+    await git.checkout(mainBranch);
+    writeFileSync(join(projectRoot, shot), png(1440, 900, 3));
+    await git.add('.');
+    await git.commit('main screenshot');
+
+    await git.checkout('stream-1600-test');
+    await git.merge([mainBranch]).catch(() => {});
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('reports size, hash and dimensions for each side instead of hunks', async () => {
+    const [conflict] = await extractConflicts(env.projectRoot, [shot], 'stream-1600-test');
+
+    expect(conflict.conflictType).toBe('binary');
+    expect(conflict.hunks).toEqual([]);
+    expect(conflict.binary?.ours).toMatchObject({ size: 97, mimeType: 'image/png', dimensions: { width: 1280, height: 800 } });
+    expect(conflict.binary?.base?.dimensions).toEqual({ width: 1280, height: 720 });
+    expect(conflict.binary?.theirs?.dimensions).toEqual({ width: 1440, height: 900 });
+    expect(conflict.binary?.ours?.sha256).not.toBe(conflict.binary?.theirs?.sha256);
+
+    const report = formatConflictsForAgent([conflict], 'stream-1600-test');
+    expect(report).toContain('STREAM (ours):   97 B, 1280x800, image/png');
+    expect(report).toContain('resolve_binary_conflict');
+  });
+
+  it('keeps main\'s version with theirs', async () => {
+    const text = (await resolveBinaryConflict({ file: shot, choice: 'theirs' })).content[0].text!;
+
+    expect(text).toContain('BINARY CONFLICT RESOLVED');
+    expect(text).toContain('kept main version (97 B, 1440x900');
+    expect(text).toContain('Remaining conflicts: 0');
+    expect(readFileSync(join(env.projectRoot, shot)).equals(png(1440, 900, 3))).toBe(true);
+  });
+
+  it('keeps both sides as renamed copies', async () => {
+    const text = (await resolveBinaryConflict({ file: shot, choice: 'both-renamed' })).content[0].text!;
+
+    expect(text).toContain('Remaining conflicts: 0');
+    expect(existsSync(join(env.projectRoot, shot))).toBe(false);
+    expect(readFileSync(join(env.projectRoot, 'product/screenshots/home.stream.png')).equals(png(1280, 800, 2))).toBe(true);
+    expect(readFileSync(join(env.projectRoot, 'product/screenshots/home.main.png')).equals(png(1440, 900, 3))).toBe(true);
+    expect((await env.git.status()).conflicted).toEqual([]);
+  });
+
+  it('is rejected while binary support is disabled', async () => {
+    mockConfig.FEATURES.binaryFileSupport = false;
+
+    const text = (await resolveBinaryConflict({ file: shot, choice: 'ours' })).content[0].text!;
+
+    expect(text).toContain('resolve_binary_conflict failed: Binary conflict support is disabled');
+    expect((await env.git.status()).conflicted).toEqual([shot]);
+  });
+});
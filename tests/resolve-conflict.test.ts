@@ -0,0 +1,146 @@
+/**
+ * resolve_conflict Tool Tests
+ *
+ * Test Coverage:
+ * 1. resolveHunk for each resolution, including empty sides and diff3 bases
+ * 2. Custom content with conflict markers is rejected
+ * 3. The tool resolves hunks in place and stages the file after the last one
+ * 4. Out-of-range hunks leave the file untouched
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const location = vi.hoisted(() => ({ worktreePath: '' }));
+
+vi.mock('../src/utils/stream-metadata.js', () => ({
+  resolveStreamLocation: async (streamId?: string) => ({
+    streamId: streamId || 'stream-1800-test',
+    worktreePath: location.worktreePath,
+    registry: null,
+  }),
+}));
+
+vi.mock('../src/config.js', () => ({
+  config: { CONFLICT_HISTORY_MAX_COMMITS: 10, CONFLICT_HISTORY_DIFF_BUDGET: 1000, FEATURES: { binaryFileSupport: false } },
+}));
+
+import { createTestGitRepo, cleanupTestEnv, type TestEnvironment } from './test-helpers.js';
+import { resolveHunk } from '../src/conflict-resolver.js';
+import { resolveConflict } from '../src/tools/resolve-conflict.js';
+
+describe('resolveHunk', () => {
+  const content = [
+    'top',
+    '<<<<<<< HEAD',
+    'stream',
+    '||||||| base',
+    'original',
+    '=======',
+    'main',
+    '>>>>>>> origin/main',
+    'middle',
+    '<<<<<<< HEAD',
+    '=======',
+    'main only',
+    '>>>>>>> origin/main',
+    'bottom',
+  ].join('\n');
+
+  it('keeps one or both sides of the chosen hunk', () => {
+    expect(resolveHunk(content, 0, 'ours').split('\n').slice(0, 3)).toEqual(['top', 'stream', 'middle']);
+    expect(resolveHunk(content, 0, 'theirs').split('\n').slice(0, 3)).toEqual(['top', 'main', 'middle']);
+    expect(resolveHunk(content, 0, 'both-ours-first').split('\n').slice(0, 4)).toEqual(['top', 'stream', 'main', 'middle']);
+    expect(resolveHunk(content, 0, 'both-theirs-first').split('\n').slice(0, 4)).toEqual(['top', 'main', 'stream', 'middle']);
+  });
+
+  it('drops the hunk entirely when the kept side is empty', () => {
+    const resolved = resolveHunk(content, 1, 'ours');
+    expect(resolved.split('\n').slice(-2)).toEqual(['middle', 'bottom']);
+    expect(resolved).toContain('<<<<<<< HEAD\nstream');
+  });
+
+  it('replaces the hunk with custom content', () => {
+    expect(resolveHunk(content, 1, 'custom', 'merged a\nmerged b\n').split('\n').slice(-4)).toEqual([
+      'middle',
+      'merged a',
+      'merged b',
+      'bottom',
+    ]);
+    expect(resolveHunk(content, 1, 'custom', '').split('\n').slice(-2)).toEqual(['middle', 'bottom']);
+  });
+
+  it('rejects custom content that contains markers', () => {
+    expect(() => resolveHunk(content, 0, 'custom', 'a\n=======\nb')).toThrow(
+      'custom content contains conflict markers (line 2)'
+    );
+  });
+});
+
+describe('resolve_conflict', () => {
+  let env: TestEnvironment;
+  const file = 'config.ts';
+
+  beforeEach(async () => {
+    env = await createTestGitRepo();
+    location.worktreePath = env.projectRoot;
+
+    const { git, projectRoot } = env;
+    const mainBranch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    const body = (a: string, b: string) =>
+      [`export const a = '${a}';`, ...Array(8).fill('// unchanged'), `export const b = '${b}';`, ''].join('\n');
+
+    writeFileSync(join(projectRoot, file), body('base', 'base'));
+    await git.add('.');
+    await git.commit('base');
+
+    await git.checkoutLocalBranch('stream-1800-test');
+    writeFileSync(join(projectRoot, file), body('stream', 'stream'));
+    await git.commit('stream', ['.']);
+
+    await git.checkout(mainBranch);
+    writeFileSync(join(projectRoot, file), body('main', 'main'));
+    await git.commit('main', ['.']);
+
+    await git.checkout('stream-1800-test');
+    await git.merge([mainBranch]).catch(() => {});
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('resolves hunks in place and stages the file after the last one', async () => {
+    const first = (await resolveConflict({ file, hunk: 1, resolution: 'theirs' })).content[0].text!;
+    expect(first).toContain('Hunk: 1/2 → theirs');
+    expect(first).toContain('1 hunk(s) left in config.ts (hunks after 1 move up by one)');
+    expect(first).toContain('Remaining conflicted files: 1');
+
+    const second = (await resolveConflict({ file, hunk: 1, resolution: 'custom', content: "export const b = 'both';" }))
+      .content[0].text!;
+    expect(second).toContain('All hunks resolved - config.ts staged');
+    expect(second).toContain('All conflicts resolved - run prepare_merge to commit the merge.');
+
+    const resolved = readFileSync(join(env.projectRoot, file), 'utf-8');
+    expect(resolved).toContain("export const a = 'main';");
+    expect(resolved).toContain("export const b = 'both';");
+    expect(resolved).not.toContain('<<<<<<<');
+    expect((await env.git.status()).conflicted).toEqual([]);
+  });
+
+  it('reports how the remaining hunks are renumbered', async () => {
+    const last = (await resolveConflict({ file, hunk: 2, resolution: 'ours' })).content[0].text!;
+
+    expect(last).toContain('1 hunk(s) left in config.ts (hunks before 2 keep their numbers)');
+  });
+
+  it('leaves the file untouched for an out-of-range hunk', async () => {
+    const before = readFileSync(join(env.projectRoot, file), 'utf-8');
+
+    const text = (await resolveConflict({ file, hunk: 3, resolution: 'ours' })).content[0].text;
+
+    expect(text).toBe('resolve_conflict failed: Hunk 3 out of range - config.ts has 2 hunk(s)');
+    expect(readFileSync(join(env.projectRoot, file), 'utf-8')).toBe(before);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * rollback_merge Tool Tests
+ *
+ * Test Coverage:
+ * 1. Reverting the stream's commits (from the complete_merge record) in one pushed commit
+ * 2. History archive and registry rollback record
+ * 3. Reopening the worktree with registry, METADATA.json and STATUS.md active again
+ * 4. A rejected push, or a failure before the push, leaves main as it was
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { chmodSync, existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { simpleGit } from 'simple-git';
+
+const mockConfig = vi.hoisted(() => ({
+  PROJECT_ROOT: '',
+  WORKTREE_ROOT: '',
+  LOCK_MAX_RETRIES: 1,
+  LOCK_RETRY_INTERVAL: 10,
+  FEATURES: { conflictAnalytics: false },
+}));
+
+vi.mock('../src/config.js', () => ({ config: mockConfig }));
+vi.mock('../src/state-manager.js');
+
+import { createTestGitRepo, cleanupTestEnv, createMockStreamMetadata, type TestEnvironment } from './test-helpers.js';
+import { rollbackMerge } from '../src/tools/rollback-merge.js';
+import { getStream, updateStream } from '../src/state-manager.js';
+
+const STREAM_ID = 'stream-2600-rollback';
+
+describe('rollback_merge', () => {
+  let env: TestEnvironment;
+  let origin: string;
+  let baseCommit: string;
+  let headCommit: string;
+
+  const originMain = async () => (await simpleGit(origin).revparse(['main'])).trim();
+
+  beforeEach(async () => {
+    env = await createTestGitRepo();
+    mockConfig.PROJECT_ROOT = env.projectRoot;
+    mockConfig.WORKTREE_ROOT = env.worktreeRoot;
+    const { git, projectRoot } = env;
+
+    origin = join(env.worktreeRoot, '..', 'origin.git');
+    await simpleGit().init(true, [origin]);
+    await git.branch(['-M', 'main']);
+    await git.addRemote('origin', origin);
+    baseCommit = (await git.revparse(['HEAD'])).trim();
+
+    // Stream branch with two commits, fast-forwarded onto main by complete_merge
+    await git.checkoutLocalBranch(STREAM_ID);
+    writeFileSync(
+      join(projectRoot, 'METADATA.json'),
+      JSON.stringify({
+        ...createMockStreamMetadata(STREAM_ID),
+        status: 'completed',
+        completedAt: '2026-01-01T00:00:00.000Z',
+        phases: [],
+        currentPhase: null,
+        progress: 100,
+        tags: [],
+        blockedReason: null,
+      })
+    );
+    writeFileSync(join(projectRoot, 'feature.ts'), 'export const feature = 1;\n');
+    await git.add('.');
+    await git.commit('feat: feature');
+    writeFileSync(join(projectRoot, 'feature.ts'), 'export const feature = 2;\n');
+    await git.add('.');
+    await git.commit('feat: tweak feature');
+    headCommit = (await git.revparse(['HEAD'])).trim();
+
+    await git.checkout('main');
+    await git.merge([STREAM_ID, '--ff-only']);
+    await git.push('origin', 'main');
+
+    vi.mocked(updateStream).mockReset();
+    vi.mocked(getStream).mockResolvedValue(
+      createMockStreamMetadata(STREAM_ID, {
+        status: 'completed',
+        lastMerge: { baseCommit, headCommit, mergedAt: '2026-01-01T00:00:00.000Z' },
+      })
+    );
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('reverts the merged commits in one pushed commit and records the rollback', async () => {
+    const result = await rollbackMerge({ streamId: STREAM_ID, reason: 'broke checkout' });
+
+    const text = result.content[0].text!;
+    expect(text).toContain('ROLLBACK_MERGE SUCCESS');
+    expect(text).toContain('Reverted Commits: 2');
+    expect(existsSync(join(env.projectRoot, 'feature.ts'))).toBe(false);
+
+    const log = await env.git.log({ maxCount: 2 });
+    const [archive, revert] = log.all;
+    expect(archive.message).toBe(`docs: Record rollback of ${STREAM_ID}`);
+    expect(revert.message).toBe(`revert(${STREAM_ID}): roll back merge`);
+    expect(await originMain()).toBe(archive.hash);
+
+    const history = readdirSync(join(env.projectRoot, '.project/history')).filter((f) => f.endsWith('-ROLLBACK.md'));
+    expect(history).toHaveLength(1);
+    expect(readFileSync(join(env.projectRoot, '.project/history', history[0]), 'utf-8')).toContain('broke checkout');
+
+    expect(updateStream).toHaveBeenCalledWith(STREAM_ID, {
+      rollbacks: [expect.objectContaining({ reason: 'broke checkout', revertCommit: revert.hash, revertedCommits: expect.any(Array) })],
+    });
+    expect(vi.mocked(updateStream).mock.calls[0][1].rollbacks![0].revertedCommits).toHaveLength(2);
+  });
+
+  it('reopens the worktree with the stream active everywhere', async () => {
+    const result = await rollbackMerge({ streamId: STREAM_ID, reason: 'broke checkout', reopenWorktree: true });
+
+    const worktreePath = join(env.worktreeRoot, STREAM_ID);
+    expect(result.content[0].text).toContain('WORKTREE REOPENED (status: active)');
+    expect(readFileSync(join(worktreePath, 'feature.ts'), 'utf-8')).toBe('export const feature = 2;\n');
+    expect(updateStream).toHaveBeenCalledWith(STREAM_ID, { status: 'active' });
+
+    const metadata = JSON.parse(readFileSync(join(worktreePath, 'METADATA.json'), 'utf-8'));
+    expect(metadata).toMatchObject({ status: 'active', completedAt: null });
+    expect(readFileSync(join(worktreePath, 'STATUS.md'), 'utf-8')).toContain('**Stream status**: active');
+    expect((await simpleGit(worktreePath).status()).isClean()).toBe(true);
+  });
+
+  it('resets main when the push is rejected', async () => {
+    const hook = join(origin, 'hooks/pre-receive');
+    writeFileSync(hook, '#!/bin/sh\nwhile read old new ref; do [ "$ref" = refs/heads/main ] && exit 1; done\nexit 0\n');
+    chmodSync(hook, 0o755);
+
+    const result = await rollbackMerge({ streamId: STREAM_ID, reason: 'broke checkout' });
+
+    expect(result.content[0].text).toContain('ROLLBACK PUSH FAILED');
+    expect((await env.git.revparse(['HEAD'])).trim()).toBe(headCommit);
+    expect(await originMain()).toBe(headCommit);
+    expect((await env.git.status()).isClean()).toBe(true);
+    expect(updateStream).not.toHaveBeenCalled();
+  });
+
+  it('resets main when the rollback fails before the push', async () => {
+    // A directory where the history archive goes makes Step 4 throw after the revert commit
+    const date = new Date().toISOString().split('T')[0].replace(/-/g, '');
+    const archive = join(env.projectRoot, '.project/history', `${date}_${STREAM_ID}-ROLLBACK.md`);
+    mkdirSync(archive, { recursive: true });
+    writeFileSync(join(archive, 'keep'), '');
+    await env.git.add('.');
+    await env.git.commit('chore: block the archive path');
+    await env.git.push('origin', 'main');
+    const mainBefore = (await env.git.revparse(['HEAD'])).trim();
+
+    const result = await rollbackMerge({ streamId: STREAM_ID, reason: 'broke checkout' });
+
+    const text = result.content[0].text!;
+    expect(text).toContain('rollback_merge failed');
+    expect(text).toContain(`Local main was reset to ${mainBefore.slice(0, 8)}`);
+    expect((await env.git.revparse(['HEAD'])).trim()).toBe(mainBefore);
+    expect(await originMain()).toBe(mainBefore);
+    expect((await env.git.status()).isClean()).toBe(true);
+    expect(updateStream).not.toHaveBeenCalled();
+  });
+});
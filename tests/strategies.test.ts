@@ -0,0 +1,160 @@
+/**
+ * Conflict Strategy Registry Tests
+ *
+ * Test Coverage:
+ * 1. High-confidence resolutions are written and staged
+ * 2. Medium/low-confidence resolutions become suggestions
+ * 3. Failing strategies are skipped
+ * 4. Registration order and duplicate names
+ * 5. Suggestion bodies stay within the response budget
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+vi.mock('../src/config.js', () => ({
+  config: { LOCKFILE_INSTALL_TIMEOUT: 180000, CONFLICT_RESPONSE_BUDGET: 2000, FEATURES: { binaryFileSupport: false } },
+}));
+
+import { createTestGitRepo, cleanupTestEnv, type TestEnvironment } from './test-helpers.js';
+import { extractConflicts } from '../src/conflict-resolver.js';
+import {
+  registerStrategy,
+  resetStrategies,
+  runStrategies,
+  getStrategies,
+  formatStrategyReport,
+} from '../src/strategies/index.js';
+import type { ConflictStrategy, ResolutionResult } from '../src/types.js';
+
+function makeStrategy(
+  name: string,
+  extension: string,
+  resolve: () => Promise<ResolutionResult>
+): ConflictStrategy {
+  return { name, canHandle: (file) => file.endsWith(extension), resolve };
+}
+
+/**
+ * Create conflicting edits of each file on main and a stream branch, then merge
+ */
+async function createConflicts(env: TestEnvironment, files: string[]): Promise<string[]> {
+  const { git, projectRoot } = env;
+  const mainBranch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+
+  for (const file of files) writeFileSync(join(projectRoot, file), 'base\n');
+  await git.add('.');
+  await git.commit('base');
+
+  await git.checkoutLocalBranch('stream-1500-test');
+  for (const file of files) writeFileSync(join(projectRoot, file), 'stream\n');
+  await git.commit('stream change', files);
+
+  await git.checkout(mainBranch);
+  for (const file of files) writeFileSync(join(projectRoot, file), 'main\n');
+  await git.commit('main change', files);
+
+  await git.checkout('stream-1500-test');
+  await git.merge([mainBranch]).catch(() => {});
+  return (await git.status()).conflicted;
+}
+
+describe('conflict strategy registry', () => {
+  let env: TestEnvironment;
+
+  beforeEach(async () => {
+    env = await createTestGitRepo();
+    resetStrategies();
+  });
+
+  afterEach(() => {
+    resetStrategies();
+    cleanupTestEnv(env);
+  });
+
+  it('writes and stages high-confidence resolutions, leaves the rest', async () => {
+    registerStrategy(makeStrategy('json', '.json', async () => ({
+      resolved: true,
+      content: '{"merged":true}\n',
+      strategy: 'json',
+      confidence: 'high',
+    })));
+    registerStrategy(makeStrategy('guess', '.txt', async () => ({
+      resolved: true,
+      content: 'main\nstream\n',
+      strategy: 'guess',
+      confidence: 'medium',
+      reason: 'concatenated both sides',
+    })));
+
+    const conflicted = await createConflicts(env, ['config.json', 'notes.txt']);
+    const conflicts = await extractConflicts(env.projectRoot, conflicted, 'stream-1500-test');
+    const run = await runStrategies(env.projectRoot, conflicts, 'stream-1500-test');
+
+    expect(run.autoResolved).toEqual([
+      { file: 'config.json', strategy: 'json', confidence: 'high', reason: undefined, warnings: undefined },
+    ]);
+    expect(run.remaining.map((c) => c.file)).toEqual(['notes.txt']);
+    expect(run.suggestions.map((s) => [s.file, s.result.strategy])).toEqual([['notes.txt', 'guess']]);
+
+    expect(readFileSync(join(env.projectRoot, 'config.json'), 'utf-8')).toBe('{"merged":true}\n');
+    expect((await env.git.status()).conflicted).toEqual(['notes.txt']);
+  });
+
+  it('skips strategies that throw and tries the next one', async () => {
+    registerStrategy(makeStrategy('broken', '.json', async () => {
+      throw new Error('boom');
+    }));
+    registerStrategy(makeStrategy('fallback', '.json', async () => ({
+      resolved: true,
+      content: '{}\n',
+      strategy: 'fallback',
+      confidence: 'high',
+    })));
+
+    const conflicted = await createConflicts(env, ['config.json']);
+    const conflicts = await extractConflicts(env.projectRoot, conflicted, 'stream-1500-test');
+    const run = await runStrategies(env.projectRoot, conflicts, 'stream-1500-test');
+
+    expect(run.autoResolved.map((r) => r.strategy)).toEqual(['fallback']);
+    expect(run.remaining).toEqual([]);
+  });
+
+  it('points to the hunk tools instead of printing suggestions over the budget', async () => {
+    const lockfile = '"dependency": "1.0.0",\n'.repeat(200);
+    registerStrategy(makeStrategy('guess', '.txt', async () => ({
+      resolved: true,
+      content: 'main\nstream\n',
+      strategy: 'guess',
+      confidence: 'medium',
+    })));
+    registerStrategy(makeStrategy('huge', '.json', async () => ({
+      resolved: true,
+      content: lockfile,
+      strategy: 'huge',
+      confidence: 'low',
+    })));
+
+    const conflicted = await createConflicts(env, ['a.txt', 'big.json']);
+    const conflicts = await extractConflicts(env.projectRoot, conflicted, 'stream-1500-test');
+    const report = formatStrategyReport(await runStrategies(env.projectRoot, conflicts, 'stream-1500-test'));
+
+    expect(report).toContain('```\nmain\nstream\n\n```');
+    expect(report).not.toContain('"dependency"');
+    expect(report).toContain(
+      `FILE: big.json\nStrategy: huge (low confidence)\n(${lockfile.length} characters, over the response budget - view with get_conflict_hunk / resolve_conflict)`
+    );
+    expect(report.length).toBeLessThan(2000);
+  });
+
+  it('supports priority registration and rejects duplicate names', () => {
+    const noop = async (): Promise<ResolutionResult> => ({ resolved: false, content: null, strategy: 'x', confidence: 'low' });
+    registerStrategy(makeStrategy('a', '.a', noop));
+    registerStrategy(makeStrategy('b', '.b', noop), { first: true });
+
+    const names = getStrategies().map((s) => s.name);
+    expect(names.indexOf('b')).toBeLessThan(names.indexOf('a'));
+    expect(() => registerStrategy(makeStrategy('a', '.a', noop))).toThrow('already registered');
+  });
+});
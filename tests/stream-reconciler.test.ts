@@ -0,0 +1,115 @@
+/**
+ * Stream Reconciler Tests
+ *
+ * Test Coverage:
+ * 1. Parsing git worktree list --porcelain
+ * 2. Discrepancy detection across registry, worktrees, branches and activeStreams
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { parseWorktreeList, findDiscrepancies, type ReconcileSnapshot } from '../src/utils/stream-reconciler.js';
+import type { StreamMetadata, StreamStatus } from '../src/state-manager.js';
+
+function makeStream(streamId: string, status: StreamStatus = 'active'): StreamMetadata {
+  return {
+    streamId,
+    streamNumber: '1500',
+    title: streamId,
+    category: 'backend',
+    priority: 'medium',
+    status,
+    createdAt: '2025-12-10T10:00:00.000Z',
+    worktreePath: `/test/worktrees/${streamId}`,
+    branch: streamId,
+  };
+}
+
+function makeSnapshot(overrides: Partial<ReconcileSnapshot> = {}): ReconcileSnapshot {
+  return {
+    registry: {},
+    activeStreams: {},
+    worktrees: [{ path: '/test/project', branch: 'main', prunable: false, hasMetadata: false }],
+    localBranches: [],
+    remoteBranches: [],
+    ...overrides,
+  };
+}
+
+describe('stream reconciler', () => {
+  it('parses porcelain worktree output', () => {
+    const output = [
+      'worktree /test/project',
+      'HEAD 1111111111111111111111111111111111111111',
+      'branch refs/heads/main',
+      '',
+      'worktree /test/worktrees/stream-1500-auth',
+      'HEAD 2222222222222222222222222222222222222222',
+      'branch refs/heads/stream-1500-auth',
+      'prunable gitdir file points to non-existent location',
+      '',
+      'worktree /test/worktrees/detached',
+      'HEAD 3333333333333333333333333333333333333333',
+      'detached',
+      '',
+    ].join('\n');
+
+    expect(parseWorktreeList(output)).toEqual([
+      { path: '/test/project', branch: 'main', prunable: false, hasMetadata: false },
+      { path: '/test/worktrees/stream-1500-auth', branch: 'stream-1500-auth', prunable: true, hasMetadata: false },
+      { path: '/test/worktrees/detached', branch: null, prunable: false, hasMetadata: false },
+    ]);
+  });
+
+  it('reports nothing when everything agrees', () => {
+    const snapshot = makeSnapshot({
+      registry: { 'stream-1500-auth': makeStream('stream-1500-auth'), 'stream-1499-old': makeStream('stream-1499-old', 'archived') },
+      worktrees: [
+        ...makeSnapshot().worktrees,
+        { path: '/test/worktrees/stream-1500-auth', branch: 'stream-1500-auth', prunable: false, hasMetadata: true },
+      ],
+      localBranches: ['stream-1500-auth', 'stream-1499-old'],
+      remoteBranches: ['stream-1500-auth'],
+      activeStreams: {
+        'stream-1500-auth': { streamId: 'stream-1500-auth', worktreePath: '/test/worktrees/stream-1500-auth', lastAccessedAt: '' },
+      },
+    });
+
+    expect(findDiscrepancies(snapshot)).toEqual([]);
+  });
+
+  it('detects every kind of discrepancy', () => {
+    const snapshot = makeSnapshot({
+      registry: {
+        'stream-1500-auth': makeStream('stream-1500-auth'),
+        'stream-1501-gone': makeStream('stream-1501-gone', 'blocked'),
+        'stream-1502-bare': makeStream('stream-1502-bare'),
+      },
+      worktrees: [
+        ...makeSnapshot().worktrees,
+        { path: '/test/worktrees/stream-1500-auth', branch: 'stream-1500-auth', prunable: false, hasMetadata: true },
+        { path: '/test/worktrees/stream-1502-bare', branch: 'stream-1502-bare', prunable: false, hasMetadata: false },
+        { path: '/test/worktrees/stream-1503-new', branch: 'stream-1503-new', prunable: false, hasMetadata: true },
+        { path: '/test/worktrees/stream-1504-deleted', branch: 'stream-1504-deleted', prunable: true, hasMetadata: false },
+      ],
+      localBranches: ['stream-1505-orphan'],
+      remoteBranches: ['stream-1506-remote'],
+      activeStreams: {
+        'stream-1501-gone': { streamId: 'stream-1501-gone', worktreePath: '', lastAccessedAt: '' },
+        'stream-1499-unknown': { streamId: 'stream-1499-unknown', worktreePath: '', lastAccessedAt: '' },
+      },
+    });
+
+    const found = findDiscrepancies(snapshot).map((d) => [d.kind, d.streamId, d.repair]);
+    expect(found).toEqual([
+      ['missing-metadata', 'stream-1502-bare', null],
+      ['unregistered-worktree', 'stream-1503-new', 're-register from METADATA.json'],
+      ['prunable-worktree', 'stream-1504-deleted', 'git worktree prune'],
+      ['missing-worktree', 'stream-1501-gone', 'mark archived'],
+      ['orphaned-branch', 'stream-1505-orphan', 'delete local branch if merged into main'],
+      ['orphaned-branch', 'stream-1506-remote', null],
+      ['stale-active-stream', 'stream-1501-gone', 'clear activeStreams entry'],
+      ['stale-active-stream', 'stream-1499-unknown', 'clear activeStreams entry'],
+    ]);
+  });
+});
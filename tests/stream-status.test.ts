@@ -0,0 +1,54 @@
+/**
+ * Stream Status State Machine Tests
+ *
+ * Test Coverage:
+ * 1. Legal and illegal transitions
+ * 2. Terminal status
+ * 3. Status type guard
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  STATUS_TRANSITIONS,
+  isValidTransition,
+  getAllowedTransitions,
+  isStreamStatus,
+} from '../src/utils/stream-status.js';
+import type { StreamStatus } from '../src/state-manager.js';
+
+describe('stream status state machine', () => {
+  it('allows the normal lifecycle', () => {
+    const lifecycle: StreamStatus[] = ['initializing', 'active', 'ready-for-merge', 'completed', 'archived'];
+    for (let i = 0; i < lifecycle.length - 1; i++) {
+      expect(isValidTransition(lifecycle[i], lifecycle[i + 1])).toBe(true);
+    }
+  });
+
+  it('rejects illegal jumps', () => {
+    expect(isValidTransition('archived', 'active')).toBe(false);
+    expect(isValidTransition('initializing', 'completed')).toBe(false);
+    expect(isValidTransition('completed', 'active')).toBe(false);
+    expect(isValidTransition('paused', 'ready-for-merge')).toBe(false);
+  });
+
+  it('treats archived as terminal', () => {
+    expect(getAllowedTransitions('archived')).toEqual([]);
+  });
+
+  it('allows staying in the same status', () => {
+    expect(isValidTransition('blocked', 'blocked')).toBe(true);
+  });
+
+  it('only references known statuses', () => {
+    for (const targets of Object.values(STATUS_TRANSITIONS)) {
+      for (const target of targets) {
+        expect(isStreamStatus(target)).toBe(true);
+      }
+    }
+    expect(isStreamStatus('done')).toBe(false);
+    expect(isStreamStatus('toString')).toBe(false);
+    expect(isStreamStatus('constructor')).toBe(false);
+    expect(isStreamStatus(undefined)).toBe(false);
+  });
+});
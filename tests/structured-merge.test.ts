@@ -0,0 +1,149 @@
+/**
+ * Structured Merge Strategy Tests
+ *
+ * Test Coverage:
+ * 1. Key-level three-way merge of parsed trees
+ * 2. Clash reporting with JSON pointers; prototype-named keys stay data
+ * 3. JSON formatting preservation
+ * 4. YAML comment preservation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/config.js', () => ({ config: { LOCKFILE_INSTALL_TIMEOUT: 180000 } }));
+
+import { StructuredMergeStrategy, mergeTrees } from '../src/strategies/structured-merge.js';
+import type { ConflictContext } from '../src/types.js';
+
+function makeContext(file: string, base: string | null, ours: string, theirs: string): ConflictContext {
+  return {
+    file,
+    streamId: 'stream-1500-test',
+    worktreePath: '/tmp/worktree',
+    oursContent: '',
+    theirsContent: '',
+    conflictContent: '',
+    versions: { base, ours, theirs },
+    hunks: [],
+    mainCommits: [],
+    streamCommits: [],
+    fileType: file.slice(file.lastIndexOf('.')),
+    conflictType: 'config',
+  };
+}
+
+describe('mergeTrees', () => {
+  it('merges non-overlapping key edits from both sides', () => {
+    const base = { a: 1, nested: { x: 1, y: 1 }, gone: true };
+    const ours = { a: 2, nested: { x: 1, y: 1 }, gone: true, added: 'stream' };
+    const theirs = { a: 1, nested: { x: 1, y: 2 } };
+
+    const { merged, clashes } = mergeTrees(base, ours, theirs);
+
+    expect(clashes).toEqual([]);
+    expect(merged).toEqual({ a: 2, nested: { x: 1, y: 2 }, added: 'stream' });
+  });
+
+  it('merges additions to primitive arrays from both sides', () => {
+    const { merged, clashes } = mergeTrees(
+      { include: ['src', 'old'] },
+      { include: ['src', 'old', 'tests'] },
+      { include: ['src', 'scripts'] }
+    );
+
+    expect(clashes).toEqual([]);
+    expect(merged).toEqual({ include: ['src', 'tests', 'scripts'] });
+  });
+
+  it('flags arrays both sides changed other than by appending', () => {
+    const appended = mergeTrees({ plugins: ['a'] }, { plugins: ['a', 'b'] }, { plugins: ['a', 'c'] });
+    const reordered = mergeTrees({ extends: ['base', 'strict'] }, { extends: ['strict', 'base'] }, { extends: ['base', 'strict', 'react'] });
+
+    expect(appended.arrayMerges).toEqual([]);
+    expect(appended.merged).toEqual({ plugins: ['a', 'b', 'c'] });
+    expect(reordered.arrayMerges).toEqual(['/extends']);
+  });
+
+  it('reports true clashes as JSON pointers and keeps the stream value', () => {
+    const { merged, clashes } = mergeTrees(
+      { compilerOptions: { target: 'ES2020', 'paths/alias': 'a' } },
+      { compilerOptions: { target: 'ES2022', 'paths/alias': 'b' } },
+      { compilerOptions: { target: 'ES2023', 'paths/alias': 'c' } }
+    );
+
+    expect(clashes).toEqual(['/compilerOptions/target', '/compilerOptions/paths~1alias']);
+    expect(merged).toEqual({ compilerOptions: { target: 'ES2022', 'paths/alias': 'b' } });
+  });
+
+  it('keeps keys named like Object.prototype members as data', () => {
+    const base = JSON.parse('{"a": 1}');
+    const ours = JSON.parse('{"a": 2}');
+    const theirs = JSON.parse('{"a": 1, "constructor": "x", "toString": 1, "__proto__": {"polluted": true}}');
+
+    const { merged, clashes } = mergeTrees(base, ours, theirs);
+
+    expect(clashes).toEqual([]);
+    expect(Object.keys(merged as object)).toEqual(['a', 'constructor', 'toString', '__proto__']);
+    expect(JSON.stringify(merged)).toBe('{"a":2,"constructor":"x","toString":1,"__proto__":{"polluted":true}}');
+    expect(Object.getPrototypeOf(merged)).toBe(Object.prototype);
+  });
+});
+
+describe('StructuredMergeStrategy', () => {
+  const strategy = new StructuredMergeStrategy();
+
+  it('handles JSON and YAML but not lockfiles', () => {
+    const context = makeContext('x.json', '{}', '{}', '{}');
+    expect(strategy.canHandle('turbo.json', context)).toBe(true);
+    expect(strategy.canHandle('config/app.yml', context)).toBe(true);
+    expect(strategy.canHandle('pnpm-lock.yaml', context)).toBe(false);
+    expect(strategy.canHandle('src/index.ts', context)).toBe(false);
+  });
+
+  it('resolves JSON with high confidence, keeping indentation', async () => {
+    const result = await strategy.resolve(
+      makeContext(
+        'turbo.json',
+        '{\n    "a": 1,\n    "b": 1\n}\n',
+        '{\n    "a": 2,\n    "b": 1\n}\n',
+        '{\n    "a": 1,\n    "b": 3\n}\n'
+      )
+    );
+
+    expect(result.confidence).toBe('high');
+    expect(result.content).toBe('{\n    "a": 2,\n    "b": 3\n}\n');
+  });
+
+  it('returns a low-confidence suggestion when keys clash', async () => {
+    const result = await strategy.resolve(makeContext('a.json', '{"a":1}', '{"a":2}', '{"a":3}'));
+
+    expect(result.confidence).toBe('low');
+    expect(result.warnings).toEqual(['clash at /a']);
+  });
+
+  it('reports array merges that are not pure appends at medium confidence', async () => {
+    const result = await strategy.resolve(
+      makeContext('package.json', '{"files":["dist","src"]}', '{"files":["src","dist"]}', '{"files":["dist","src","types"]}')
+    );
+
+    expect(result.confidence).toBe('medium');
+    expect(result.warnings).toEqual(['array merged at /files']);
+    expect(JSON.parse(result.content!)).toEqual({ files: ['src', 'dist', 'types'] });
+  });
+
+  it('preserves YAML comments on untouched keys', async () => {
+    const base = '# pipeline\nname: build # job name\nsteps:\n  lint: false\n';
+    const ours = '# pipeline\nname: build # job name\nsteps:\n  lint: true\n';
+    const theirs = '# pipeline\nname: build # job name\nsteps:\n  lint: false\n  test: true\n';
+
+    const result = await strategy.resolve(makeContext('ci.yml', base, ours, theirs));
+
+    expect(result.confidence).toBe('high');
+    expect(result.content).toBe('# pipeline\nname: build # job name\nsteps:\n  lint: true\n  test: true\n');
+  });
+
+  it('declines files that do not parse', async () => {
+    const result = await strategy.resolve(makeContext('tsconfig.json', null, '{ // comment\n}', '{}'));
+    expect(result.resolved).toBe(false);
+  });
+});
@@ -66,6 +66,18 @@ describe('render - basic variable substitution', () => {
     expect(result).toContain('Title: Test');
     expect(result).toContain('Description: A test');
   });
+
+  it('should accept camelCase variable names', () => {
+    const template = '{{streamId}}: {{#commits}}{{hash}} {{/commits}}';
+    const result = render(template, { streamId: 'stream-042', commits: [{ hash: 'abc' }, { hash: 'def' }] });
+    expect(result).toBe('stream-042: abc def ');
+  });
+
+  it('should not expand tags inside inserted values', () => {
+    const template = '{{CODE}} / {{#ITEMS}}{{LINE}}{{/ITEMS}}';
+    const result = render(template, { CODE: '<p>{{title}}</p>', ITEMS: [{ LINE: '{{NAME}}' }], NAME: 'x' });
+    expect(result).toBe('<p>{{title}}</p> / {{NAME}}');
+  });
 });
 
 // ============================================================================
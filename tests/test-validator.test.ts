@@ -0,0 +1,114 @@
+/**
+ * Test Validator Tests
+ *
+ * Test Coverage:
+ * 1. Only workspace packages touched by the stream's diff are tested
+ * 2. Full run reports failed test names and files (node:test)
+ * 3. Runner detection from package.json scripts, vitest/jest JSON reports
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const mockConfig = vi.hoisted(() => ({
+  VALIDATION_TIMEOUT: 60000,
+  TEST_VALIDATION_SCOPE: 'changed' as 'changed' | 'all',
+}));
+
+vi.mock('../src/config.js', () => ({ config: mockConfig }));
+
+import { createTestGitRepo, cleanupTestEnv, type TestEnvironment } from './test-helpers.js';
+import { TestValidator, detectTestRunner, parseJsonReport, formatTestFailures } from '../src/validators/test-validator.js';
+
+function writePackage(root: string, dir: string, testBody: string) {
+  mkdirSync(join(root, dir), { recursive: true });
+  writeFileSync(join(root, dir, 'package.json'), JSON.stringify({ name: dir, scripts: { test: 'node --test' } }));
+  writeFileSync(
+    join(root, dir, 'math.test.mjs'),
+    `import test from 'node:test';\nimport assert from 'node:assert';\n\ntest('adds numbers', () => {\n  ${testBody}\n});\n`
+  );
+}
+
+describe('test validator', () => {
+  let env: TestEnvironment;
+
+  beforeEach(async () => {
+    env = await createTestGitRepo();
+    mockConfig.TEST_VALIDATION_SCOPE = 'changed';
+
+    const { git, projectRoot } = env;
+    writeFileSync(join(projectRoot, 'package.json'), JSON.stringify({ name: 'root', workspaces: ['packages/*'] }));
+    writePackage(projectRoot, 'packages/api', 'assert.strictEqual(1 + 1, 2);');
+    writePackage(projectRoot, 'packages/web', 'assert.strictEqual(1 + 1, 3);');
+    await git.add('.');
+    await git.commit('workspace');
+    await git.raw(['update-ref', 'refs/remotes/origin/main', 'HEAD']);
+    await git.checkoutLocalBranch('stream-2100-test');
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('runs only the packages the stream changed', async () => {
+    writeFileSync(join(env.projectRoot, 'packages/api/index.mjs'), 'export const api = 1;\n');
+    await env.git.add('.');
+    await env.git.commit('feat: api');
+
+    const result = await new TestValidator().validate(env.projectRoot);
+
+    expect(result.passed).toBe(true);
+    expect(result.details).toBe('Scope: changed packages: packages/api\npackages/api (node): 1 passed, 0 failed');
+  });
+
+  it('reports failed test names and files on a full run', async () => {
+    mockConfig.TEST_VALIDATION_SCOPE = 'all';
+
+    const result = await new TestValidator().validate(env.projectRoot);
+
+    expect(result.passed).toBe(false);
+    expect(result.errors).toEqual(['[test] packages/web (node): 1 failed test(s)']);
+    expect(result.testFailures).toEqual([
+      { file: 'packages/web/math.test.mjs', name: 'adds numbers', message: expect.stringContaining('Expected values to be strictly equal') },
+    ]);
+    expect(formatTestFailures(result.testFailures!)).toMatch(/^ {2}packages\/web\/math\.test\.mjs\n {4}✗ adds numbers - Expected/);
+  });
+
+  it('detects runners from test scripts and reads vitest/jest JSON reports', () => {
+    const dir = join(env.projectRoot, 'packages/ui');
+    mkdirSync(dir, { recursive: true });
+    const detect = (test: string) => {
+      writeFileSync(join(dir, 'package.json'), JSON.stringify({ scripts: { test } }));
+      return detectTestRunner(dir);
+    };
+
+    expect(detect('vitest run --coverage')).toBe('vitest');
+    expect(detect('NODE_OPTIONS=--experimental-vm-modules jest')).toBe('jest');
+    expect(detect('node --test src/')).toBe('node');
+    expect(detect('turbo test')).toBeNull();
+
+    const report = {
+      numPassedTests: 4,
+      testResults: [
+        {
+          name: join(env.projectRoot, 'packages/ui/button.test.ts'),
+          status: 'failed',
+          assertionResults: [
+            { fullName: 'Button renders label', status: 'failed', failureMessages: ['\x1b[31mAssertionError: expected "Save" to be "Submit"\x1b[39m\n    at button.test.ts:12'] },
+            { fullName: 'Button is focusable', status: 'passed' },
+          ],
+        },
+        { name: join(env.projectRoot, 'packages/ui/form.test.ts'), status: 'failed', message: 'SyntaxError: Unexpected token', assertionResults: [] },
+      ],
+    };
+
+    expect(parseJsonReport(report, env.projectRoot)).toEqual({
+      passed: 4,
+      failures: [
+        { file: 'packages/ui/button.test.ts', name: 'Button renders label', message: 'AssertionError: expected "Save" to be "Submit"' },
+        { file: 'packages/ui/form.test.ts', name: '(test file failed to run)', message: 'SyntaxError: Unexpected token' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * update_stream_status Tool Tests
+ *
+ * Test Coverage:
+ * 1. A legal transition updates the registry, METADATA.json and STATUS.md and commits them
+ * 2. Illegal transitions and unknown statuses change nothing
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const mockConfig = vi.hoisted(() => ({ PROJECT_ROOT: '', WORKTREE_ROOT: '' }));
+
+vi.mock('../src/config.js', () => ({ config: mockConfig }));
+vi.mock('../src/state-manager.js');
+
+import { createTestGitRepo, cleanupTestEnv, createMockStreamMetadata, type TestEnvironment } from './test-helpers.js';
+import { updateStreamStatus } from '../src/tools/update-stream-status.js';
+import { getStream, updateStream } from '../src/state-manager.js';
+
+const STREAM_ID = 'stream-2400-status';
+
+describe('update_stream_status', () => {
+  let env: TestEnvironment;
+
+  const metadata = () => JSON.parse(readFileSync(join(env.projectRoot, 'METADATA.json'), 'utf-8'));
+
+  beforeEach(async () => {
+    env = await createTestGitRepo();
+    mockConfig.PROJECT_ROOT = env.projectRoot;
+    mockConfig.WORKTREE_ROOT = env.worktreeRoot;
+
+    vi.mocked(getStream).mockResolvedValue(createMockStreamMetadata(STREAM_ID, { worktreePath: env.projectRoot }));
+    vi.mocked(updateStream).mockReset();
+
+    writeFileSync(
+      join(env.projectRoot, 'METADATA.json'),
+      JSON.stringify({
+        ...createMockStreamMetadata(STREAM_ID, { worktreePath: env.projectRoot }),
+        completedAt: null,
+        phases: ['Build'],
+        currentPhase: null,
+        progress: 0,
+        tags: [],
+        blockedReason: null,
+      })
+    );
+    await env.git.add('.');
+    await env.git.commit('docset');
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('writes the new status to the registry and the worktree docs', async () => {
+    const result = await updateStreamStatus({ streamId: STREAM_ID, status: 'blocked', blockedReason: 'waiting on API keys' });
+
+    expect(result.content[0].text).toContain('active → blocked');
+    expect(updateStream).toHaveBeenCalledWith(STREAM_ID, { status: 'blocked' });
+    expect(metadata()).toMatchObject({ status: 'blocked', blockedReason: 'waiting on API keys' });
+
+    const statusFile = readFileSync(join(env.projectRoot, 'STATUS.md'), 'utf-8');
+    expect(statusFile).toContain('**Stream status**: blocked');
+    expect(statusFile).toContain('**Blocked**: waiting on API keys');
+
+    const log = await env.git.log({ maxCount: 1 });
+    expect(log.latest?.message).toBe(`chore(${STREAM_ID}): status active → blocked`);
+    expect((await env.git.status()).isClean()).toBe(true);
+  });
+
+  it('changes nothing for an illegal transition or an unknown status', async () => {
+    const illegal = await updateStreamStatus({ streamId: STREAM_ID, status: 'completed' });
+    const unknown = await updateStreamStatus({ streamId: STREAM_ID, status: 'toString' as never });
+
+    expect(illegal.content[0].text).toContain('ILLEGAL STATUS TRANSITION');
+    expect(unknown.content[0].text).toBe('update_stream_status failed: Unknown status "toString"');
+    expect(updateStream).not.toHaveBeenCalled();
+    expect(metadata().status).toBe('active');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * validate_stream Tool Tests
+ *
+ * Test Coverage:
+ * 1. A pushed, up-to-date stream with valid METADATA.json and hooks is healthy
+ * 2. Missing worktree, invalid METADATA.json, interrupted merges and divergence are reported
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { chmodSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { simpleGit, type SimpleGit } from 'simple-git';
+
+const mockConfig = vi.hoisted(() => ({ PROJECT_ROOT: '', WORKTREE_ROOT: '' }));
+
+vi.mock('../src/config.js', () => ({ config: mockConfig }));
+vi.mock('../src/state-manager.js');
+
+import { createTestGitRepo, cleanupTestEnv, createMockStreamMetadata, type TestEnvironment } from './test-helpers.js';
+import { validateStream } from '../src/tools/validate-stream.js';
+import { getStream } from '../src/state-manager.js';
+
+const STREAM_ID = 'stream-2700-health';
+
+describe('validate_stream', () => {
+  let env: TestEnvironment;
+  let worktreePath: string;
+  let stream: SimpleGit;
+
+  const check = async () => (await validateStream({ streamId: STREAM_ID, fetch: false })).content[0].text!;
+
+  const writeMetadata = (overrides: Record<string, unknown> = {}) => {
+    writeFileSync(
+      join(worktreePath, 'METADATA.json'),
+      JSON.stringify({
+        ...createMockStreamMetadata(STREAM_ID, { worktreePath }),
+        completedAt: null,
+        phases: ['Build'],
+        currentPhase: null,
+        progress: 0,
+        tags: [],
+        blockedReason: null,
+        ...overrides,
+      })
+    );
+  };
+
+  beforeEach(async () => {
+    env = await createTestGitRepo();
+    mockConfig.PROJECT_ROOT = env.projectRoot;
+    mockConfig.WORKTREE_ROOT = env.worktreeRoot;
+    vi.mocked(getStream).mockResolvedValue(null);
+    // Ignore config injected through the environment (e.g. core.hooksPath=/dev/null)
+    vi.stubEnv('GIT_CONFIG_COUNT', '0');
+
+    const origin = join(env.worktreeRoot, '..', 'origin.git');
+    await simpleGit().init(true, [origin]);
+    await env.git.branch(['-M', 'main']);
+    await env.git.addRemote('origin', origin);
+    await env.git.push('origin', 'main');
+
+    worktreePath = join(env.worktreeRoot, STREAM_ID);
+    await env.git.raw(['worktree', 'add', '-b', STREAM_ID, worktreePath, 'main']);
+    stream = simpleGit(worktreePath);
+    writeMetadata();
+    await stream.add('.').commit('docs: stream docset');
+    await stream.push(['-u', 'origin', STREAM_ID]);
+
+    const hook = join(env.projectRoot, '.git/hooks/post-commit');
+    writeFileSync(hook, '#!/bin/sh\nexit 0\n');
+    chmodSync(hook, 0o755);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    cleanupTestEnv(env);
+  });
+
+  it('reports a pushed, up-to-date stream as healthy', async () => {
+    const text = await check();
+
+    expect(text).toContain('VALIDATE_STREAM: HEALTHY');
+    expect(text).not.toContain('❌');
+    expect(text).toContain('Stream is not in the state registry');
+  });
+
+  it('reports a missing worktree', async () => {
+    await env.git.raw(['worktree', 'remove', '--force', worktreePath]);
+
+    const text = await check();
+
+    expect(text).toContain('VALIDATE_STREAM: 1 ISSUE(S)');
+    expect(text).toContain(`Worktree missing or not a git worktree: ${worktreePath}`);
+  });
+
+  it('reports invalid metadata, an interrupted merge and divergence from main', async () => {
+    writeFileSync(join(env.projectRoot, 'shared.txt'), 'main\n');
+    await env.git.add('.').commit('main: shared');
+    await env.git.push('origin', 'main');
+    await stream.fetch('origin');
+
+    writeMetadata({ status: 'done', progress: 150 });
+    writeFileSync(join(worktreePath, 'shared.txt'), 'stream\n');
+    await stream.add('.').commit('stream: shared');
+    await stream.merge(['origin/main']).catch(() => {});
+
+    const text = await check();
+
+    expect(text).toContain('METADATA.json: "status" has unknown value "done"');
+    expect(text).toContain('METADATA.json: "progress" must be a number between 0 and 100');
+    expect(text).toContain('1 file(s) with unresolved conflicts: shared.txt');
+    expect(text).toContain('Unfinished merge in progress - finish it or run: git merge --abort');
+    expect(text).toContain('❌ Up to date with origin/main (2 ahead, 1 behind)');
+    expect(text).toContain('1 commit(s) behind origin/main');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Validation Baseline Tests
+ *
+ * Test Coverage:
+ * 1. no-regressions ignores errors origin/main already has; strict doesn't
+ * 2. Only new errors fail, baselines are cached per main commit
+ * 3. Falls back to strict without origin/main
+ * 4. mode in the project's validator config
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdirSync, readdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const mockConfig = vi.hoisted(() => ({
+  VALIDATION_TIMEOUT: 30000,
+  VALIDATION_BASELINE_DIR: '',
+  PROJECT_ROOT: '',
+  VALIDATOR_CONFIG_PATH: '.project/validators.json',
+}));
+
+vi.mock('../src/config.js', () => ({ config: mockConfig }));
+
+import { createTestGitRepo, cleanupTestEnv, type TestEnvironment } from './test-helpers.js';
+import { CommandValidator } from '../src/validators/command-validator.js';
+import { loadValidatorConfig } from '../src/validators/index.js';
+
+// Reports every line containing BAD in src/*.ts the way tsc --pretty false does
+const CHECKER = `import { readdirSync, readFileSync } from 'node:fs';
+let errors = 0;
+for (const file of readdirSync('src')) {
+  readFileSync('src/' + file, 'utf-8').split('\\n').forEach((line, i) => {
+    if (line.includes('BAD')) { errors++; console.log(\`src/\${file}(\${i + 1},1): error TS9999: bad marker\`); }
+  });
+}
+process.exit(errors ? 2 : 0);
+`;
+
+const definition = { name: 'typescript', command: 'node check.mjs', format: 'tsc' as const };
+
+describe('validation baseline', () => {
+  let env: TestEnvironment;
+  let mainCommit: string;
+
+  beforeEach(async () => {
+    env = await createTestGitRepo();
+    mockConfig.VALIDATION_BASELINE_DIR = join(env.worktreeRoot, '..', 'baselines');
+    mockConfig.PROJECT_ROOT = env.projectRoot;
+
+    const { git, projectRoot } = env;
+    mkdirSync(join(projectRoot, 'src'));
+    writeFileSync(join(projectRoot, 'check.mjs'), CHECKER);
+    writeFileSync(join(projectRoot, 'src/old.ts'), 'export const old = 1; // BAD\n');
+    await git.add('.');
+    await git.commit('main with an error');
+    await git.raw(['update-ref', 'refs/remotes/origin/main', 'HEAD']);
+    mainCommit = (await git.revparse(['HEAD'])).trim();
+
+    await git.checkoutLocalBranch('stream-2300-test');
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  const streamWrites = async (content: string) => {
+    writeFileSync(join(env.projectRoot, 'src/new.ts'), content);
+    await env.git.add('.');
+    await env.git.commit('feat: new');
+  };
+
+  it('ignores errors that origin/main already has', async () => {
+    await streamWrites('export const fresh = 1;\n');
+
+    const strict = await new CommandValidator(definition).validate(env.projectRoot);
+    const result = await new CommandValidator(definition, 'no-regressions').validate(env.projectRoot);
+
+    expect(strict.passed).toBe(false);
+    expect(result).toMatchObject({
+      passed: true,
+      errors: [],
+      warnings: [`[typescript] 1 error(s) also on origin/main (${mainCommit.slice(0, 8)}) ignored (no-regressions)`],
+    });
+    expect(readdirSync(join(mockConfig.VALIDATION_BASELINE_DIR, mainCommit))).toHaveLength(1);
+    expect(await env.git.raw(['worktree', 'list'])).not.toContain('stream-baseline-');
+  });
+
+  it('fails only for new errors and reuses the cached baseline', async () => {
+    await streamWrites('export const fresh = 1; // BAD\n');
+
+    const result = await new CommandValidator(definition, 'no-regressions').validate(env.projectRoot);
+
+    expect(result.passed).toBe(false);
+    expect(result.errors).toEqual([
+      `[typescript] 1 new error(s) vs origin/main (${mainCommit.slice(0, 8)}) in 1 file(s); 1 already on main ignored`,
+    ]);
+    expect(result.diagnostics?.map((d) => d.file)).toEqual(['src/new.ts']);
+
+    // A cached baseline is trusted as-is: an empty one makes every error new
+    const [cacheFile] = readdirSync(join(mockConfig.VALIDATION_BASELINE_DIR, mainCommit));
+    writeFileSync(join(mockConfig.VALIDATION_BASELINE_DIR, mainCommit, cacheFile), '[]');
+
+    const cached = await new CommandValidator(definition, 'no-regressions').validate(env.projectRoot);
+
+    expect(cached.diagnostics?.map((d) => d.file)).toEqual(['src/new.ts', 'src/old.ts']);
+  });
+
+  it('validates strictly when origin/main is missing', async () => {
+    await streamWrites('export const fresh = 1;\n');
+    await env.git.raw(['update-ref', '-d', 'refs/remotes/origin/main']);
+
+    const result = await new CommandValidator(definition, 'no-regressions').validate(env.projectRoot);
+
+    expect(result.passed).toBe(false);
+    expect(result.warnings).toEqual([expect.stringMatching(/^\[typescript\] No baseline on origin\/main, validated strictly: /)]);
+    expect(existsSync(mockConfig.VALIDATION_BASELINE_DIR)).toBe(false);
+  });
+
+  it('reads the mode from the project validator config', () => {
+    const write = (content: object) => {
+      mkdirSync(join(env.projectRoot, '.project'), { recursive: true });
+      writeFileSync(join(env.projectRoot, '.project/validators.json'), JSON.stringify(content));
+    };
+
+    expect(loadValidatorConfig().mode).toBe('strict');
+
+    write({ mode: 'no-regressions', validators: [definition] });
+    expect(loadValidatorConfig()).toEqual({ mode: 'no-regressions', validators: [definition] });
+
+    write({ mode: 'lenient', validators: [] });
+    expect(() => loadValidatorConfig()).toThrow('mode must be one of strict, no-regressions');
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Validation Cache Tests
+ *
+ * Test Coverage:
+ * 1. A re-run on the same tree returns cached results without running
+ * 2. Changed trees, uncommitted changes and changed validator config run again
+ * 3. clearCache drops cached results
+ * 4. Only failures with diagnostics are cached - not timeouts or unexplained failures
+ * 5. no-regressions results validated strictly for want of a baseline are not cached
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const mockConfig = vi.hoisted(() => ({
+  PROJECT_ROOT: '',
+  VALIDATOR_CONFIG_PATH: '.project/validators.json',
+  VALIDATION_CACHE_DIR: '',
+  VALIDATION_BASELINE_DIR: '',
+  VALIDATION_TIMEOUT: 10000,
+  TEST_VALIDATION_SCOPE: 'changed',
+  VALIDATORS: { test: false } as Record<string, boolean>,
+}));
+
+vi.mock('../src/config.js', () => ({ config: mockConfig }));
+
+import { createTestGitRepo, cleanupTestEnv, type TestEnvironment } from './test-helpers.js';
+import { runValidation, formatValidationResults } from '../src/validators/index.js';
+
+describe('validation cache', () => {
+  let env: TestEnvironment;
+  let counter: string;
+
+  const runs = () => (existsSync(counter) ? readFileSync(counter, 'utf-8').split('\n').filter(Boolean).length : 0);
+
+  const writeValidators = async (command: string, options: Record<string, unknown> = {}) => {
+    mkdirSync(join(env.projectRoot, '.project'), { recursive: true });
+    writeFileSync(
+      join(env.projectRoot, '.project/validators.json'),
+      JSON.stringify({ validators: [{ name: 'check', command, ...options }] })
+    );
+    await env.git.add('.');
+    await env.git.commit('validators');
+  };
+
+  beforeEach(async () => {
+    env = await createTestGitRepo();
+    mockConfig.PROJECT_ROOT = env.projectRoot;
+    mockConfig.VALIDATION_CACHE_DIR = join(env.worktreeRoot, '..', 'validation-cache');
+    mockConfig.VALIDATION_BASELINE_DIR = join(env.worktreeRoot, '..', 'baselines');
+    counter = join(env.worktreeRoot, '..', 'runs.log');
+    await writeValidators(`echo run >> ${JSON.stringify(counter)}`);
+  });
+
+  afterEach(() => {
+    cleanupTestEnv(env);
+  });
+
+  it('returns cached results for an unchanged tree', async () => {
+    const first = await runValidation(env.projectRoot);
+    const second = await runValidation(env.projectRoot);
+
+    expect(runs()).toBe(1);
+    expect(first.outcomes[0].cached).toBe(false);
+    expect(second.outcomes[0]).toMatchObject({ name: 'check', cached: true, result: { passed: true } });
+    expect(formatValidationResults(second)).toBe('  check: PASSED (cached)');
+  });
+
+  it('runs again when the tree, the working copy or the validator config changes', async () => {
+    await runValidation(env.projectRoot);
+
+    writeFileSync(join(env.projectRoot, 'app.ts'), 'export const a = 1;\n');
+    await runValidation(env.projectRoot);
+    await runValidation(env.projectRoot);
+    expect(runs()).toBe(3); // Untracked file - not cacheable
+
+    await env.git.add('.');
+    await env.git.commit('app');
+    await runValidation(env.projectRoot);
+    await runValidation(env.projectRoot);
+    expect(runs()).toBe(4);
+
+    await writeValidators(`echo run >> ${JSON.stringify(counter)} && true`);
+    await runValidation(env.projectRoot);
+    expect(runs()).toBe(5);
+  });
+
+  it('clears cached results on request', async () => {
+    await runValidation(env.projectRoot);
+
+    const rerun = await runValidation(env.projectRoot, { clearCache: true });
+
+    expect(runs()).toBe(2);
+    expect(rerun.outcomes[0].cached).toBe(false);
+  });
+
+  it('caches failures with diagnostics but not timeouts or unexplained failures', async () => {
+    const log = `echo run >> ${JSON.stringify(counter)}`;
+
+    await writeValidators(`${log}; echo "src/a.ts(1,1): error TS2322: Type mismatch."; exit 2`, { format: 'tsc' });
+    await runValidation(env.projectRoot);
+    const diagnosed = await runValidation(env.projectRoot);
+    expect(runs()).toBe(1);
+    expect(diagnosed.outcomes[0]).toMatchObject({ cached: true, result: { passed: false } });
+
+    await writeValidators(`${log}; echo "Segmentation fault"; exit 1`, { format: 'tsc' });
+    await runValidation(env.projectRoot);
+    await runValidation(env.projectRoot);
+    expect(runs()).toBe(3);
+
+    await writeValidators(`${log}; sleep 5`, { timeout: 200 });
+    await runValidation(env.projectRoot);
+    const timedOut = await runValidation(env.projectRoot);
+    expect(runs()).toBe(5);
+    expect(timedOut.outcomes[0]).toMatchObject({ cached: false, result: { passed: false } });
+  });
+
+  it('does not cache no-regressions failures validated strictly without a baseline', async () => {
+    const command = `echo run >> ${JSON.stringify(counter)}; echo "src/a.ts(1,1): error TS2322: Type mismatch."; exit 2`;
+    writeFileSync(
+      join(env.projectRoot, '.project/validators.json'),
+      JSON.stringify({ mode: 'no-regressions', validators: [{ name: 'check', command, format: 'tsc' }] })
+    );
+    await env.git.add('.');
+    await env.git.commit('validators');
+
+    await runValidation(env.projectRoot); // No origin/main - baseline unavailable
+    const rerun = await runValidation(env.projectRoot);
+
+    expect(runs()).toBe(2);
+    expect(rerun.outcomes[0]).toMatchObject({ cached: false, result: { passed: false, cacheable: false } });
+    expect(rerun.warnings).toEqual([expect.stringContaining('[check] No baseline on origin/main, validated strictly')]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Validator Pipeline Tests
+ *
+ * Test Coverage:
+ * 1. Built-in validators without a project config (build/lint run the
+ *    package.json script, advisory without one), toggles
+ * 2. Configured commands: cwd, env, required vs advisory, timeout; run in order
+ * 3. Invalid config names the entry at fault
+ * 4. Registered validators; a throwing validator counts as failed
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const mockConfig = vi.hoisted(() => ({
+  PROJECT_ROOT: '',
+  VALIDATOR_CONFIG_PATH: '.project/validators.json',
+  VALIDATION_TIMEOUT: 10000,
+  VALIDATORS: {} as Record<string, boolean>,
+}));
+
+vi.mock('../src/config.js', () => ({ config: mockConfig }));
+
+import {
+  getValidators,
+  loadValidatorConfig,
+  registerValidator,
+  resetValidators,
+  runValidation,
+  validationStatus,
+  formatValidationResults,
+} from '../src/validators/index.js';
+
+describe('validator pipeline', () => {
+  let root: string;
+
+  const writeValidatorConfig = (validators: unknown) => {
+    mkdirSync(join(root, '.project'), { recursive: true });
+    writeFileSync(join(root, '.project/validators.json'), JSON.stringify({ validators }));
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'mcp-validators-'));
+    mockConfig.PROJECT_ROOT = root;
+    mockConfig.VALIDATORS = { test: false };
+  });
+
+  afterEach(() => {
+    resetValidators();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('uses the built-in validators without a project config and honours toggles', () => {
+    mockConfig.VALIDATORS = {};
+
+    expect(getValidators().map((v) => [v.name, v.required])).toEqual([
+      ['typescript', true],
+      ['build', false],
+      ['lint', false],
+      ['test', true],
+    ]);
+
+    expect(loadValidatorConfig().validators.find((d) => d.name === 'lint')?.command).toBe('npx eslint . --format json');
+
+    writeFileSync(join(root, 'package.json'), JSON.stringify({ scripts: { build: 'tsc', lint: 'eslint .' } }));
+
+    expect(getValidators().map((v) => [v.name, v.required])).toEqual([
+      ['typescript', true],
+      ['build', true],
+      ['lint', true],
+      ['test', true],
+    ]);
+    expect(loadValidatorConfig().validators.map((d) => [d.name, d.command, d.format])).toEqual([
+      ['typescript', 'npx tsc --noEmit --pretty false', undefined],
+      ['build', 'pnpm build', 'text'],
+      ['lint', 'pnpm lint --format json', 'eslint'],
+    ]);
+
+    writeFileSync(join(root, 'package.json'), JSON.stringify({ scripts: { lint: 'eslint . && prettier --check .' } }));
+
+    expect(loadValidatorConfig().validators.find((d) => d.name === 'lint')).toMatchObject({ command: 'pnpm lint', format: 'text', required: true });
+
+    mockConfig.VALIDATORS = { build: false, lint: false, test: false };
+
+    expect(getValidators().map((v) => v.name)).toEqual(['typescript']);
+  });
+
+  it('runs configured commands with cwd and env; only required failures block', async () => {
+    mkdirSync(join(root, 'packages/app'), { recursive: true });
+    writeFileSync(join(root, 'packages/app/marker'), '');
+    writeValidatorConfig([
+      { name: 'schema', command: 'test -f marker && test "$SCHEMA_MODE" = strict', cwd: 'packages/app', env: { SCHEMA_MODE: 'strict' } },
+      { name: 'style', command: 'echo "src/a.ts:1:1 error Unexpected var" && exit 1', required: false },
+    ]);
+
+    const run = await runValidation(root);
+
+    expect(run.allPassed).toBe(true);
+    expect(validationStatus(run)).toEqual({ schema: 'passed', style: 'failed' });
+    expect(run.errors).toEqual([]);
+    expect(run.warnings).toEqual(['[style] src/a.ts:1:1 error Unexpected var']);
+    expect(formatValidationResults(run)).toBe('  schema: PASSED\n  style: FAILED (advisory)');
+
+    writeValidatorConfig([{ name: 'schema', command: 'test "$SCHEMA_MODE" = strict' }]);
+
+    const failed = await runValidation(root);
+
+    expect(failed.allPassed).toBe(false);
+    expect(failed.errors).toEqual(['[schema] Command failed: test "$SCHEMA_MODE" = strict']);
+  });
+
+  it('fails a validator that exceeds its timeout', async () => {
+    writeValidatorConfig([{ name: 'slow', command: 'sleep 5', timeout: 200 }]);
+
+    const run = await runValidation(root);
+
+    expect(run.allPassed).toBe(false);
+    expect(run.errors).toEqual(['[slow] Timed out after 200ms: sleep 5']);
+  });
+
+  it('rejects an invalid config with the entry at fault', () => {
+    writeValidatorConfig([{ name: 'lint', command: 'pnpm lint' }, { name: 'lint', command: 'pnpm lint:strict' }]);
+    expect(() => getValidators()).toThrow(/validators\.json: "lint": duplicate name/);
+
+    writeValidatorConfig([{ name: 'tests', command: 'pnpm test', timeout: '5m' }]);
+    expect(() => getValidators()).toThrow('"tests": timeout must be a positive number of milliseconds');
+  });
+
+  it('runs validators one after another, in order', async () => {
+    const log = join(root, 'order.log');
+    writeValidatorConfig([
+      { name: 'build', command: `sleep 0.3 && echo build >> ${log}` },
+      { name: 'unit', command: `echo unit >> ${log}` },
+    ]);
+
+    await runValidation(root);
+
+    expect(readFileSync(log, 'utf-8')).toBe('build\nunit\n');
+  });
+
+  it('runs registered validators after configured ones', async () => {
+    writeValidatorConfig([{ name: 'typescript', command: 'true' }]);
+    registerValidator({
+      name: 'contracts',
+      validate: async () => {
+        throw new Error('spec file missing');
+      },
+    });
+
+    const run = await runValidation(root);
+
+    expect(run.outcomes.map((o) => o.name)).toEqual(['typescript', 'contracts']);
+    expect(run.errors).toEqual(['[contracts] spec file missing']);
+    expect(() => registerValidator({ name: 'contracts', validate: async () => ({ passed: true, errors: [], warnings: [] }) })).toThrow(
+      'Validator "contracts" is already registered'
+    );
+  });
+});